@@ -15,7 +15,11 @@ import {
     Download,
     Calculator,
     LayoutGrid,
-    Scale
+    Scale,
+    Percent,
+    ArrowRightLeft,
+    ClipboardList,
+    TestTubes
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
@@ -23,7 +27,11 @@ import { useStore } from "@/store/useStore";
 
 // Component imports
 import MWCalculator from "@/components/calculators/MWCalculator";
+import ElementalAnalysis from "@/components/calculators/ElementalAnalysis";
+import ReactionBalancer from "@/components/calculators/ReactionBalancer";
+import ReagentCalculator from "@/components/calculators/ReagentCalculator";
 import DilutionCalculator from "@/components/calculators/DilutionCalculator";
+import SerialDilutionPlanner from "@/components/calculators/SerialDilutionPlanner";
 import MolarityCalculator from "@/components/calculators/MolarityCalculator";
 
 import BufferBuilder from "@/components/calculators/BufferBuilder";
@@ -35,7 +43,11 @@ import { SaveRecipeModal } from "@/components/ui/SaveRecipeModal";
 
 const TABS = [
     { id: "mw", label: "Molecular Weight", icon: Table2, desc: "Calculate molar mass from chemical formulas and PubChem lookup" },
+    { id: "elemental", label: "Elemental Analysis", icon: Percent, desc: "Find empirical and molecular formulas from CHNS percentages" },
+    { id: "reaction", label: "Equation Balancer", icon: ArrowRightLeft, desc: "Balance reactions and get mole and mass ratios" },
+    { id: "reagents", label: "Reagent Table", icon: ClipboardList, desc: "Equivalents, amounts and yield for a synthesis" },
     { id: "dilution", label: "Dilution Calculator", icon: Pipette, desc: "C₁V₁ = C₂V₂ calculations for solution preparation" },
+    { id: "serial", label: "Serial Dilution", icon: TestTubes, desc: "Step-by-step dilution series for standard curves and MIC plates" },
     { id: "molarity", label: "Molarity Triangle", icon: Scale, desc: "Solve for Mass, Volume, or Concentration" },
 
     { id: "buffer_calc", label: "Buffer Calculator", icon: Calculator, desc: "Recipes for common biological buffers (Tris, PBS)" },
@@ -310,10 +322,26 @@ export default function Home() {
                             <MWCalculator />
                         )}
 
+                        {activeTab === "elemental" && (
+                            <ElementalAnalysis />
+                        )}
+
+                        {activeTab === "reaction" && (
+                            <ReactionBalancer />
+                        )}
+
+                        {activeTab === "reagents" && (
+                            <ReagentCalculator />
+                        )}
+
                         {activeTab === "dilution" && (
                             <DilutionCalculator />
                         )}
 
+                        {activeTab === "serial" && (
+                            <SerialDilutionPlanner />
+                        )}
+
                         {activeTab === "molarity" && (
                             <MolarityCalculator />
                         )}
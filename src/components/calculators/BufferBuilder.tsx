@@ -1,11 +1,24 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useStore } from "@/store/useStore";
-import { Trash2, Plus, Search, Loader2, Book, Save, Square, CheckSquare } from "lucide-react";
+import { Trash2, Plus, Search, Loader2, Book, Save, Square, CheckSquare, Droplet } from "lucide-react";
 import { FormulaBadge } from "../ui/FormulaBadge";
-import { formatMass, formatVolume, formatConcentration, parseFormula, calculateMw, getUnitLabel } from "@/lib/parser";
+import { LotSelect, useBatchMw } from "../ui/BatchLots";
+import { UnitOptions } from "../ui/UnitOptions";
+import { TonicitySummary } from "../ui/TonicitySummary";
+import { QuickEntry } from "../ui/QuickEntry";
+import { formatMass, formatVolume, formatConcentration, parseFormula, calculateMw, looksLikeFormula, getUnitLabel } from "@/lib/parser";
+import { ATOMIC_WEIGHT_TABLES } from "@/lib/atomicWeights";
+import { CONCENTRATION_DIMENSIONS, convert, getUnit, isTraceFraction, requiresDensity, requiresMw, toBase } from "@/lib/units";
 import { lookupPubChem } from "@/lib/api";
+import { looksLikePolymer, parsePolymer } from "@/lib/polymer";
+import { findLiquid, liquidVolume } from "@/lib/densities";
+import { DEFAULT_RECIPES, Recipe, RecipeSolute } from "@/lib/recipes";
+import { concentrateFactor, dissociate } from "@/lib/osmolarity";
+import { inputSigFigs } from "@/lib/sigfigs";
+import { Phrase } from "@/lib/phrase";
+import { NumericInput } from "../ui/NumericInput";
 
 // Simple debounce helper since I didn't check for lodash
 function useDebounce<T>(value: T, delay: number): T {
@@ -17,25 +30,115 @@ function useDebounce<T>(value: T, delay: number): T {
     return debouncedValue;
 }
 
+/** Liquid toggle plus density and assay, for solutes measured by volume. */
+function LiquidFields({ solute }: { solute: RecipeSolute & { id: string; formula?: string } }) {
+    const { updateSolute, liquids, groupAbbreviations } = useStore();
+
+    const toggle = () => {
+        if (solute.liquid) {
+            updateSolute(solute.id, { liquid: false });
+            return;
+        }
+        // Prefill from the density table the first time
+        const match = solute.density ? undefined : findLiquid(solute.name, liquids, groupAbbreviations)
+            ?? (solute.formula ? findLiquid(solute.formula, liquids, groupAbbreviations) : undefined);
+        updateSolute(solute.id, {
+            liquid: true,
+            ...(match && { density: String(match.density), assay: String(match.assay) }),
+        });
+    };
+
+    return (
+        <div className="flex items-center gap-2 text-[10px] text-zinc-500">
+            <button
+                type="button"
+                onClick={toggle}
+                title="Measure by volume using the density"
+                className={`flex items-center gap-1 px-1.5 py-0.5 rounded border transition-colors ${solute.liquid ? "border-sky-500/30 bg-sky-500/10 text-sky-400" : "border-white/10 hover:text-zinc-300"}`}
+            >
+                <Droplet className="h-3 w-3" /> Liquid
+            </button>
+            {solute.liquid && (
+                <>
+                    <label>ρ</label>
+                    <NumericInput
+                        placeholder="g/mL"
+                        value={solute.density ?? ""}
+                        onChange={(value) => updateSolute(solute.id, { density: value })}
+                        className="w-14 bg-transparent border-transparent p-0 focus:ring-0 text-[10px]"
+                    />
+                    <label>% w/w</label>
+                    <NumericInput
+                        placeholder="100"
+                        value={solute.assay ?? ""}
+                        onChange={(value) => updateSolute(solute.id, { assay: value })}
+                        className="w-12 bg-transparent border-transparent p-0 focus:ring-0 text-[10px]"
+                    />
+                </>
+            )}
+        </div>
+    );
+}
+
+// Recipe names without their strength, for matching typed names: "PBS (10X)" and "10X PBS" are both "pbs"
+const recipeKey = (name: string) => name.toLowerCase().replace(/\s*\(.*?\)/g, "").replace(/\s+buffer$/, "").trim();
+
+/** Van 't Hoff factor override; the placeholder is the particle count from the formula. */
+function VantHoffField({ solute }: { solute: RecipeSolute & { id: string } }) {
+    const { updateSolute } = useStore();
+    const ions = dissociate(solute.formula || solute.name);
+    const particles = ions ? ions.reduce((sum, ion) => sum + ion.count, 0) : 1;
+
+    return (
+        <label className="flex items-center gap-1 text-[10px] text-zinc-500" title="Van 't Hoff factor: particles per formula unit, for osmolarity">
+            <span className="italic">i</span>
+            <NumericInput
+                placeholder={String(particles)}
+                value={solute.vantHoff ?? ""}
+                onChange={(value) => updateSolute(solute.id, { vantHoff: value })}
+                className="w-10 bg-transparent border-transparent p-0 focus:ring-0 text-[10px]"
+            />
+        </label>
+    );
+}
+
 function SoluteRow({ solute, isChecklist, onToggleCheck, view = 'table' }: { solute: any; isChecklist: boolean; onToggleCheck: (id: string) => void; view?: 'table' | 'card' }) {
-    const { bufferVolume, bufferUnit, removeSolute, updateSolute } = useStore();
+    const { bufferVolume, bufferUnit, removeSolute, updateSolute, groupAbbreviations, atomicWeightTable, numberFormat } = useStore();
     const [isSearching, setIsSearching] = useState(false);
 
     const debouncedName = useDebounce(solute.name, 600);
+    const { batch } = useBatchMw(solute.formula, solute.lotId, parseFloat(solute.mw));
+
+    // The lookup sets formula/resolvedName itself, so they're read through a ref rather than rerunning it
+    const resolvedRef = useRef({ formula: solute.formula, resolvedName: solute.resolvedName });
+    useEffect(() => {
+        resolvedRef.current = { formula: solute.formula, resolvedName: solute.resolvedName };
+    });
 
     useEffect(() => {
         const triggerLookup = async () => {
             const query = debouncedName.trim();
             if (!query) return;
 
-            if (solute.formula === query) return;
+            const { formula, resolvedName } = resolvedRef.current;
+            if (formula === query || resolvedName === query) return;
 
             setIsSearching(true);
             try {
-                if (/^[A-Za-z0-9()\[\]·*•.]+$/.test(query) && /[A-Z]/.test(query)) {
+                // Polymers like PEG-3350 are weighed out by Mn
+                if (looksLikePolymer(query)) {
                     try {
-                        const composition = parseFormula(query);
-                        const mw = calculateMw(composition);
+                        const polymer = parsePolymer(query, {}, groupAbbreviations, ATOMIC_WEIGHT_TABLES[atomicWeightTable]);
+                        updateSolute(solute.id, { mw: polymer.mn.toFixed(2), formula: polymer.formula, resolvedName: query });
+                        setIsSearching(false);
+                        return;
+                    } catch { }
+                }
+
+                if (looksLikeFormula(query)) {
+                    try {
+                        const composition = parseFormula(query, groupAbbreviations);
+                        const mw = calculateMw(composition, ATOMIC_WEIGHT_TABLES[atomicWeightTable]);
                         updateSolute(solute.id, { mw: mw.toFixed(2), formula: query });
                         setIsSearching(false);
                         return;
@@ -58,75 +161,59 @@ function SoluteRow({ solute, isChecklist, onToggleCheck, view = 'table' }: { sol
         };
 
         triggerLookup();
-    }, [debouncedName, solute.id, updateSolute]);
+    }, [debouncedName, solute.id, updateSolute, groupAbbreviations, atomicWeightTable]);
 
     const calculateMass = () => {
-        const mw = parseFloat(solute.mw);
+        // Weigh against the selected lot's batch MW
+        const mw = batch ? batch.mw : parseFloat(solute.mw);
         const conc = parseFloat(solute.conc);
         const vol = parseFloat(bufferVolume);
 
         if (isNaN(conc) || isNaN(vol)) return "-";
 
-        let volL = vol;
-        if (bufferUnit === "mL") volL = vol / 1000;
-        if (bufferUnit === "μL") volL = vol / 1000000;
+        const volL = toBase(vol, bufferUnit);
+        // A lot's batch MW is derived, so only a typed MW limits the precision
+        const typedMw = batch ? undefined : solute.mw;
 
         if (solute.isStock && solute.stockConc) {
             const c1 = parseFloat(solute.stockConc);
-            const u1 = solute.stockUnit;
-            const c2 = conc;
-            const u2 = solute.unit;
-
-            if (isNaN(c1) || isNaN(c2)) return "-";
-
-            const isMolar = (u: string) => ['M', 'mM', 'μM'].includes(u);
-            const isMass = (u: string) => ['μg/mL', 'mg/mL', 'mg/L', 'g/L', 'pct', 'ng/μL'].includes(u);
+            if (isNaN(c1)) return "-";
+            if (requiresMw(solute.stockUnit, solute.unit) && !(mw > 0)) return "Mw?";
+            if (requiresDensity(solute.stockUnit, solute.unit) && !(parseFloat(solute.density) > 0)) return "ρ?";
 
-            const domain1 = isMolar(u1) ? 'molar' : (isMass(u1) ? 'mass' : null);
-            const domain2 = isMolar(u2) ? 'molar' : (isMass(u2) ? 'mass' : null);
-
-            const normalizeToBase = (val: number, u: string) => {
-                if (u === 'M' || u === 'g/L' || u === 'mg/mL') return val;
-                if (u === 'mM' || u === 'mg/L' || u === 'μg/mL' || u === 'ng/μL') return val / 1000;
-                if (u === 'μM') return val / 1e6;
-                if (u === 'pct') return val * 10;
-                return val;
-            };
-
-            let c1Base = normalizeToBase(c1, u1);
-            let c2Base = normalizeToBase(c2, u2);
-
-            if (domain1 !== domain2 && domain1 && domain2) {
-                if (isNaN(mw) || mw <= 0) return "Mw?";
-                if (domain2 === 'molar' && domain1 === 'mass') {
-                    c1Base = c1Base / mw;
-                } else if (domain2 === 'mass' && domain1 === 'molar') {
-                    c1Base = c1Base * mw;
-                }
+            try {
+                // % w/w stocks convert through the stock's density
+                const density = parseFloat(solute.density) || undefined;
+                const equivalents = parseFloat(solute.equivalents) || undefined;
+                const diluteAqueous = isTraceFraction(solute.stockUnit) || isTraceFraction(solute.unit);
+                const v1L = (conc * volL) / convert(c1, solute.stockUnit, solute.unit, { mw, density, diluteAqueous, equivalents });
+                if (!isFinite(v1L) || v1L <= 0) return "-";
+                const sigFigs = inputSigFigs(solute.conc, bufferVolume, solute.stockConc, requiresMw(solute.stockUnit, solute.unit) ? typedMw : undefined);
+                return formatVolume(v1L, sigFigs, numberFormat);
+            } catch {
+                return "-";
             }
-
-            const v1L = (c2Base * volL) / c1Base;
-            if (!isFinite(v1L) || v1L <= 0) return "-";
-            return formatVolume(v1L);
         }
 
-        if (solute.unit === "M" || solute.unit === "mM" || solute.unit === "μM") {
-            if (isNaN(mw)) return "-";
-            if (solute.unit === "M") return formatMass(conc * volL * mw);
-            if (solute.unit === "mM") return formatMass((conc / 1000) * volL * mw);
-            if (solute.unit === "μM") return formatMass((conc / 1000000) * volL * mw);
+        const dimension = getUnit(solute.unit)?.dimension;
+        const sigFigs = inputSigFigs(solute.conc, bufferVolume);
+        if (dimension === "dilution") return formatVolume(volL / conc, sigFigs, numberFormat);
+        // Neat liquids given in % v/v are measured by volume
+        if (dimension === "volume_fraction") return formatVolume(toBase(conc, solute.unit) * volL, sigFigs, numberFormat);
+
+        try {
+            const grams = convert(conc, solute.unit, "g/L", { mw, diluteAqueous: isTraceFraction(solute.unit) }) * volL;
+            const massSigFigs = inputSigFigs(solute.conc, bufferVolume, requiresMw(solute.unit, "g/L") ? typedMw : undefined);
+            if (!solute.liquid) return formatMass(grams, massSigFigs, numberFormat);
+
+            // Liquids and concentrated % w/w acids/bases are pipetted
+            const density = parseFloat(solute.density);
+            if (!(density > 0)) return "ρ?";
+            const volumeSigFigs = inputSigFigs(solute.conc, bufferVolume, requiresMw(solute.unit, "g/L") ? typedMw : undefined, solute.density);
+            return formatVolume(liquidVolume(grams, density, parseFloat(solute.assay) || 100), volumeSigFigs, numberFormat);
+        } catch {
+            return "-";
         }
-
-        if (solute.unit === "pct") return formatMass((conc / 100) * (volL * 1000));
-        if (solute.unit === "dil") return formatVolume(volL / conc);
-
-        const volML = volL * 1000;
-        if (solute.unit === "μg/mL" || solute.unit === "ng/μL") return formatMass((conc / 1000) * volML / 1000);
-        if (solute.unit === "mg/mL") return formatMass(conc * volML / 1000);
-        if (solute.unit === "mg/L") return formatMass(conc * volL / 1000);
-        if (solute.unit === "g/L") return formatMass(conc * volL);
-
-        return "-";
     };
 
     const handleExternalLookup = () => {
@@ -168,7 +255,7 @@ function SoluteRow({ solute, isChecklist, onToggleCheck, view = 'table' }: { sol
                                             </span>
                                             {solute.stockConc && (
                                                 <span className="shrink-0 px-1.5 py-0.5 rounded bg-indigo-500/10 border border-indigo-500/20 text-[10px] font-bold tracking-wider text-indigo-400">
-                                                    {formatConcentration(solute.stockConc, solute.stockUnit)} {getUnitLabel(solute.stockUnit)}
+                                                    {formatConcentration(solute.stockConc, solute.stockUnit, undefined, numberFormat)} {getUnitLabel(solute.stockUnit)}
                                                 </span>
                                             )}
                                         </>
@@ -192,20 +279,31 @@ function SoluteRow({ solute, isChecklist, onToggleCheck, view = 'table' }: { sol
                                 </div>
                             </div>
                             {solute.formula && (
-                                <div className="pl-9">
+                                <div className="pl-9 flex items-center gap-2">
                                     <FormulaBadge formula={solute.formula} className="self-start text-[10px] px-2 py-0.5" />
+                                    <LotSelect
+                                        formula={solute.formula}
+                                        lotId={solute.lotId}
+                                        onChange={(lotId) => updateSolute(solute.id, { lotId })}
+                                        className="bg-transparent border-transparent p-0 focus:ring-0 text-[10px] text-zinc-400"
+                                    />
+                                </div>
+                            )}
+                            {!isChecklist && !solute.isStock && (
+                                <div className="pl-9 flex items-center gap-3">
+                                    <LiquidFields solute={solute} />
+                                    <VantHoffField solute={solute} />
                                 </div>
                             )}
                         </div>
                     </div>
                 </td>
                 <td className="px-6 py-4 align-top">
-                    <input
-                        type="number"
+                    <NumericInput
                         placeholder="0.00"
                         value={solute.mw}
                         disabled={solute.isStock}
-                        onChange={(e) => updateSolute(solute.id, { mw: e.target.value })}
+                        onChange={(value) => updateSolute(solute.id, { mw: value })}
                         className={`w-24 bg-transparent border-transparent p-0 focus:ring-0 text-sm ${solute.isStock ? 'opacity-50 cursor-not-allowed' : ''}`}
                     />
                 </td>
@@ -213,15 +311,14 @@ function SoluteRow({ solute, isChecklist, onToggleCheck, view = 'table' }: { sol
                     <div className="flex items-center gap-2">
                         {isChecklist ? (
                             <span className="text-sm font-bold text-zinc-300">
-                                {formatConcentration(solute.conc, solute.unit)} {getUnitLabel(solute.unit)}
+                                {formatConcentration(solute.conc, solute.unit, undefined, numberFormat)} {getUnitLabel(solute.unit)}
                             </span>
                         ) : (
                             <>
-                                <input
-                                    type="number"
+                                <NumericInput
                                     value={solute.conc}
                                     disabled={solute.isStock}
-                                    onChange={(e) => updateSolute(solute.id, { conc: e.target.value })}
+                                    onChange={(value) => updateSolute(solute.id, { conc: value })}
                                     className={`w-20 bg-transparent border-transparent p-0 focus:ring-0 text-sm ${solute.isStock ? 'opacity-50 cursor-not-allowed' : ''}`}
                                 />
                                 <select
@@ -230,16 +327,7 @@ function SoluteRow({ solute, isChecklist, onToggleCheck, view = 'table' }: { sol
                                     onChange={(e) => updateSolute(solute.id, { unit: e.target.value })}
                                     className={`bg-transparent border-transparent p-0 focus:ring-0 text-xs text-zinc-400 min-w-[90px] ${solute.isStock ? 'opacity-50 cursor-not-allowed' : ''}`}
                                 >
-                                    <option value="M">M</option>
-                                    <option value="mM">mM</option>
-                                    <option value="μM">μM</option>
-                                    <option value="μg/mL">μg/mL</option>
-                                    <option value="ng/μL">ng/μL</option>
-                                    <option value="mg/mL">mg/mL</option>
-                                    <option value="mg/L">mg/L</option>
-                                    <option value="g/L">g/L</option>
-                                    <option value="pct">% (w/v)</option>
-                                    <option value="dil">Dilution (X)</option>
+                                    <UnitOptions dimensions={[...CONCENTRATION_DIMENSIONS, "dilution"]} />
                                 </select>
                             </>
                         )}
@@ -292,7 +380,23 @@ function SoluteRow({ solute, isChecklist, onToggleCheck, view = 'table' }: { sol
                                 />
                             )}
                         </div>
-                        {solute.formula && <FormulaBadge formula={solute.formula} className="text-[10px] px-2 py-0.5" />}
+                        {solute.formula && (
+                            <div className="flex items-center gap-2">
+                                <FormulaBadge formula={solute.formula} className="text-[10px] px-2 py-0.5" />
+                                <LotSelect
+                                    formula={solute.formula}
+                                    lotId={solute.lotId}
+                                    onChange={(lotId) => updateSolute(solute.id, { lotId })}
+                                    className="bg-transparent border-none p-0 text-[10px] text-zinc-400"
+                                />
+                            </div>
+                        )}
+                        {!isChecklist && !solute.isStock && (
+                            <div className="flex items-center gap-3">
+                                <LiquidFields solute={solute} />
+                                <VantHoffField solute={solute} />
+                            </div>
+                        )}
                     </div>
                 </div>
                 <button
@@ -306,22 +410,20 @@ function SoluteRow({ solute, isChecklist, onToggleCheck, view = 'table' }: { sol
             <div className="grid grid-cols-2 gap-4 pl-8">
                 <div>
                     <label className="block text-[10px] font-bold text-zinc-500 uppercase mb-1">MW</label>
-                    <input
-                        type="number"
+                    <NumericInput
                         value={solute.mw}
                         disabled={solute.isStock}
-                        onChange={(e) => updateSolute(solute.id, { mw: e.target.value })}
+                        onChange={(value) => updateSolute(solute.id, { mw: value })}
                         className="bg-transparent text-sm w-full p-0 border-none"
                     />
                 </div>
                 <div>
                     <label className="block text-[10px] font-bold text-zinc-500 uppercase mb-1">Target</label>
                     <div className="flex items-center gap-1">
-                        <input
-                            type="number"
+                        <NumericInput
                             value={solute.conc}
                             disabled={solute.isStock}
-                            onChange={(e) => updateSolute(solute.id, { conc: e.target.value })}
+                            onChange={(value) => updateSolute(solute.id, { conc: value })}
                             className="bg-transparent text-sm w-12 p-0 border-none"
                         />
                         <select
@@ -330,16 +432,7 @@ function SoluteRow({ solute, isChecklist, onToggleCheck, view = 'table' }: { sol
                             onChange={(e) => updateSolute(solute.id, { unit: e.target.value })}
                             className="bg-transparent text-[10px] text-zinc-400 p-0 border-none"
                         >
-                            <option value="M">M</option>
-                            <option value="mM">mM</option>
-                            <option value="μM">μM</option>
-                            <option value="μg/mL">μg/mL</option>
-                            <option value="ng/μL">ng/μL</option>
-                            <option value="mg/mL">mg/mL</option>
-                            <option value="mg/L">mg/L</option>
-                            <option value="g/L">g/L</option>
-                            <option value="pct">%</option>
-                            <option value="dil">X</option>
+                            <UnitOptions dimensions={[...CONCENTRATION_DIMENSIONS, "dilution"]} short />
                         </select>
                     </div>
                 </div>
@@ -357,27 +450,56 @@ export default function BufferBuilder() {
     const {
         bufferVolume, setBufferVolume,
         bufferUnit, setBufferUnit,
-        solutes, addSolute, clearSolutes, updateSolute,
-        setIsRecipeLibraryOpen, setIsSaveRecipeOpen
+        solutes, addSolute, clearSolutes, updateSolute, activeRecipeName,
+        setIsRecipeLibraryOpen, setIsSaveRecipeOpen, savedRecipes, loadRecipe
     } = useStore();
 
     const [confirmClear, setConfirmClear] = useState(false);
     const [isChecklist, setIsChecklist] = useState(false);
 
+    // "make 1 L 10X PBS" loads the recipe at that strength; "500 mL of 2 mM NaCl" adds a solute
+    const applyPhrase = (phrase: Phrase) => {
+        const name = phrase.chemical && !phrase.concentration ? recipeKey(phrase.chemical) : null;
+        const recipe = name ? [...savedRecipes, ...DEFAULT_RECIPES].find((r) => recipeKey(r.name) === name) : undefined;
+
+        if (recipe) {
+            const strength = phrase.strength ?? concentrateFactor(recipe.name);
+            const scale = strength / concentrateFactor(recipe.name);
+            const scaled: Recipe = scale === 1 ? recipe : {
+                ...recipe,
+                name: `${recipe.name.replace(/\s*\(.*\)/g, "")} (${strength}X)`,
+                solutes: recipe.solutes.map((s) => ({ ...s, conc: String(parseFloat((parseFloat(s.conc) * scale).toPrecision(6))) })),
+            };
+            loadRecipe(scaled);
+        } else if (phrase.concentration) {
+            addSolute({
+                name: phrase.chemical ?? "",
+                conc: phrase.concentration.number,
+                unit: phrase.concentration.unit,
+                ...(phrase.stock && { isStock: true, stockConc: phrase.stock.number, stockUnit: phrase.stock.unit }),
+            });
+        }
+        if (phrase.volume) {
+            setBufferVolume(phrase.volume.number);
+            setBufferUnit(phrase.volume.unit);
+        }
+    };
+
     const toggleCheck = useCallback((id: string) => {
         updateSolute(id, { done: !solutes.find((s: any) => s.id === id)?.done });
     }, [solutes, updateSolute]);
 
     return (
         <div className="space-y-4 sm:space-y-6 pb-10">
+            <QuickEntry placeholder='e.g. "make 1 L 10X PBS" or "500 mL of 2 mM NaCl"' onApply={applyPhrase} />
+
             <div className="flex flex-col sm:flex-row gap-4 items-stretch sm:items-end glass-card !p-4 no-print">
                 <div className="flex-1">
                     <label className="block text-[10px] sm:text-xs font-bold text-zinc-500 uppercase mb-2">Total Solution Volume</label>
                     <div className="flex gap-2">
-                        <input
-                            type="number"
+                        <NumericInput
                             value={bufferVolume}
-                            onChange={(e) => setBufferVolume(e.target.value)}
+                            onChange={(value) => setBufferVolume(value)}
                             className="flex-1 sm:w-32 text-sm"
                         />
                         <select
@@ -385,9 +507,7 @@ export default function BufferBuilder() {
                             onChange={(e) => setBufferUnit(e.target.value)}
                             className="w-20 sm:w-24 text-sm"
                         >
-                            <option>mL</option>
-                            <option>μL</option>
-                            <option>L</option>
+                            <UnitOptions dimensions={["volume"]} />
                         </select>
                     </div>
                 </div>
@@ -482,6 +602,8 @@ export default function BufferBuilder() {
                 </button>
             </div>
 
+            <TonicitySummary solutes={solutes} recipeName={activeRecipeName} />
+
             <div className="flex justify-end gap-3 pt-2">
                 {confirmClear ? (
                     <div className="flex items-center gap-2">
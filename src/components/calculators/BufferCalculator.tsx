@@ -4,7 +4,11 @@ import { useState, useEffect, useMemo } from "react";
 import { useStore } from "@/store/useStore";
 import { FlaskConical, Calculator, Scale, Droplets, Info, Plus, Trash2, Settings2 } from "lucide-react";
 import { formatMass, formatVolume } from "@/lib/parser";
+import { convert, getUnit, toBase } from "@/lib/units";
+import { suggestEquivalents } from "@/lib/normality";
 import { motion, AnimatePresence } from "framer-motion";
+import { UnitOptions } from "../ui/UnitOptions";
+import { NumericInput } from "../ui/NumericInput";
 
 // --- Types ---
 
@@ -24,10 +28,15 @@ type BufferSystem = {
 type StockSolution = {
     id: string;
     name: string;
-    concM: number; // Molarity
+    conc: number;
+    unit: string; // M or N
+    equivalents: number; // H+ or OH- per mole, when given in M
     type: "acid" | "base";
 };
 
+// Titration needs H+/OH- per litre, i.e. the stock's normality
+const stockNormality = (stock: StockSolution) => convert(stock.conc, stock.unit, "N", { equivalents: stock.equivalents });
+
 // --- Data ---
 const BUFFER_SYSTEMS: BufferSystem[] = [
     {
@@ -83,21 +92,23 @@ const BUFFER_SYSTEMS: BufferSystem[] = [
 ];
 
 const DEFAULT_STOCKS: StockSolution[] = [
-    { id: "hcl_1m", name: "HCl 1M", concM: 1, type: "acid" },
-    { id: "hcl_5m", name: "HCl 5M", concM: 5, type: "acid" },
-    { id: "naoh_1m", name: "NaOH 1M", concM: 1, type: "base" },
-    { id: "naoh_10m", name: "NaOH 10M", concM: 10, type: "base" },
+    { id: "hcl_1m", name: "HCl 1M", conc: 1, unit: "M", equivalents: 1, type: "acid" },
+    { id: "hcl_5m", name: "HCl 5M", conc: 5, unit: "M", equivalents: 1, type: "acid" },
+    { id: "naoh_1m", name: "NaOH 1M", conc: 1, unit: "M", equivalents: 1, type: "base" },
+    { id: "naoh_10m", name: "NaOH 10M", conc: 10, unit: "M", equivalents: 1, type: "base" },
 ];
 
 export default function BufferCalculator() {
+    const { groupAbbreviations, numberFormat } = useStore();
+
     // --- State ---
     const [selectedBufferId, setSelectedBufferId] = useState<string>("tris");
     const [method, setMethod] = useState<"salt_mix" | "titration">("titration");
     const [targetPH, setTargetPH] = useState<number>(8.0);
     const [totalVol, setTotalVol] = useState<number>(1); // Liters
     const [totalConc, setTotalConc] = useState<number>(0.1); // Molar (100mM)
-    const [volUnit, setVolUnit] = useState<"L" | "mL">("L");
-    const [concUnit, setConcUnit] = useState<"M" | "mM">("mM");
+    const [volUnit, setVolUnit] = useState("L");
+    const [concUnit, setConcUnit] = useState("mM");
 
     // Stocks Config
     const [stocks, setStocks] = useState<StockSolution[]>(DEFAULT_STOCKS);
@@ -132,8 +143,8 @@ export default function BufferCalculator() {
 
     // Calculation Logic
     const result = useMemo(() => {
-        const volL = volUnit === "mL" ? totalVol / 1000 : totalVol;
-        const concM = concUnit === "mM" ? totalConc / 1000 : totalConc;
+        const volL = toBase(totalVol, volUnit);
+        const concM = toBase(totalConc, concUnit);
 
         // Ratio R = [Base]/[Acid]
         // pH = pKa + log(R) -> log(R) = pH - pKa -> R = 10^(pH - pKa)
@@ -190,7 +201,8 @@ export default function BufferCalculator() {
             if (!startComp) return null;
 
             const startMass = concM * volL * startComp.mw;
-            const adjusterVolL = requiredMolesAdjuster / adjusterComp.concM;
+            if (!(adjusterComp.conc > 0 && adjusterComp.equivalents > 0)) return null;
+            const adjusterVolL = requiredMolesAdjuster / stockNormality(adjusterComp);
 
             return {
                 type: "titration",
@@ -254,11 +266,9 @@ export default function BufferCalculator() {
                         <div className="space-y-2">
                             <label className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Target pH</label>
                             <div className="flex items-center gap-2">
-                                <input
-                                    type="number"
-                                    step="0.1"
+                                <NumericInput
                                     value={targetPH}
-                                    onChange={(e) => setTargetPH(parseFloat(e.target.value))}
+                                    onChange={(value) => setTargetPH(parseFloat(value))}
                                     className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-zinc-200 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
                                 />
                             </div>
@@ -274,19 +284,17 @@ export default function BufferCalculator() {
                         <div className="space-y-2">
                             <label className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Final Concentration</label>
                             <div className="flex gap-2">
-                                <input
-                                    type="number"
+                                <NumericInput
                                     value={totalConc}
-                                    onChange={(e) => setTotalConc(parseFloat(e.target.value))}
+                                    onChange={(value) => setTotalConc(parseFloat(value))}
                                     className="w-32 bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-zinc-200 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
                                 />
                                 <select
                                     value={concUnit}
-                                    onChange={(e) => setConcUnit(e.target.value as any)}
+                                    onChange={(e) => setConcUnit(e.target.value)}
                                     className="w-24 bg-white/5 border border-white/10 rounded-xl px-3 text-zinc-400 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
                                 >
-                                    <option value="mM" className="bg-zinc-900">mM</option>
-                                    <option value="M" className="bg-zinc-900">M</option>
+                                    <UnitOptions dimensions={["amount_concentration"]} className="bg-zinc-900" />
                                 </select>
                             </div>
                         </div>
@@ -295,19 +303,17 @@ export default function BufferCalculator() {
                         <div className="space-y-2">
                             <label className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Total Volume</label>
                             <div className="flex gap-2">
-                                <input
-                                    type="number"
+                                <NumericInput
                                     value={totalVol}
-                                    onChange={(e) => setTotalVol(parseFloat(e.target.value))}
+                                    onChange={(value) => setTotalVol(parseFloat(value))}
                                     className="w-32 bg-white/5 border border-white/10 rounded-xl px-4 py-2.5 text-zinc-200 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
                                 />
                                 <select
                                     value={volUnit}
-                                    onChange={(e) => setVolUnit(e.target.value as any)}
+                                    onChange={(e) => setVolUnit(e.target.value)}
                                     className="w-24 bg-white/5 border border-white/10 rounded-xl px-3 text-zinc-400 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
                                 >
-                                    <option value="L" className="bg-zinc-900">L</option>
-                                    <option value="mL" className="bg-zinc-900">mL</option>
+                                    <UnitOptions dimensions={["volume"]} className="bg-zinc-900" />
                                 </select>
                             </div>
                         </div>
@@ -373,7 +379,7 @@ export default function BufferCalculator() {
                                                 <div key={i} className="flex gap-3">
                                                     <div className="mt-1 h-5 w-5 shrink-0 rounded-full border border-zinc-700 bg-white/5 flex items-center justify-center text-xs text-zinc-500 font-mono">{i + 2}</div>
                                                     <div>
-                                                        <p className="text-sm text-zinc-300">Add <span className="text-white font-bold">{formatMass(comp.mass)}</span> of</p>
+                                                        <p className="text-sm text-zinc-300">Add <span className="text-white font-bold">{formatMass(comp.mass, undefined, numberFormat)}</span> of</p>
                                                         <p className="text-sm font-medium text-emerald-400">{comp.name}</p>
                                                         <p className="text-xs text-zinc-500 font-mono">{comp.formula}</p>
                                                     </div>
@@ -385,7 +391,7 @@ export default function BufferCalculator() {
                                                     <div className="flex gap-3">
                                                         <div className="mt-1 h-5 w-5 shrink-0 rounded-full border border-zinc-700 bg-white/5 flex items-center justify-center text-xs text-zinc-500 font-mono">2</div>
                                                         <div>
-                                                            <p className="text-sm text-zinc-300">Add <span className="text-white font-bold">{formatMass(result.start!.mass)}</span> of</p>
+                                                            <p className="text-sm text-zinc-300">Add <span className="text-white font-bold">{formatMass(result.start!.mass, undefined, numberFormat)}</span> of</p>
                                                             <p className="text-sm font-medium text-emerald-400">{result.start!.name}</p>
                                                             <p className="text-xs text-zinc-500 font-mono">{result.start!.formula}</p>
                                                         </div>
@@ -394,7 +400,7 @@ export default function BufferCalculator() {
                                                         <div className="mt-1 h-5 w-5 shrink-0 rounded-full border border-zinc-700 bg-white/5 flex items-center justify-center text-xs text-zinc-500 font-mono">3</div>
                                                         <div>
                                                             <p className="text-sm text-zinc-300">Adjust pH to <span className="text-white font-bold">{targetPH}</span> using</p>
-                                                            <p className="text-sm font-medium text-indigo-400">~{formatVolume(result.adjuster!.vol)} of {result.adjuster!.concName}</p>
+                                                            <p className="text-sm font-medium text-indigo-400">~{formatVolume(result.adjuster!.vol, undefined, numberFormat)} of {result.adjuster!.concName}</p>
                                                         </div>
                                                     </div>
                                                 </>
@@ -472,23 +478,55 @@ export default function BufferCalculator() {
                                                             newStocks[idx].type = 'base';
                                                         }
 
+                                                        // Equivalents from a leading formula, e.g. "H2SO4 1M"
+                                                        const suggestion = suggestEquivalents(val.split(/\s/)[0], groupAbbreviations);
+                                                        if (suggestion && suggestion.basis !== "redox") {
+                                                            newStocks[idx].equivalents = suggestion.equivalents;
+                                                            newStocks[idx].type = suggestion.basis;
+                                                        }
+
                                                         setStocks(newStocks);
                                                     }}
                                                     className="bg-transparent border-none text-sm font-bold text-white focus:ring-0 w-full"
                                                 />
                                                 <div className="flex items-center gap-2 text-xs text-zinc-500">
                                                     <span>Conc:</span>
-                                                    <input
-                                                        type="number"
-                                                        value={stock.concM}
-                                                        onChange={(e) => {
+                                                    <NumericInput
+                                                        value={stock.conc}
+                                                        onChange={(value) => {
                                                             const newStocks = [...stocks];
-                                                            newStocks[idx].concM = parseFloat(e.target.value);
+                                                            newStocks[idx].conc = parseFloat(value);
                                                             setStocks(newStocks);
                                                         }}
                                                         className="bg-transparent border-b border-zinc-700 w-12 text-center focus:outline-none"
                                                     />
-                                                    <span>M</span>
+                                                    <select
+                                                        value={stock.unit}
+                                                        onChange={(e) => {
+                                                            const newStocks = [...stocks];
+                                                            newStocks[idx].unit = e.target.value;
+                                                            setStocks(newStocks);
+                                                        }}
+                                                        className="bg-transparent border-none text-xs text-zinc-400 focus:ring-0 cursor-pointer p-0"
+                                                    >
+                                                        <UnitOptions dimensions={["amount_concentration", "equivalent_concentration"]} className="bg-zinc-900" />
+                                                    </select>
+                                                    {getUnit(stock.unit)?.dimension === "amount_concentration" && (
+                                                        <>
+                                                            <span>×</span>
+                                                            <NumericInput
+                                                                value={stock.equivalents}
+                                                                onChange={(value) => {
+                                                                    const newStocks = [...stocks];
+                                                                    newStocks[idx].equivalents = parseFloat(value);
+                                                                    setStocks(newStocks);
+                                                                }}
+                                                                title={stock.type === 'acid' ? "Protons per mole" : "Hydroxides per mole"}
+                                                                className="bg-transparent border-b border-zinc-700 w-8 text-center focus:outline-none"
+                                                            />
+                                                            <span>eq/mol</span>
+                                                        </>
+                                                    )}
                                                 </div>
                                             </div>
                                             <button
@@ -503,7 +541,7 @@ export default function BufferCalculator() {
                                 <button
                                     onClick={() => {
                                         const newId = `custom_${Date.now()}`;
-                                        setStocks([...stocks, { id: newId, name: "New Stock", concM: 1, type: "acid" }]);
+                                        setStocks([...stocks, { id: newId, name: "New Stock", conc: 1, unit: "M", equivalents: 1, type: "acid" }]);
                                     }}
                                     className="w-full py-3 bg-white/5 hover:bg-white/10 border border-white/5 rounded-xl text-zinc-400 text-sm font-medium flex items-center justify-center gap-2"
                                 >
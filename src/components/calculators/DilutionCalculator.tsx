@@ -1,9 +1,19 @@
 import { useStore } from "@/store/useStore";
-import { formatMass, formatVolume, formatConcentration, parseFormula, calculateMw, getUnitLabel } from "@/lib/parser";
+import { formatMass, formatVolume, formatConcentration, parseFormula, calculateMw, looksLikeFormula, getUnitLabel } from "@/lib/parser";
+import { DILUTION_DIMENSIONS, convert, isTraceFraction, requiresDensity, getUnit, requiresEquivalents, requiresMw, toBase } from "@/lib/units";
+import { findLiquid } from "@/lib/densities";
+import { inputSigFigs } from "@/lib/sigfigs";
+import { Phrase } from "@/lib/phrase";
+import { ATOMIC_WEIGHT_TABLES } from "@/lib/atomicWeights";
 import { motion, AnimatePresence } from "framer-motion";
 import { Search, Loader2, Info, Plus, Check, ArrowRightLeft } from "lucide-react";
 import { lookupPubChem } from "@/lib/api";
 import { FormulaBadge } from "../ui/FormulaBadge";
+import { UnitOptions } from "../ui/UnitOptions";
+import { QuickEntry } from "../ui/QuickEntry";
+import { EquivalentsInput } from "../ui/EquivalentsInput";
+import { NumericInput } from "../ui/NumericInput";
+import { localizeNumber } from "@/lib/locale";
 import { useState, useEffect } from "react";
 
 // Simple debounce hook
@@ -16,11 +26,51 @@ function useDebounce<T>(value: T, delay: number): T {
     return debouncedValue;
 }
 
+/** Density of a % w/w stock (37% HCl, 28% NH3), and the molarity it works out to. */
+function StockDensity() {
+    const { dilution, setDilution, liquids, groupAbbreviations, numberFormat } = useStore();
+    const density = parseFloat(dilution.density);
+    const match = findLiquid(dilution.name, liquids, groupAbbreviations);
+
+    let molarity: number | null = null;
+    if (density > 0 && dilution.mw > 0 && parseFloat(dilution.c1) > 0) {
+        molarity = convert(parseFloat(dilution.c1), dilution.u1, "M", { mw: dilution.mw, density });
+    }
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-2">
+                <NumericInput
+                    placeholder="Density"
+                    className="flex-1 text-sm"
+                    value={dilution.density ?? ""}
+                    onChange={(value) => setDilution({ density: value })}
+                />
+                <span className="w-24 sm:w-32 text-xs text-zinc-500 font-mono">g/mL</span>
+            </div>
+            {match && String(match.density) !== dilution.density && (
+                <button
+                    type="button"
+                    onClick={() => setDilution({ density: String(match.density), c1: String(match.assay), u1: "pct_ww" })}
+                    className="text-xs text-zinc-500 hover:text-indigo-400 transition-colors"
+                >
+                    Use {match.name}: {match.assay}% w/w, {match.density} g/mL
+                </button>
+            )}
+            {molarity !== null && (
+                <p className="text-xs text-zinc-500">
+                    Stock is <span className="font-mono text-indigo-400">{formatConcentration(molarity, "M", inputSigFigs(dilution.c1, dilution.density), numberFormat)} M</span>
+                </p>
+            )}
+        </div>
+    );
+}
+
 export default function DilutionCalculator() {
     const {
         dilution, setDilution,
         bufferVolume, bufferUnit, solutes, addSolute, updateSolute,
-        setBufferVolume, setBufferUnit
+        setBufferVolume, setBufferUnit, groupAbbreviations, atomicWeightTable, numberFormat
     } = useStore();
     const [isSearching, setIsSearching] = useState(false);
     const [showVolumeWarning, setShowVolumeWarning] = useState(false);
@@ -37,6 +87,8 @@ export default function DilutionCalculator() {
         addedSolute.unit !== dilution.u2 ||
         addedSolute.stockConc !== dilution.c1 ||
         addedSolute.stockUnit !== dilution.u1 ||
+        (addedSolute.density ?? "") !== (dilution.density ?? "") ||
+        (addedSolute.equivalents ?? "") !== (dilution.equivalents ?? "") ||
         addedSolute.name !== dilution.name
     ) : false;
 
@@ -58,7 +110,9 @@ export default function DilutionCalculator() {
                 unit: dilution.u2,
                 isStock: true,
                 stockConc: dilution.c1,
-                stockUnit: dilution.u1
+                stockUnit: dilution.u1,
+                density: dilution.density,
+                equivalents: dilution.equivalents
             });
             // Persist the link
             setDilution({ linkedSoluteId: newId });
@@ -69,7 +123,9 @@ export default function DilutionCalculator() {
                 conc: dilution.c2,
                 unit: dilution.u2,
                 stockConc: dilution.c1,
-                stockUnit: dilution.u1
+                stockUnit: dilution.u1,
+                density: dilution.density,
+                equivalents: dilution.equivalents
             });
         }
     };
@@ -79,15 +135,15 @@ export default function DilutionCalculator() {
     useEffect(() => {
         const triggerLookup = async () => {
             const query = debouncedName.trim();
-            if (!query) return;
+            if (!query || query === dilution.resolvedName) return;
 
             setIsSearching(true);
             try {
                 // 1. Try local parse
-                if (/^[A-Za-z0-9()\[\]·*•.]+$/.test(query) && /[A-Z]/.test(query)) {
+                if (looksLikeFormula(query)) {
                     try {
-                        const composition = parseFormula(query);
-                        const mw = calculateMw(composition);
+                        const composition = parseFormula(query, groupAbbreviations);
+                        const mw = calculateMw(composition, ATOMIC_WEIGHT_TABLES[atomicWeightTable]);
                         setDilution({ mw });
                         setIsSearching(false);
                         return;
@@ -110,12 +166,7 @@ export default function DilutionCalculator() {
         };
 
         triggerLookup();
-    }, [debouncedName, setDilution]);
-
-    // Helper: isMolar checks if unit is M, mM, or μM
-    const isMolar = (u: string) => ['M', 'mM', 'μM'].includes(u);
-    // Helper: isMass checks if unit is μg/mL, mg/mL, mg/L, g/L, pct, ng/μL
-    const isMass = (u: string) => ['μg/mL', 'mg/mL', 'mg/L', 'g/L', 'pct', 'ng/μL'].includes(u);
+    }, [debouncedName, dilution.resolvedName, setDilution, groupAbbreviations, atomicWeightTable]);
 
     // Advanced calculation logic (matching prototype C1V1 = C2V2)
     const calculateDilution = () => {
@@ -129,48 +180,41 @@ export default function DilutionCalculator() {
 
         if (isNaN(c1) || isNaN(c2) || isNaN(v2) || c1 <= 0) return null;
 
-        // Domain check: Need MW if crossing Mass <-> Molar
-        const domain1 = isMolar(u1) ? 'molar' : (isMass(u1) ? 'mass' : null);
-        const domain2 = isMolar(u2) ? 'molar' : (isMass(u2) ? 'mass' : null);
-
-        if (domain1 !== domain2 && (!mw || mw <= 0)) {
+        // Need MW if crossing Mass <-> Molar
+        if (requiresMw(u1, u2) && (!mw || mw <= 0)) {
             return { error: "Molecular Weight required for Mass <-> Molar conversion." };
         }
 
-        // 1. Convert to base units
-        // Molar -> M. Mass -> g/L.
-        let c1Base = c1;
-        if (u1 === 'mM') c1Base = c1 / 1000;
-        else if (u1 === 'μM') c1Base = c1 / 1e6;
-        else if (u1 === 'μg/mL' || u1 === 'ng/μL') c1Base = c1 / 1000;
-        else if (u1 === 'mg/L') c1Base = c1 / 1000;
-        else if (u1 === 'pct') c1Base = c1 * 10;
-
-        let c2Base = c2;
-        if (u2 === 'mM') c2Base = c2 / 1000;
-        else if (u2 === 'μM') c2Base = c2 / 1e6;
-        else if (u2 === 'μg/mL' || u2 === 'ng/μL') c2Base = c2 / 1000;
-        else if (u2 === 'mg/L') c2Base = c2 / 1000;
-        else if (u2 === 'pct') c2Base = c2 * 10;
-
-        // 2. Cross Domains? (Normalize to domain 2)
-        if (domain2 === 'molar' && domain1 === 'mass') {
-            c1Base = c1Base / mw; // g/L -> M
-        } else if (domain2 === 'mass' && domain1 === 'molar') {
-            c1Base = c1Base * mw; // M -> g/L
+        // A % w/w stock's molarity depends on its density (37% HCl is 12.1 M, not 10.1 M)
+        if (requiresDensity(u1, u2) && !(parseFloat(dilution.density) > 0)) {
+            return {
+                error: getUnit(u1)?.dimension === "mass_fraction"
+                    ? "Density required: enter the density of the % w/w stock."
+                    : "Density required: a % w/w target depends on its solution's density, so give it in another unit."
+            };
         }
 
-        // 3. V2 to Liters
-        let v2L = v2;
-        if (uv2 === 'mL') v2L = v2 / 1000;
-        if (uv2 === 'μL') v2L = v2 / 1e6;
+        // Stock in the target's units, so C1V1 = C2V2 applies directly
+        let c1InTarget: number;
+        try {
+            c1InTarget = convert(c1, u1, u2, {
+                mw,
+                density: parseFloat(dilution.density) || undefined,
+                diluteAqueous: isTraceFraction(u1) || isTraceFraction(u2),
+                equivalents: parseFloat(dilution.equivalents) || undefined
+            });
+        } catch (err) {
+            return { error: (err as Error).message };
+        }
 
-        const v1L = (c2Base * v2L) / c1Base;
+        const v2L = toBase(v2, uv2);
+        const v1L = (c2 * v2L) / c1InTarget;
 
         if (!isFinite(v1L) || v1L <= 0) return null;
         if (v1L > v2L) return { error: "Impossible: Stock concentration is lower than target." };
 
-        return { v1: v1L, solvent: v2L - v1L };
+        // Precision of what was typed: C1, C2 and V2
+        return { v1: v1L, solvent: v2L - v1L, sigFigs: inputSigFigs(dilution.c1, dilution.c2, dilution.v2) };
     };
 
     const handleExternalLookup = () => {
@@ -183,10 +227,22 @@ export default function DilutionCalculator() {
         window.open(url, "_blank");
     };
 
+    // "dilute 5 M stock to 150 mM in 50 mL"; a single concentration is the target
+    const applyPhrase = (phrase: Phrase) => {
+        setDilution({
+            ...(phrase.chemical && { name: phrase.chemical }),
+            ...(phrase.stock && { c1: phrase.stock.number, u1: phrase.stock.unit }),
+            ...(phrase.concentration && { c2: phrase.concentration.number, u2: phrase.concentration.unit }),
+            ...(phrase.volume && { v2: phrase.volume.number, vu2: phrase.volume.unit }),
+        });
+    };
+
     const results = calculateDilution();
 
     return (
         <div className="max-w-4xl mx-auto space-y-4 sm:space-y-8 pb-10">
+            <QuickEntry placeholder='e.g. "dilute 5 M NaCl stock to 150 mM in 50 mL"' onApply={applyPhrase} />
+
             {/* Chemical Info Header */}
             <section className="glass-card flex flex-col sm:flex-row items-start sm:items-center gap-4 sm:gap-6 !py-4">
                 <div className="w-full sm:flex-1">
@@ -219,12 +275,11 @@ export default function DilutionCalculator() {
                 <div className="w-full sm:w-40">
                     <label className="block text-[10px] sm:text-xs font-bold text-zinc-500 uppercase mb-2">Molecular Weight</label>
                     <div className="flex items-center gap-2">
-                        <input
-                            type="number"
+                        <NumericInput
                             placeholder="Mw"
                             className="w-full text-sm"
                             value={dilution.mw || ""}
-                            onChange={(e) => setDilution({ mw: parseFloat(e.target.value) || 0 })}
+                            onChange={(value) => setDilution({ mw: parseFloat(value) || 0 })}
                         />
                         <span className="text-zinc-500 text-[10px] sm:text-xs font-mono shrink-0">g/mol</span>
                     </div>
@@ -237,29 +292,28 @@ export default function DilutionCalculator() {
                     <h3 className="text-base sm:text-lg font-semibold mb-4 text-indigo-400">Stock Solution (C1)</h3>
                     <div className="space-y-4">
                         <div className="flex gap-2">
-                            <input
-                                type="number"
+                            <NumericInput
                                 placeholder="Conc"
                                 className="flex-1 text-sm"
                                 value={dilution.c1}
-                                onChange={(e) => setDilution({ c1: e.target.value })}
+                                onChange={(value) => setDilution({ c1: value })}
                             />
                             <select
                                 className="w-24 sm:w-32 text-xs sm:text-sm"
                                 value={dilution.u1}
                                 onChange={(e) => setDilution({ u1: e.target.value })}
                             >
-                                <option value="M">M</option>
-                                <option value="mM">mM</option>
-                                <option value="μM">μM</option>
-                                <option value="μg/mL">μg/mL</option>
-                                <option value="ng/μL">ng/μL</option>
-                                <option value="mg/mL">mg/mL</option>
-                                <option value="mg/L">mg/L</option>
-                                <option value="g/L">g/L</option>
-                                <option value="pct">% (w/v)</option>
+                                <UnitOptions dimensions={DILUTION_DIMENSIONS} />
                             </select>
                         </div>
+                        {getUnit(dilution.u1)?.dimension === "mass_fraction" && <StockDensity />}
+                        {requiresEquivalents(dilution.u1, dilution.u2) && (
+                            <EquivalentsInput
+                                formula={dilution.name}
+                                value={dilution.equivalents ?? ""}
+                                onChange={(equivalents) => setDilution({ equivalents })}
+                            />
+                        )}
                     </div>
                 </section>
 
@@ -268,45 +322,33 @@ export default function DilutionCalculator() {
                     <h3 className="text-base sm:text-lg font-semibold mb-4 text-emerald-400">Target Solution (C2, V2)</h3>
                     <div className="space-y-4">
                         <div className="flex gap-2">
-                            <input
-                                type="number"
+                            <NumericInput
                                 placeholder="Target Conc (C2)"
                                 className="flex-1 text-sm"
                                 value={dilution.c2}
-                                onChange={(e) => setDilution({ c2: e.target.value })}
+                                onChange={(value) => setDilution({ c2: value })}
                             />
                             <select
                                 className="w-24 sm:w-32 text-xs sm:text-sm"
                                 value={dilution.u2}
                                 onChange={(e) => setDilution({ u2: e.target.value })}
                             >
-                                <option value="M">M</option>
-                                <option value="mM">mM</option>
-                                <option value="μM">μM</option>
-                                <option value="μg/mL">μg/mL</option>
-                                <option value="ng/μL">ng/μL</option>
-                                <option value="mg/mL">mg/mL</option>
-                                <option value="mg/L">mg/L</option>
-                                <option value="g/L">g/L</option>
-                                <option value="pct">% (w/v)</option>
+                                <UnitOptions dimensions={DILUTION_DIMENSIONS} />
                             </select>
                         </div>
                         <div className="flex gap-2">
-                            <input
-                                type="number"
+                            <NumericInput
                                 placeholder="Final Vol (V2)"
                                 className="flex-1 text-sm"
                                 value={dilution.v2}
-                                onChange={(e) => setDilution({ v2: e.target.value })}
+                                onChange={(value) => setDilution({ v2: value })}
                             />
                             <select
                                 className="w-20 sm:w-24 text-xs sm:text-sm"
                                 value={dilution.vu2}
                                 onChange={(e) => setDilution({ vu2: e.target.value })}
                             >
-                                <option>mL</option>
-                                <option>μL</option>
-                                <option>L</option>
+                                <UnitOptions dimensions={["volume"]} />
                             </select>
                         </div>
                     </div>
@@ -325,7 +367,7 @@ export default function DilutionCalculator() {
                         {showVolumeWarning ? (
                             <div className="flex flex-col gap-3 p-4 bg-amber-500/10 border border-amber-500/20 rounded-xl w-full sm:max-w-sm">
                                 <p className="text-[10px] sm:text-xs text-amber-200 leading-relaxed">
-                                    The volume of the buffer recipe ({bufferVolume} {getUnitLabel(bufferUnit)}) is different from this dilution ({dilution.v2} {getUnitLabel(dilution.vu2)}). Update the buffer volume to match?
+                                    The volume of the buffer recipe ({localizeNumber(bufferVolume, numberFormat.locale)} {getUnitLabel(bufferUnit)}) is different from this dilution ({localizeNumber(dilution.v2, numberFormat.locale)} {getUnitLabel(dilution.vu2)}). Update the buffer volume to match?
                                 </p>
                                 <div className="flex gap-2">
                                     <button
@@ -408,18 +450,18 @@ export default function DilutionCalculator() {
                             <div className="p-6 sm:p-8 text-center">
                                 <p className="text-zinc-500 text-[10px] sm:text-sm uppercase tracking-widest font-bold mb-2">Volume of Stock (V1)</p>
                                 <p className="text-3xl sm:text-4xl font-black text-indigo-400 font-mono">
-                                    {formatVolume(results.v1)}
+                                    {formatVolume(results.v1, results.sigFigs, numberFormat)}
                                 </p>
                             </div>
                             <div className="p-6 sm:p-8 text-center">
                                 <p className="text-zinc-500 text-[10px] sm:text-sm uppercase tracking-widest font-bold mb-2">Volume of Solvent</p>
                                 <p className="text-3xl sm:text-4xl font-black text-emerald-400 font-mono">
-                                    {formatVolume(results.solvent)}
+                                    {formatVolume(results.solvent, results.sigFigs, numberFormat)}
                                 </p>
                             </div>
                         </div>
                         <div className="bg-white/5 px-4 sm:px-6 py-4 text-center text-[10px] sm:text-sm text-zinc-400 italic">
-                            Instructions: Take {formatVolume(results.v1)} of stock (at {formatConcentration(dilution.c1, dilution.u1)} {getUnitLabel(dilution.u1)}) and add solvent until reaching {dilution.v2} {getUnitLabel(dilution.vu2)} final volume.
+                            Instructions: Take {formatVolume(results.v1, results.sigFigs, numberFormat)} of stock (at {formatConcentration(dilution.c1, dilution.u1, undefined, numberFormat)} {getUnitLabel(dilution.u1)}) and add solvent until reaching {localizeNumber(dilution.v2, numberFormat.locale)} {getUnitLabel(dilution.vu2)} final volume.
                         </div>
                     </motion.section>
                 ))}
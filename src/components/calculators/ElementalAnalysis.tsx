@@ -0,0 +1,162 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Percent, Info, ChevronRight } from "lucide-react";
+import { useStore } from "@/store/useStore";
+import { formulasFromPercentages, FormulaCandidate } from "@/lib/elemental";
+import { FormulaBadge } from "../ui/FormulaBadge";
+import { NumericInput } from "../ui/NumericInput";
+
+const MEASURED_ELEMENTS = ["C", "H", "N", "S"] as const;
+
+export default function ElementalAnalysis() {
+    const { setMwInput, setActiveTab } = useStore();
+
+    const [percents, setPercents] = useState<Record<string, string>>({ C: "", H: "", N: "", S: "" });
+    const [maxCounts, setMaxCounts] = useState<Record<string, string>>({ C: "", H: "", N: "", S: "" });
+    const [remainder, setRemainder] = useState<string>("O");
+    const [minMw, setMinMw] = useState("");
+    const [maxMw, setMaxMw] = useState("600");
+    const [checkUnsaturation, setCheckUnsaturation] = useState(true);
+
+    const result = useMemo((): { candidates: FormulaCandidate[] } | { error: string } | null => {
+        const measured: Record<string, number> = {};
+        for (const el of MEASURED_ELEMENTS) {
+            const pct = parseFloat(percents[el]);
+            if (!isNaN(pct)) measured[el] = pct;
+        }
+        if (Object.values(measured).every((pct) => pct <= 0)) return null;
+
+        const limits: Record<string, number> = {};
+        for (const el of MEASURED_ELEMENTS) {
+            const max = parseInt(maxCounts[el]);
+            if (!isNaN(max)) limits[el] = max;
+        }
+
+        try {
+            return {
+                candidates: formulasFromPercentages(measured, {
+                    remainder: remainder || null,
+                    minMw: parseFloat(minMw) || 0,
+                    maxMw: parseFloat(maxMw) || 1000,
+                    maxCounts: limits,
+                    checkUnsaturation
+                })
+            };
+        } catch (err) {
+            return { error: (err as Error).message };
+        }
+    }, [percents, maxCounts, remainder, minMw, maxMw, checkUnsaturation]);
+
+    const openCandidate = (candidate: FormulaCandidate) => {
+        setMwInput(candidate.formula);
+        setActiveTab("mw");
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-4 sm:space-y-6 pb-10">
+            <section className="glass-card space-y-6">
+                <div className="flex items-center gap-3 border-b border-white/5 pb-4">
+                    <div className="p-2 bg-indigo-500/10 rounded-lg text-indigo-400">
+                        <Percent className="h-5 w-5" />
+                    </div>
+                    <h2 className="text-lg font-bold text-zinc-100">Combustion Analysis</h2>
+                </div>
+
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                    {MEASURED_ELEMENTS.map((el) => (
+                        <div key={el} className="space-y-2">
+                            <label className="block text-[10px] sm:text-xs font-bold text-zinc-500 uppercase">{el} (%)</label>
+                            <NumericInput
+                                placeholder="0.00"
+                                className="w-full text-sm"
+                                value={percents[el]}
+                                onChange={(value) => setPercents({ ...percents, [el]: value })}
+                            />
+                            <NumericInput
+                                placeholder={`Max ${el} atoms`}
+                                className="w-full text-xs"
+                                value={maxCounts[el]}
+                                onChange={(value) => setMaxCounts({ ...maxCounts, [el]: value })}
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                        <label className="block text-[10px] sm:text-xs font-bold text-zinc-500 uppercase">Remainder As</label>
+                        <select value={remainder} onChange={(e) => setRemainder(e.target.value)} className="w-full text-sm">
+                            <option value="O">Oxygen (by difference)</option>
+                            <option value="">Ignore remainder</option>
+                        </select>
+                    </div>
+                    <div className="space-y-2">
+                        <label className="block text-[10px] sm:text-xs font-bold text-zinc-500 uppercase">MW Range (g/mol)</label>
+                        <div className="flex items-center gap-2">
+                            <NumericInput placeholder="Min" className="w-full text-sm" value={minMw} onChange={(value) => setMinMw(value)} />
+                            <span className="text-zinc-600">–</span>
+                            <NumericInput placeholder="Max" className="w-full text-sm" value={maxMw} onChange={(value) => setMaxMw(value)} />
+                        </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-zinc-400 sm:pt-6 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={checkUnsaturation}
+                            onChange={(e) => setCheckUnsaturation(e.target.checked)}
+                        />
+                        Require valid ring/double-bond count
+                    </label>
+                </div>
+            </section>
+
+            {result && ("error" in result ? (
+                <div className="glass-card border-red-500/20 bg-red-500/[0.02] flex items-center gap-3 text-red-400 text-sm">
+                    <Info className="h-5 w-5 shrink-0" />
+                    {result.error}
+                </div>
+            ) : (
+                <section className="glass-card !p-0 overflow-hidden">
+                    <table className="w-full text-left text-sm">
+                        <thead>
+                            <tr className="bg-white/5 text-zinc-400 text-[10px] font-bold uppercase tracking-wider">
+                                <th className="px-4 sm:px-6 py-3">Molecular</th>
+                                <th className="px-4 sm:px-6 py-3 hidden sm:table-cell">Empirical</th>
+                                <th className="px-4 sm:px-6 py-3 text-right">MW</th>
+                                <th className="px-4 sm:px-6 py-3 text-right">Max Error</th>
+                                <th className="px-4 sm:px-6 py-3 w-10"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                            {result.candidates.map((c) => (
+                                <tr key={c.formula} className="group hover:bg-white/[0.02] transition-colors">
+                                    <td className="px-4 sm:px-6 py-3"><FormulaBadge formula={c.formula} /></td>
+                                    <td className="px-4 sm:px-6 py-3 hidden sm:table-cell"><FormulaBadge formula={c.empiricalFormula} /></td>
+                                    <td className="px-4 sm:px-6 py-3 text-right font-mono text-zinc-300">{c.mw.toFixed(2)}</td>
+                                    <td className={`px-4 sm:px-6 py-3 text-right font-mono ${c.error <= 0.4 ? "text-emerald-400" : "text-amber-400"}`}>
+                                        ±{c.error.toFixed(2)}
+                                    </td>
+                                    <td className="px-4 sm:px-6 py-3">
+                                        <button
+                                            onClick={() => openCandidate(c)}
+                                            title="Open in MW calculator"
+                                            className="text-zinc-600 hover:text-indigo-400 transition-colors"
+                                        >
+                                            <ChevronRight className="h-4 w-4" />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {result.candidates.length === 0 && (
+                        <p className="py-10 text-center text-zinc-500 italic text-sm">No formulas match these constraints.</p>
+                    )}
+                    <div className="bg-white/5 px-4 sm:px-6 py-3 text-[10px] sm:text-xs text-zinc-500 italic">
+                        Errors are the largest deviation from the measured values, in percentage points. Journals usually accept ±0.4.
+                    </div>
+                </section>
+            ))}
+        </div>
+    );
+}
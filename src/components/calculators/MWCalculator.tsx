@@ -1,56 +1,302 @@
 "use client";
 
-import { useState } from "react";
-import { Search, Loader2, AlertCircle } from "lucide-react";
+import { useCallback, useMemo, useState } from "react";
+import { Search, Loader2, AlertCircle, Scale, Pipette, FlaskConical } from "lucide-react";
 import { useStore } from "@/store/useStore";
-import { parseFormula, calculateMw } from "@/lib/parser";
+import { ChemicalData, Composition, FormulaParseError, parseFormula, calculateMasses, looksLikeFormula, splitCharge, formatCharge, toHillFormula } from "@/lib/parser";
 import { lookupPubChem } from "@/lib/api";
+import { parsePeptide } from "@/lib/peptide";
+import { parseOligo } from "@/lib/nucleic";
+import { parsePolymer } from "@/lib/polymer";
+import { parseSmiles, looksLikeSmiles } from "@/lib/smiles";
+import { evaluateExpression, looksLikeExpression, NameResolver } from "@/lib/expression";
 import { FormulaBadge } from "../ui/FormulaBadge";
+import { IsotopeSpectrum } from "../ui/IsotopeSpectrum";
+import { CompositionTable } from "../ui/CompositionTable";
+import { OligoPanel } from "../ui/OligoPanel";
+import { BatchLotPanel } from "../ui/BatchLots";
+import { ATOMIC_WEIGHT_TABLES } from "@/lib/atomicWeights";
+import { NumericInput } from "../ui/NumericInput";
+
+const MAX_ISOTOPE_PATTERN_MW = 50000;
+
+const MODES = [
+    { id: "formula", label: "Formula / Name", placeholder: "Enter formula, SMILES or name..." },
+    { id: "peptide", label: "Peptide", placeholder: "e.g. Ac-CYIQNCPLG-NH2 or Ala-Gly-pSer" },
+    { id: "nucleic", label: "DNA / RNA", placeholder: "e.g. 5'-/5Phos/AGAGTTTGATCCTGGCTCAG-3'" },
+    { id: "polymer", label: "Polymer", placeholder: "e.g. PEG-3350 or H(OCH2CH2)nOH" },
+] as const;
+
+type LocalSource = "formula" | "smiles" | "expression";
+type LocalParse = { composition: Composition; source: LocalSource } | { error: Error; source: LocalSource };
+
+/**
+ * Parses input as formula arithmetic, SMILES or a formula, in that order.
+ * Failures return the error: expressions report theirs straight away,
+ * formula errors are shown if a name lookup finds nothing either. Null for
+ * anything else.
+ */
+function parseLocally(input: string, groups: Record<string, string>, resolve: NameResolver): LocalParse | null {
+    if (looksLikeExpression(input)) {
+        try {
+            return { composition: evaluateExpression(input, resolve, groups), source: "expression" };
+        } catch (e) {
+            return { error: e as Error, source: "expression" };
+        }
+    }
+    if (looksLikeSmiles(input)) {
+        try {
+            return { composition: parseSmiles(input), source: "smiles" };
+        } catch {
+            // Not valid SMILES after all; it may still parse as a formula below
+        }
+    }
+    if (looksLikeFormula(input)) {
+        try {
+            return { composition: parseFormula(input, groups), source: "formula" };
+        } catch (e) {
+            if (e instanceof FormulaParseError) return { error: e, source: "formula" };
+        }
+    }
+    return null;
+}
+
+/** The failing input with the offending span marked, plus buttons for suggested fixes. */
+function ParseErrorDetail({ input, error, onFix }: { input: string; error: FormulaParseError; onFix: (fix: string) => void }) {
+    const start = Math.min(error.offset, input.length);
+    const end = Math.min(start + error.length, input.length);
+    return (
+        <div className="space-y-2 pl-6">
+            <div className="font-mono text-zinc-300 whitespace-pre">
+                {input.slice(0, start)}
+                <span className="bg-red-500/30 text-red-300 rounded-sm underline decoration-wavy decoration-red-400">
+                    {input.slice(start, end) || " "}
+                </span>
+                {input.slice(end)}
+            </div>
+            {error.suggestions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-500">
+                    <span>Did you mean</span>
+                    {error.suggestions.map((fix) => (
+                        <button
+                            key={fix}
+                            type="button"
+                            onClick={() => onFix(fix)}
+                            className="font-mono px-2 py-0.5 rounded-md bg-white/5 border border-white/10 text-zinc-200 hover:border-indigo-500/50 hover:text-indigo-300 transition-all"
+                        >
+                            {fix}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// Long sequences are shortened in result names and history
+const abbreviate = (sequence: string) => (sequence.length > 24 ? `${sequence.slice(0, 24)}…` : sequence);
 
 export default function MWCalculator() {
-    const { mwInput, setMwInput, mwResult, setMwResult, addToHistory } = useStore();
+    const {
+        mwMode, setMwMode, mwInput, setMwInput, mwResult, setMwResult, history, addToHistory, groupAbbreviations, atomicWeightTable,
+        setMolarityState, setDilution, addSolute, setActiveTab
+    } = useStore();
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [parseError, setParseError] = useState<{ input: string; error: FormulaParseError } | null>(null);
+    const [disulfides, setDisulfides] = useState(String(mwResult?.disulfides ?? 0));
+    // Polymer chain length, as a target Mn or a degree of polymerization, and Đ = Mw/Mn
+    const [polymerBasis, setPolymerBasis] = useState<"mn" | "dp">("mn");
+    const [polymerSize, setPolymerSize] = useState("");
+    const [dispersity, setDispersity] = useState(String(mwResult?.polymer?.dispersity ?? 1));
+    const weights = ATOMIC_WEIGHT_TABLES[atomicWeightTable];
+
+    // Named terms in formula arithmetic refer to earlier results, by name, formula or sequence
+    const resolveName = useCallback<NameResolver>((name) => {
+        const key = name.trim().toLowerCase();
+        const match = history.find((h) =>
+            [h.name, h.formula, h.sequence, h.smiles].some((label) => label?.toLowerCase() === key)
+        );
+        return match ? match.composition : null;
+    }, [history]);
+
+    // Live Hill-notation preview, so abbreviations like Ph or Boc can be checked as they're typed
+    const preview = useMemo(() => {
+        const input = mwInput.trim();
+        if (mwMode !== "formula") return null;
+        const parsed = parseLocally(input, groupAbbreviations, resolveName);
+        if (!parsed || "error" in parsed) return null;
+        const hill = toHillFormula(parsed.composition);
+        return hill === input ? null : { body: splitCharge(hill).body, charge: parsed.composition.charge || 0 };
+    }, [mwInput, mwMode, groupAbbreviations, resolveName]);
+
+    const handleSequence = () => {
+        setParseError(null);
+        try {
+            let result: ChemicalData;
+            if (mwMode === "peptide") {
+                const peptide = parsePeptide(mwInput, { disulfides: parseInt(disulfides) || 0 });
+                const masses = calculateMasses(peptide.composition, weights);
+                result = {
+                    mw: masses.average,
+                    mwUncertainty: masses.averageUncertainty,
+                    atomicWeights: weights.id,
+                    formula: peptide.formula,
+                    name: `${abbreviate(peptide.sequence)} (${peptide.length} aa)`,
+                    composition: peptide.composition,
+                    monoisotopicMass: masses.monoisotopic,
+                    nominalMass: masses.nominal,
+                    sequence: peptide.sequence,
+                    sequenceType: "peptide",
+                    disulfides: parseInt(disulfides) || 0,
+                    pI: peptide.pI,
+                    extinctionCoefficient: peptide.extinctionCoefficient,
+                };
+            } else if (mwMode === "polymer") {
+                const size = parseFloat(polymerSize);
+                const polymer = parsePolymer(
+                    mwInput,
+                    {
+                        [polymerBasis]: size > 0 ? size : undefined,
+                        dispersity: parseFloat(dispersity) || 1,
+                    },
+                    groupAbbreviations,
+                    weights
+                );
+                const masses = calculateMasses(polymer.composition, weights);
+                result = {
+                    mw: polymer.mn,
+                    mwUncertainty: masses.averageUncertainty,
+                    atomicWeights: weights.id,
+                    formula: polymer.formula,
+                    name: size > 0 ? `${polymer.notation} (${polymerBasis === "dp" ? "DP" : "Mn"} ${size})` : polymer.notation,
+                    composition: polymer.composition,
+                    polymer: {
+                        notation: polymer.notation,
+                        repeatUnit: polymer.repeatUnit,
+                        dp: polymer.dp,
+                        mn: polymer.mn,
+                        mw: polymer.mw,
+                        dispersity: polymer.dispersity,
+                    },
+                };
+            } else {
+                const oligo = parseOligo(mwInput);
+                const masses = calculateMasses(oligo.composition, weights);
+                result = {
+                    mw: masses.average,
+                    mwUncertainty: masses.averageUncertainty,
+                    atomicWeights: weights.id,
+                    formula: oligo.formula,
+                    name: `${abbreviate(oligo.sequence)} (${oligo.length} nt ${oligo.type})`,
+                    composition: oligo.composition,
+                    monoisotopicMass: masses.monoisotopic,
+                    nominalMass: masses.nominal,
+                    sequence: oligo.sequence,
+                    sequenceType: "nucleic",
+                    gcContent: oligo.gcContent,
+                    extinctionCoefficient: oligo.extinctionCoefficient,
+                };
+            }
+            result.input = { mode: mwMode, text: mwInput.trim() };
+            setMwResult(result);
+            addToHistory(result);
+            setError(null);
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    // Hands the current result over to another calculator, like picking it from PubChem there
+    const sendTo = (tab: "molarity" | "dilution" | "buffer_recipe") => {
+        if (!mwResult) return;
+        const name = mwResult.name || mwResult.formula;
+        if (tab === "molarity") {
+            setMolarityState({ mw: mwResult.mw, compound: mwResult.formula, lotId: mwResult.lotId ?? null });
+        } else if (tab === "dilution") {
+            setDilution({ name, mw: mwResult.mw, resolvedName: name });
+        } else {
+            addSolute({ name, mw: mwResult.mw.toFixed(2), formula: mwResult.formula, resolvedName: name, lotId: mwResult.lotId ?? null });
+        }
+        setActiveTab(tab);
+    };
 
-    const handleCalculate = async (e?: React.FormEvent) => {
+    const handleCalculate = (e?: React.FormEvent) => {
         e?.preventDefault();
         if (!mwInput.trim()) return;
 
+        if (mwMode !== "formula") {
+            handleSequence();
+            return;
+        }
+        calculateFormula(mwInput);
+    };
+
+    // One-click fixes replace the input and recalculate straight away
+    const applyFix = (fix: string) => {
+        setMwInput(fix);
+        calculateFormula(fix);
+    };
+
+    const calculateFormula = async (rawInput: string) => {
         setLoading(true);
         setError(null);
+        setParseError(null);
 
         try {
-            // 1. Try local parse first
-            if (/^[A-Za-z0-9()\[\]·*•.]+$/.test(mwInput) && /[A-Z]/.test(mwInput)) {
-                try {
-                    const comp = parseFormula(mwInput);
-                    const mw = calculateMw(comp);
-                    const result = {
-                        mw,
-                        formula: mwInput,
-                        composition: comp,
-                    };
-                    setMwResult(result as any);
-                    addToHistory(result as any);
-                    setLoading(false);
-                    return;
-                } catch (e) { }
+            // 1. Try local parse first (expression, SMILES, then formula)
+            const input = rawInput.trim();
+            const parsed = parseLocally(input, groupAbbreviations, resolveName);
+            if (parsed && "error" in parsed && parsed.source === "expression") {
+                setError(parsed.error.message);
+                if (parsed.error instanceof FormulaParseError) setParseError({ input, error: parsed.error });
+                setLoading(false);
+                return;
+            }
+            if (parsed && "composition" in parsed) {
+                const comp = parsed.composition;
+                const masses = calculateMasses(comp, weights);
+                const result = {
+                    mw: masses.average,
+                    mwUncertainty: masses.averageUncertainty,
+                    atomicWeights: weights.id,
+                    formula: parsed.source === "formula" ? rawInput : toHillFormula(comp),
+                    name: parsed.source === "expression" ? input : undefined,
+                    smiles: parsed.source === "smiles" ? input : undefined,
+                    composition: comp,
+                    monoisotopicMass: masses.monoisotopic,
+                    nominalMass: masses.nominal,
+                    input: { mode: mwMode, text: input },
+                };
+                setMwResult(result as any);
+                addToHistory(result as any);
+                setLoading(false);
+                return;
             }
 
             // 2. Try PubChem
-            const res = await lookupPubChem(mwInput);
+            const res = await lookupPubChem(rawInput);
             if (res) {
-                const comp = parseFormula(res.formula!);
-                // Create a clean, serializable object
+                const comp = parseFormula(res.formula!, {});
+                const masses = calculateMasses(comp, weights);
+                // Create a clean, serializable object. MW is computed locally so it matches the selected atomic weights
                 const result = {
-                    mw: Number(res.mw),
+                    mw: masses.average,
+                    mwUncertainty: masses.averageUncertainty,
+                    atomicWeights: weights.id,
                     formula: String(res.formula),
                     name: res.name ? String(res.name) : undefined,
                     cid: res.cid ? Number(res.cid) : undefined,
-                    composition: comp
+                    composition: comp,
+                    monoisotopicMass: masses.monoisotopic,
+                    nominalMass: masses.nominal,
+                    input: { mode: mwMode, text: input },
                 };
                 setMwResult(result as any);
                 addToHistory(result as any);
+            } else if (parsed && parsed.error instanceof FormulaParseError) {
+                setError(parsed.error.message);
+                setParseError({ input, error: parsed.error });
             } else {
                 setError("Could not find chemical or parse formula.");
             }
@@ -65,6 +311,18 @@ export default function MWCalculator() {
         <div className="space-y-4 sm:space-y-6">
             <section className="glass-card !p-4 sm:!p-6">
                 <form onSubmit={handleCalculate} className="space-y-4">
+                    <div className="flex bg-white/5 p-1 rounded-xl border border-white/10 w-full sm:w-96">
+                        {MODES.map((mode) => (
+                            <button
+                                key={mode.id}
+                                type="button"
+                                onClick={() => setMwMode(mode.id)}
+                                className={`flex-1 py-1.5 rounded-lg text-sm font-medium transition-all ${mwMode === mode.id ? "bg-indigo-500 text-white shadow-lg shadow-indigo-500/20" : "text-zinc-500 hover:text-zinc-300"}`}
+                            >
+                                {mode.label}
+                            </button>
+                        ))}
+                    </div>
                     <div className="flex flex-col sm:flex-row gap-3">
                         <div className="flex gap-2 flex-1">
                             <button
@@ -84,11 +342,49 @@ export default function MWCalculator() {
                                     type="text"
                                     value={mwInput}
                                     onChange={(e) => setMwInput(e.target.value)}
-                                    placeholder="Enter formula or name..."
+                                    placeholder={MODES.find((m) => m.id === mwMode)?.placeholder}
                                     className="w-full bg-white/5 border border-white/10 focus:border-indigo-500/50 rounded-lg px-3 py-2 transition-all outline-none text-sm sm:text-base"
                                 />
                             </div>
                         </div>
+                        {mwMode === "polymer" && (
+                            <div className="flex items-center gap-2 shrink-0">
+                                <select
+                                    title="Chain length given as"
+                                    value={polymerBasis}
+                                    onChange={(e) => setPolymerBasis(e.target.value as "mn" | "dp")}
+                                    className="text-sm"
+                                >
+                                    <option value="mn">Mn</option>
+                                    <option value="dp">DP</option>
+                                </select>
+                                <NumericInput
+                                    title={polymerBasis === "dp" ? "Degree of polymerization" : "Target Mn (g/mol)"}
+                                    placeholder={polymerBasis === "dp" ? "n" : "g/mol"}
+                                    value={polymerSize}
+                                    onChange={(value) => setPolymerSize(value)}
+                                    className="w-24 text-sm"
+                                />
+                                <label className="text-[10px] font-bold uppercase text-zinc-500">Đ</label>
+                                <NumericInput
+                                    title="Dispersity (Mw/Mn)"
+                                    value={dispersity}
+                                    onChange={(value) => setDispersity(value)}
+                                    className="w-16 text-sm"
+                                />
+                            </div>
+                        )}
+                        {mwMode === "peptide" && (
+                            <div className="flex items-center gap-2 shrink-0">
+                                <label className="text-[10px] font-bold uppercase text-zinc-500">S–S</label>
+                                <NumericInput
+                                    title="Disulfide bonds"
+                                    value={disulfides}
+                                    onChange={(value) => setDisulfides(value)}
+                                    className="w-16 text-sm"
+                                />
+                            </div>
+                        )}
                         <button
                             type="submit"
                             disabled={loading}
@@ -97,10 +393,20 @@ export default function MWCalculator() {
                             {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Calculate"}
                         </button>
                     </div>
+                    {preview && (
+                        <div className="flex items-center gap-2 text-xs text-zinc-500">
+                            <span>Interpreted as</span>
+                            <FormulaBadge formula={preview.body} className="text-xs px-2 py-0" />
+                            {!!preview.charge && <span className="font-mono text-amber-400">{formatCharge(preview.charge)}</span>}
+                        </div>
+                    )}
                     {error && (
-                        <div className="flex items-center gap-2 text-sm text-red-400 bg-red-400/10 border border-red-400/20 p-3 rounded-lg">
-                            <AlertCircle className="h-4 w-4" />
-                            {error}
+                        <div className="space-y-2 text-sm text-red-400 bg-red-400/10 border border-red-400/20 p-3 rounded-lg">
+                            <div className="flex items-center gap-2">
+                                <AlertCircle className="h-4 w-4" />
+                                {error}
+                            </div>
+                            {parseError && <ParseErrorDetail {...parseError} onFix={applyFix} />}
                         </div>
                     )}
                 </form>
@@ -115,18 +421,142 @@ export default function MWCalculator() {
                             {mwResult.mw.toFixed(2)}
                             <span className="ml-2 text-lg sm:text-xl font-normal text-zinc-500">g/mol</span>
                         </div>
-                        <div className="mt-4">
-                            <FormulaBadge formula={mwResult.formula} className="text-sm sm:text-base px-3 sm:px-4 py-1" />
+                        {mwResult.atomicWeights && (
+                            <p className="mt-1 text-xs text-zinc-500">
+                                {mwResult.mwUncertainty !== undefined && (
+                                    <span className="font-mono text-zinc-400">± {Number(mwResult.mwUncertainty.toPrecision(2))} g/mol · </span>
+                                )}
+                                {ATOMIC_WEIGHT_TABLES[mwResult.atomicWeights]?.name ?? mwResult.atomicWeights} atomic weights
+                            </p>
+                        )}
+                        <div className="mt-4 flex items-center gap-2">
+                            <FormulaBadge formula={splitCharge(mwResult.formula).body} className="text-sm sm:text-base px-3 sm:px-4 py-1" />
+                            {!!mwResult.composition.charge && (
+                                <span
+                                    title="Net charge"
+                                    className="px-2 py-0.5 rounded-full text-xs sm:text-sm font-mono font-bold bg-amber-500/10 text-amber-400 border border-amber-500/20"
+                                >
+                                    {formatCharge(mwResult.composition.charge)}
+                                </span>
+                            )}
                         </div>
+                        {toHillFormula(mwResult.composition) !== mwResult.formula && (
+                            <p className="mt-2 text-xs text-zinc-500">
+                                Hill formula <span className="font-mono text-zinc-300">{toHillFormula(mwResult.composition)}</span>
+                            </p>
+                        )}
                         {mwResult.name && (
                             <p className="mt-4 text-base sm:text-lg font-medium text-zinc-300 px-4">{mwResult.name}</p>
                         )}
+                        {mwResult.monoisotopicMass !== undefined && (
+                            <div className="mt-6 grid grid-cols-3 gap-4 sm:gap-8 text-center">
+                                <div>
+                                    <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Average</p>
+                                    <p className="font-mono text-sm text-zinc-300">{mwResult.mw.toFixed(4)}</p>
+                                </div>
+                                <div>
+                                    <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Monoisotopic</p>
+                                    <p className="font-mono text-sm text-zinc-300">{mwResult.monoisotopicMass.toFixed(4)}</p>
+                                </div>
+                                <div>
+                                    <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Nominal</p>
+                                    <p className="font-mono text-sm text-zinc-300">{mwResult.nominalMass}</p>
+                                </div>
+                            </div>
+                        )}
+                        {mwResult.pI !== undefined && mwResult.extinctionCoefficient !== undefined && (
+                            <div className="mt-4 grid grid-cols-3 gap-4 sm:gap-8 text-center">
+                                <div>
+                                    <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">pI</p>
+                                    <p className="font-mono text-sm text-zinc-300">{mwResult.pI.toFixed(2)}</p>
+                                </div>
+                                <div>
+                                    <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">ε280 (M⁻¹cm⁻¹)</p>
+                                    <p className="font-mono text-sm text-zinc-300">{mwResult.extinctionCoefficient}</p>
+                                </div>
+                                <div>
+                                    <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">A280 (1 mg/mL)</p>
+                                    <p className="font-mono text-sm text-zinc-300">{(mwResult.extinctionCoefficient / mwResult.mw).toFixed(3)}</p>
+                                </div>
+                            </div>
+                        )}
+                        {mwResult.polymer && (
+                            <div className="mt-4 grid grid-cols-4 gap-4 sm:gap-8 text-center">
+                                <div>
+                                    <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Mn</p>
+                                    <p className="font-mono text-sm text-zinc-300">{mwResult.polymer.mn.toFixed(1)}</p>
+                                </div>
+                                <div>
+                                    <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Mw</p>
+                                    <p className="font-mono text-sm text-zinc-300">{mwResult.polymer.mw.toFixed(1)}</p>
+                                </div>
+                                <div>
+                                    <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Đ</p>
+                                    <p className="font-mono text-sm text-zinc-300">{mwResult.polymer.dispersity.toFixed(2)}</p>
+                                </div>
+                                <div>
+                                    <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">DP</p>
+                                    <p className="font-mono text-sm text-zinc-300">{mwResult.polymer.dp}</p>
+                                </div>
+                            </div>
+                        )}
+                        {mwResult.polymer && (
+                            <p className="mt-3 text-xs text-zinc-500">
+                                Repeat unit <span className="font-mono text-zinc-300">{mwResult.polymer.repeatUnit}</span> · molar amounts use Mn
+                            </p>
+                        )}
+                        {mwResult.gcContent !== undefined && mwResult.extinctionCoefficient !== undefined && (
+                            <div className="mt-4 grid grid-cols-3 gap-4 sm:gap-8 text-center">
+                                <div>
+                                    <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">GC</p>
+                                    <p className="font-mono text-sm text-zinc-300">{mwResult.gcContent.toFixed(1)}%</p>
+                                </div>
+                                <div>
+                                    <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">ε260 (M⁻¹cm⁻¹)</p>
+                                    <p className="font-mono text-sm text-zinc-300">{mwResult.extinctionCoefficient}</p>
+                                </div>
+                                <div>
+                                    <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">μg / OD260</p>
+                                    <p className="font-mono text-sm text-zinc-300">{(mwResult.mw / mwResult.extinctionCoefficient * 1e3).toFixed(1)}</p>
+                                </div>
+                            </div>
+                        )}
+                        {!!mwResult.composition.charge && mwResult.monoisotopicMass !== undefined && (
+                            <p className="mt-3 text-xs font-mono text-zinc-500">
+                                m/z {(mwResult.monoisotopicMass / Math.abs(mwResult.composition.charge)).toFixed(4)}
+                            </p>
+                        )}
+                        <div className="mt-6 flex gap-2">
+                            <button
+                                type="button"
+                                onClick={() => sendTo("molarity")}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-xs text-zinc-400 hover:text-indigo-400 hover:border-indigo-500/30 transition-all"
+                            >
+                                <Scale className="h-3.5 w-3.5" /> Use in Molarity
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => sendTo("dilution")}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-xs text-zinc-400 hover:text-indigo-400 hover:border-indigo-500/30 transition-all"
+                            >
+                                <Pipette className="h-3.5 w-3.5" /> Use in Dilution
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => sendTo("buffer_recipe")}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-xs text-zinc-400 hover:text-indigo-400 hover:border-indigo-500/30 transition-all"
+                            >
+                                <FlaskConical className="h-3.5 w-3.5" /> Add to Recipe
+                            </button>
+                        </div>
                     </section>
 
                     {/* Visualization or Details */}
                     <section className="glass-card overflow-hidden">
                         <div className="flex h-full min-h-[200px] items-center justify-center p-4">
-                            {mwResult.cid ? (
+                            {mwResult.sequence || mwResult.smiles ? (
+                                <p className="font-mono text-xs sm:text-sm text-zinc-300 break-all leading-relaxed">{mwResult.sequence || mwResult.smiles}</p>
+                            ) : mwResult.cid ? (
                                 <img
                                     src={`https://pubchem.ncbi.nlm.nih.gov/rest/pug/compound/cid/${mwResult.cid}/PNG`}
                                     alt={mwResult.name || mwResult.formula}
@@ -139,6 +569,22 @@ export default function MWCalculator() {
                             )}
                         </div>
                     </section>
+
+                    {mwResult.sequenceType === "nucleic" && mwResult.sequence && (
+                        <OligoPanel sequence={mwResult.sequence} />
+                    )}
+                    <CompositionTable composition={mwResult.composition} />
+                    <BatchLotPanel
+                        formula={mwResult.formula}
+                        parentMw={mwResult.mw}
+                        lotId={mwResult.lotId}
+                        onSelect={(lotId) => setMwResult({ ...mwResult, lotId: lotId ?? undefined })}
+                    />
+                    {/* Fine-structure simulation gets slow for large proteins */}
+                    {/* A disperse polymer is a distribution of chains, not one isotope pattern */}
+                    {mwResult.mw <= MAX_ISOTOPE_PATTERN_MW && !(mwResult.polymer && mwResult.polymer.dispersity > 1) && (
+                        <IsotopeSpectrum composition={mwResult.composition} formula={mwResult.formula} />
+                    )}
                 </div>
             )}
         </div>
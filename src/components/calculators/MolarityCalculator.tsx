@@ -4,19 +4,31 @@ import { useState, useEffect } from "react";
 import { useStore } from "@/store/useStore";
 import { Search, Loader2, Scale, Beaker, Pipette, Atom, Calculator, ArrowRightLeft, Lock } from "lucide-react";
 import { lookupPubChem } from "@/lib/api";
-import { parseFormula, calculateMw } from "@/lib/parser";
+import { parseFormula, calculateMw, looksLikeFormula } from "@/lib/parser";
+import { ATOMIC_WEIGHT_TABLES } from "@/lib/atomicWeights";
+import { toBase, fromBase, convert, getUnit, Dimension } from "@/lib/units";
 import { FormulaBadge } from "../ui/FormulaBadge";
+import { UnitOptions } from "../ui/UnitOptions";
+import { LotSelect, useBatchMw } from "../ui/BatchLots";
+import { EquivalentsInput } from "../ui/EquivalentsInput";
+import { QuickEntry } from "../ui/QuickEntry";
+import { inputSigFigs, toSigFigs } from "@/lib/sigfigs";
+import { Phrase } from "@/lib/phrase";
+import { NumericInput } from "../ui/NumericInput";
+
+// Concentrations this calculator solves for; a mg/mL in a quick entry is left unused
+const MOLAR_DIMENSIONS: Dimension[] = ["amount_concentration", "equivalent_concentration"];
 
 export default function MolarityCalculator() {
-    const { molarityState, setMolarityState } = useStore();
+    const { molarityState, setMolarityState, groupAbbreviations, atomicWeightTable } = useStore();
     const [searchTerm, setSearchTerm] = useState("");
     const [searching, setSearching] = useState(false);
     const [lookupResult, setLookupResult] = useState<{ name?: string, formula?: string, cid?: number } | null>(null);
 
     // --- Lookup Logic ---
-    const handleLookup = async (e?: React.FormEvent) => {
+    const handleLookup = async (e?: React.FormEvent, term?: string) => {
         e?.preventDefault();
-        const query = searchTerm.trim();
+        const query = (term ?? searchTerm).trim();
         if (!query) return;
 
         setSearching(true);
@@ -24,11 +36,11 @@ export default function MolarityCalculator() {
 
         try {
             // 1. Try local parse
-            if (/^[A-Za-z0-9()\[\]·*•.]+$/.test(query) && /[A-Z]/.test(query)) {
+            if (looksLikeFormula(query)) {
                 try {
-                    const comp = parseFormula(query);
-                    const mw = calculateMw(comp);
-                    setMolarityState({ mw });
+                    const comp = parseFormula(query, groupAbbreviations);
+                    const mw = calculateMw(comp, ATOMIC_WEIGHT_TABLES[atomicWeightTable]);
+                    setMolarityState({ mw, compound: query, lotId: null });
                     setLookupResult({ formula: query });
                     setSearching(false);
                     return;
@@ -38,7 +50,7 @@ export default function MolarityCalculator() {
             // 2. PubChem
             const res = await lookupPubChem(query);
             if (res) {
-                setMolarityState({ mw: res.mw });
+                setMolarityState({ mw: res.mw, compound: res.formula || null, lotId: null });
                 setLookupResult({
                     name: res.name,
                     formula: res.formula,
@@ -52,54 +64,31 @@ export default function MolarityCalculator() {
         }
     };
 
+    // A selected lot means weighing against its batch MW
+    const { batch } = useBatchMw(molarityState.compound, molarityState.lotId, molarityState.mw);
+
     // --- Calculation Logic ---
     useEffect(() => {
-        const { mw, mass, volume, concentration, massUnit, volUnit, concUnit, target } = molarityState;
+        const { mw, mass, volume, concentration, massUnit, volUnit, concUnit, target, equivalents } = molarityState;
 
         const m = parseFloat(mass);
         const v = parseFloat(volume);
         const c = parseFloat(concentration);
-        const w = mw;
-
-        // Helper to convert TO base units (g, L, M)
-        const toBase = (val: number, unit: string) => {
-            if (unit === 'mg') return val / 1e3;
-            if (unit === 'μg') return val / 1e6;
-            if (unit === 'ng') return val / 1e9;
-            if (unit === 'kg') return val * 1e3;
+        const w = batch ? batch.mw : mw;
 
-            if (unit === 'mL') return val / 1e3;
-            if (unit === 'μL') return val / 1e6;
-            if (unit === 'nL') return val / 1e9;
-
-            if (unit === 'mM') return val / 1e3;
-            if (unit === 'μM') return val / 1e6;
-            if (unit === 'nM') return val / 1e9;
-
-            return val; // g, L, M
-        };
+        // Normality needs the equivalents per mole before anything can be solved
+        const eq = parseFloat(equivalents);
+        if (getUnit(concUnit)?.dimension === "equivalent_concentration" && !(eq > 0)) return;
+        const toMolar = (value: number) => convert(value, concUnit, "M", { equivalents: eq });
 
-        // Helper to convert FROM base units
-        const fromBase = (val: number, unit: string) => {
-            if (unit === 'mg') return val * 1e3;
-            if (unit === 'μg') return val * 1e6;
-            if (unit === 'ng') return val * 1e9;
-            if (unit === 'kg') return val / 1e3;
-
-            if (unit === 'mL') return val * 1e3;
-            if (unit === 'μL') return val * 1e6;
-            if (unit === 'nL') return val * 1e9;
-
-            if (unit === 'mM') return val * 1e3;
-            if (unit === 'μM') return val * 1e6;
-            if (unit === 'nM') return val * 1e9;
-
-            return val;
-        };
+        // The solved field gets the significant figures of the typed ones
+        const typed = { mass, volume, concentration } as Record<string, string>;
+        const sigFigs = inputSigFigs(...Object.keys(typed).filter((k) => k !== target).map((k) => typed[k]));
 
         // Format to avoid super long decimals, but keep precision
         const fmt = (n: number) => {
             if (!isFinite(n) || isNaN(n)) return "";
+            if (sigFigs && n > 0) return toSigFigs(n, sigFigs);
             if (Math.abs(n) < 1e-6) return n.toExponential(4);
             return parseFloat(n.toPrecision(6)).toString();
         };
@@ -109,7 +98,7 @@ export default function MolarityCalculator() {
         if (target === 'mass') {
             if (w > 0 && v > 0 && c > 0) {
                 const volL = toBase(v, volUnit);
-                const concM = toBase(c, concUnit);
+                const concM = toMolar(c);
                 const massG = concM * volL * w;
                 const finalMass = fromBase(massG, massUnit);
                 // Avoid infinite loop if value hasn't effectively changed
@@ -121,7 +110,7 @@ export default function MolarityCalculator() {
         else if (target === 'volume') {
             if (w > 0 && m > 0 && c > 0) {
                 const massG = toBase(m, massUnit);
-                const concM = toBase(c, concUnit);
+                const concM = toMolar(c);
                 const volL = massG / (concM * w);
                 const finalVol = fromBase(volL, volUnit);
                 if (parseFloat(volume) !== parseFloat(fmt(finalVol))) {
@@ -134,7 +123,7 @@ export default function MolarityCalculator() {
                 const massG = toBase(m, massUnit);
                 const volL = toBase(v, volUnit);
                 const concM = massG / (volL * w);
-                const finalConc = fromBase(concM, concUnit);
+                const finalConc = convert(concM, "M", concUnit, { equivalents: eq });
                 if (parseFloat(concentration) !== parseFloat(fmt(finalConc))) {
                     setMolarityState({ concentration: fmt(finalConc) });
                 }
@@ -144,15 +133,18 @@ export default function MolarityCalculator() {
             if (m > 0 && v > 0 && c > 0) {
                 const massG = toBase(m, massUnit);
                 const volL = toBase(v, volUnit);
-                const concM = toBase(c, concUnit);
-                const calcMw = massG / (concM * volL);
+                const concM = toMolar(c);
+                // With a lot selected this is the batch MW; store the compound's own MW
+                const calcMw = batch
+                    ? (massG / (concM * volL)) * batch.content - (batch.saltMw - mw)
+                    : massG / (concM * volL);
                 if (calcMw !== mw) {
                     setMolarityState({ mw: parseFloat(fmt(calcMw)) });
                 }
             }
         }
 
-    }, [molarityState.mass, molarityState.volume, molarityState.concentration, molarityState.mw, molarityState.target, molarityState.massUnit, molarityState.volUnit, molarityState.concUnit]); // Be careful with dependency array to avoid loops
+    }, [molarityState.mass, molarityState.volume, molarityState.concentration, molarityState.mw, molarityState.target, molarityState.massUnit, molarityState.volUnit, molarityState.concUnit, molarityState.equivalents, batch]); // Be careful with dependency array to avoid loops
 
     // Input Handlers
     const update = (field: string, val: string) => {
@@ -163,6 +155,23 @@ export default function MolarityCalculator() {
         setMolarityState({ [field]: val });
     };
 
+    // "5.844 g NaCl in 100 mL": fill what was given, solve for the one left out
+    const applyPhrase = (phrase: Phrase) => {
+        const update: Partial<typeof molarityState> = {
+            ...(phrase.concentration && { concentration: phrase.concentration!.number, concUnit: phrase.concentration!.unit }),
+            ...(phrase.volume && { volume: phrase.volume.number, volUnit: phrase.volume.unit }),
+            ...(phrase.mass && { mass: phrase.mass.number, massUnit: phrase.mass.unit }),
+        };
+        const missing = (["mass", "concentration", "volume"] as const).filter((k) => !(k in update));
+        if (missing.length === 1) update.target = missing[0];
+        setMolarityState(update);
+
+        if (phrase.chemical) {
+            setSearchTerm(phrase.chemical);
+            handleLookup(undefined, phrase.chemical);
+        }
+    };
+
     return (
         <div className="max-w-2xl mx-auto space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
             {/* Header */}
@@ -175,6 +184,8 @@ export default function MolarityCalculator() {
 
             {/* Quick Lookup */}
             <div className="space-y-4">
+                <QuickEntry placeholder='e.g. "500 mL of 2 mM NaCl" or "5.844 g NaCl in 100 mL"' onApply={applyPhrase} concentrations={MOLAR_DIMENSIONS} />
+
                 <div className="glass-card p-4 flex items-center gap-3">
                     <button
                         onClick={() => {
@@ -230,15 +241,25 @@ export default function MolarityCalculator() {
                     <div className="flex-1">
                         <label className="text-xs font-bold text-zinc-500 uppercase">Molecular Weight</label>
                         <div className="flex items-center gap-2">
-                            <input
-                                type="number"
+                            <NumericInput
                                 value={molarityState.mw || ""}
-                                onChange={(e) => update('mw', e.target.value)}
+                                onChange={(value) => update('mw', value)}
                                 placeholder="0.00"
                                 className="w-full bg-transparent border-none text-lg font-mono focus:ring-0 p-0 text-white"
                             />
                             <span className="text-sm text-zinc-500">g/mol</span>
+                            <LotSelect
+                                formula={molarityState.compound}
+                                lotId={molarityState.lotId}
+                                onChange={(lotId) => setMolarityState({ lotId })}
+                                className="bg-transparent border-none text-sm text-zinc-500 focus:ring-0 cursor-pointer hover:text-zinc-300"
+                            />
                         </div>
+                        {batch && (
+                            <p className="text-xs text-zinc-500">
+                                Weighing against batch MW <span className="font-mono text-indigo-400">{batch.mw.toFixed(2)} g/mol</span>
+                            </p>
+                        )}
                     </div>
                 </div>
 
@@ -250,10 +271,9 @@ export default function MolarityCalculator() {
                     <div className="flex-1">
                         <label className="text-xs font-bold text-zinc-500 uppercase">Mass</label>
                         <div className="flex items-center gap-2">
-                            <input
-                                type="number"
+                            <NumericInput
                                 value={molarityState.mass}
-                                onChange={(e) => update('mass', e.target.value)}
+                                onChange={(value) => update('mass', value)}
                                 disabled={molarityState.target === 'mass'}
                                 placeholder="0.00"
                                 className={`w-full bg-transparent border-none text-lg font-mono focus:ring-0 p-0 ${molarityState.target === 'mass' ? 'text-emerald-400 font-bold' : 'text-white'}`}
@@ -263,11 +283,7 @@ export default function MolarityCalculator() {
                                 onChange={(e) => setMolarityState({ massUnit: e.target.value })}
                                 className="bg-transparent border-none text-sm text-zinc-500 focus:ring-0 cursor-pointer hover:text-zinc-300"
                             >
-                                <option value="g" className="bg-zinc-900">g</option>
-                                <option value="mg" className="bg-zinc-900">mg</option>
-                                <option value="μg" className="bg-zinc-900">μg</option>
-                                <option value="ng" className="bg-zinc-900">ng</option>
-                                <option value="kg" className="bg-zinc-900">kg</option>
+                                <UnitOptions dimensions={["mass"]} className="bg-zinc-900" />
                             </select>
                         </div>
                     </div>
@@ -293,10 +309,9 @@ export default function MolarityCalculator() {
                     <div className="flex-1">
                         <label className="text-xs font-bold text-zinc-500 uppercase">Concentration</label>
                         <div className="flex items-center gap-2">
-                            <input
-                                type="number"
+                            <NumericInput
                                 value={molarityState.concentration}
-                                onChange={(e) => update('concentration', e.target.value)}
+                                onChange={(value) => update('concentration', value)}
                                 disabled={molarityState.target === 'concentration'}
                                 placeholder="0.00"
                                 className={`w-full bg-transparent border-none text-lg font-mono focus:ring-0 p-0 ${molarityState.target === 'concentration' ? 'text-emerald-400 font-bold' : 'text-white'}`}
@@ -306,12 +321,17 @@ export default function MolarityCalculator() {
                                 onChange={(e) => setMolarityState({ concUnit: e.target.value })}
                                 className="bg-transparent border-none text-sm text-zinc-500 focus:ring-0 cursor-pointer hover:text-zinc-300"
                             >
-                                <option value="M" className="bg-zinc-900">M</option>
-                                <option value="mM" className="bg-zinc-900">mM</option>
-                                <option value="μM" className="bg-zinc-900">μM</option>
-                                <option value="nM" className="bg-zinc-900">nM</option>
+                                <UnitOptions dimensions={MOLAR_DIMENSIONS} className="bg-zinc-900" />
                             </select>
                         </div>
+                        {getUnit(molarityState.concUnit)?.dimension === "equivalent_concentration" && (
+                            <EquivalentsInput
+                                formula={molarityState.compound}
+                                value={molarityState.equivalents ?? ""}
+                                onChange={(equivalents) => setMolarityState({ equivalents })}
+                                className="mt-2"
+                            />
+                        )}
                     </div>
                     <button
                         onClick={() => setMolarityState({ target: 'concentration' })}
@@ -330,10 +350,9 @@ export default function MolarityCalculator() {
                     <div className="flex-1">
                         <label className="text-xs font-bold text-zinc-500 uppercase">Volume</label>
                         <div className="flex items-center gap-2">
-                            <input
-                                type="number"
+                            <NumericInput
                                 value={molarityState.volume}
-                                onChange={(e) => update('volume', e.target.value)}
+                                onChange={(value) => update('volume', value)}
                                 disabled={molarityState.target === 'volume'}
                                 placeholder="0.00"
                                 className={`w-full bg-transparent border-none text-lg font-mono focus:ring-0 p-0 ${molarityState.target === 'volume' ? 'text-emerald-400 font-bold' : 'text-white'}`}
@@ -343,10 +362,7 @@ export default function MolarityCalculator() {
                                 onChange={(e) => setMolarityState({ volUnit: e.target.value })}
                                 className="bg-transparent border-none text-sm text-zinc-500 focus:ring-0 cursor-pointer hover:text-zinc-300"
                             >
-                                <option value="L" className="bg-zinc-900">L</option>
-                                <option value="mL" className="bg-zinc-900">mL</option>
-                                <option value="μL" className="bg-zinc-900">μL</option>
-                                <option value="nL" className="bg-zinc-900">nL</option>
+                                <UnitOptions dimensions={["volume"]} className="bg-zinc-900" />
                             </select>
                         </div>
                     </div>
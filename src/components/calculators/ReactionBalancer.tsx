@@ -0,0 +1,167 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { ArrowRightLeft, Info } from "lucide-react";
+import { useStore } from "@/store/useStore";
+import { balanceEquation, BalancedReaction, ReactionSpecies } from "@/lib/reaction";
+import { ATOMIC_WEIGHT_TABLES } from "@/lib/atomicWeights";
+import { splitCharge, formatCharge } from "@/lib/parser";
+import { FormulaBadge } from "../ui/FormulaBadge";
+
+const EXAMPLES = ["Fe + O2 -> Fe2O3", "KMnO4 + HCl = KCl + MnCl2 + H2O + Cl2", "MnO4- + H+ + e- -> Mn2+ + H2O"];
+
+function SpeciesLabel({ species }: { species: ReactionSpecies }) {
+    const charge = species.composition.charge || 0;
+    // Electrons have no atoms to draw
+    if (Object.keys(species.composition).length === 1 && charge) {
+        return <span className="font-mono text-sm text-indigo-400">{species.formula}</span>;
+    }
+    return (
+        <span className="inline-flex items-center gap-1">
+            <FormulaBadge formula={splitCharge(species.formula).body} />
+            {!!charge && <sup className="font-mono text-amber-400">{formatCharge(charge)}</sup>}
+        </span>
+    );
+}
+
+export default function ReactionBalancer() {
+    const { groupAbbreviations, atomicWeightTable, setMwInput, setActiveTab } = useStore();
+    const [equation, setEquation] = useState("");
+    const [reference, setReference] = useState(0);
+
+    const result = useMemo((): BalancedReaction | { error: string } | null => {
+        if (!equation.trim()) return null;
+        try {
+            return balanceEquation(equation, groupAbbreviations, ATOMIC_WEIGHT_TABLES[atomicWeightTable]);
+        } catch (err) {
+            return { error: (err as Error).message };
+        }
+    }, [equation, groupAbbreviations, atomicWeightTable]);
+
+    const openSpecies = (species: ReactionSpecies) => {
+        setMwInput(species.formula);
+        setActiveTab("mw");
+    };
+
+    const balanced = result && !("error" in result) ? result : null;
+    const ref = balanced?.species[Math.min(reference, balanced.species.length - 1)];
+    const sideMass = (side: ReactionSpecies["side"]) => balanced?.species
+        .filter((s) => s.side === side)
+        .reduce((sum, s) => sum + s.coefficient * s.mw, 0) ?? 0;
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-4 sm:space-y-6 pb-10">
+            <section className="glass-card space-y-6">
+                <div className="flex items-center gap-3 border-b border-white/5 pb-4">
+                    <div className="p-2 bg-indigo-500/10 rounded-lg text-indigo-400">
+                        <ArrowRightLeft className="h-5 w-5" />
+                    </div>
+                    <h2 className="text-lg font-bold text-zinc-100">Equation Balancer</h2>
+                </div>
+
+                <div className="space-y-2">
+                    <label className="block text-[10px] sm:text-xs font-bold text-zinc-500 uppercase">Equation</label>
+                    <input
+                        type="text"
+                        placeholder="e.g. Fe + O2 -> Fe2O3"
+                        className="w-full text-sm font-mono"
+                        value={equation}
+                        onChange={(e) => {
+                            setEquation(e.target.value);
+                            setReference(0);
+                        }}
+                    />
+                    <div className="flex flex-wrap gap-2 text-xs text-zinc-500">
+                        <span>Try</span>
+                        {EXAMPLES.map((example) => (
+                            <button
+                                key={example}
+                                type="button"
+                                onClick={() => setEquation(example)}
+                                className="font-mono text-zinc-400 hover:text-indigo-400 transition-colors"
+                            >
+                                {example}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {balanced && (
+                    <div className="flex flex-wrap items-center gap-2 p-4 rounded-xl bg-white/[0.02] border border-white/5">
+                        {balanced.species.map((s, i) => (
+                            <React.Fragment key={i}>
+                                {i > 0 && (
+                                    <span className="text-zinc-500 px-1">
+                                        {s.side === "product" && balanced.species[i - 1].side === "reactant" ? "→" : "+"}
+                                    </span>
+                                )}
+                                {s.coefficient > 1 && <span className="font-mono font-bold text-white">{s.coefficient}</span>}
+                                <SpeciesLabel species={s} />
+                            </React.Fragment>
+                        ))}
+                    </div>
+                )}
+            </section>
+
+            {result && "error" in result && (
+                <div className="glass-card border-red-500/20 bg-red-500/[0.02] flex items-center gap-3 text-red-400 text-sm">
+                    <Info className="h-5 w-5 shrink-0" />
+                    {result.error}
+                </div>
+            )}
+
+            {balanced && ref && (
+                <section className="glass-card !p-0 overflow-hidden">
+                    <table className="w-full text-left text-sm">
+                        <thead>
+                            <tr className="bg-white/5 text-zinc-400 text-[10px] font-bold uppercase tracking-wider">
+                                <th className="px-4 sm:px-6 py-3">Species</th>
+                                <th className="px-4 sm:px-6 py-3 text-right">Coeff.</th>
+                                <th className="px-4 sm:px-6 py-3 text-right hidden sm:table-cell">MW</th>
+                                <th className="px-4 sm:px-6 py-3 text-right hidden sm:table-cell">Mass (g)</th>
+                                <th className="px-4 sm:px-6 py-3 text-right">mol / mol</th>
+                                <th className="px-4 sm:px-6 py-3 text-right">g / g</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                            {balanced.species.map((s, i) => (
+                                <tr
+                                    key={i}
+                                    onClick={() => setReference(i)}
+                                    className={`cursor-pointer transition-colors ${s === ref ? "bg-indigo-500/[0.06]" : "hover:bg-white/[0.02]"}`}
+                                >
+                                    <td className="px-4 sm:px-6 py-3">
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-[10px] uppercase text-zinc-600 w-4">{s.side === "reactant" ? "R" : "P"}</span>
+                                            <button
+                                                type="button"
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    openSpecies(s);
+                                                }}
+                                                title="Open in MW calculator"
+                                            >
+                                                <SpeciesLabel species={s} />
+                                            </button>
+                                        </div>
+                                    </td>
+                                    <td className="px-4 sm:px-6 py-3 text-right font-mono text-zinc-300">{s.coefficient}</td>
+                                    <td className="px-4 sm:px-6 py-3 text-right font-mono text-zinc-400 hidden sm:table-cell">{s.mw.toFixed(2)}</td>
+                                    <td className="px-4 sm:px-6 py-3 text-right font-mono text-zinc-400 hidden sm:table-cell">{(s.coefficient * s.mw).toFixed(2)}</td>
+                                    <td className="px-4 sm:px-6 py-3 text-right font-mono text-zinc-300">{(s.coefficient / ref.coefficient).toFixed(3)}</td>
+                                    <td className="px-4 sm:px-6 py-3 text-right font-mono text-zinc-300">
+                                        {ref.mw > 0.01 ? ((s.coefficient * s.mw) / (ref.coefficient * ref.mw)).toFixed(3) : "—"}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="bg-white/5 px-4 sm:px-6 py-3 text-[10px] sm:text-xs text-zinc-500 italic">
+                        Ratios are per mole and per gram of the highlighted species; click a row to change it.
+                        Reactants {sideMass("reactant").toFixed(2)} g = products {sideMass("product").toFixed(2)} g.
+                    </div>
+                </section>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,341 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { ClipboardList, Plus, Trash2, Loader2, Save, FolderOpen, RotateCcw } from "lucide-react";
+import { useStore } from "@/store/useStore";
+import { parseFormula, calculateMw, looksLikeFormula } from "@/lib/parser";
+import { ATOMIC_WEIGHT_TABLES } from "@/lib/atomicWeights";
+import { computeReagentTable, Reagent, ReagentAmounts } from "@/lib/reagents";
+import { lookupPubChem } from "@/lib/api";
+import { NumericInput } from "../ui/NumericInput";
+
+// Simple debounce hook
+function useDebounce<T>(value: T, delay: number): T {
+    const [debouncedValue, setDebouncedValue] = useState<T>(value);
+    useEffect(() => {
+        const handler = setTimeout(() => setDebouncedValue(value), delay);
+        return () => clearTimeout(handler);
+    }, [value, delay]);
+    return debouncedValue;
+}
+
+interface ResolvedMw {
+    mw: string;
+    formula?: string;
+    resolvedName: string;
+}
+
+/**
+ * Resolves a reagent name or formula to an MW, locally when it parses and
+ * through PubChem otherwise, the same way Recipe Builder solutes are looked up.
+ * `resolvedName` is the name whose MW is already known, so it isn't fetched again.
+ */
+function useMwLookup(name: string, resolvedName: string | null | undefined, onResolve: (data: ResolvedMw) => void) {
+    const { groupAbbreviations, atomicWeightTable } = useStore();
+    const [isSearching, setIsSearching] = useState(false);
+    const debouncedName = useDebounce(name, 600);
+    // Callers pass a fresh callback each render; the lookup only reruns when the name changes
+    const onResolveRef = useRef(onResolve);
+    useEffect(() => {
+        onResolveRef.current = onResolve;
+    });
+
+    useEffect(() => {
+        const triggerLookup = async () => {
+            const query = debouncedName.trim();
+            if (!query || query === resolvedName) return;
+
+            setIsSearching(true);
+            try {
+                if (looksLikeFormula(query)) {
+                    try {
+                        const composition = parseFormula(query, groupAbbreviations);
+                        const mw = calculateMw(composition, ATOMIC_WEIGHT_TABLES[atomicWeightTable]);
+                        onResolveRef.current({ mw: mw.toFixed(2), formula: query, resolvedName: query });
+                        return;
+                    } catch { }
+                }
+
+                const res = await lookupPubChem(query);
+                if (res && res.mw) {
+                    onResolveRef.current({ mw: Number(res.mw).toFixed(2), formula: res.formula ? String(res.formula) : undefined, resolvedName: query });
+                }
+            } catch (err) {
+                console.error("Lookup error:", err);
+            } finally {
+                setIsSearching(false);
+            }
+        };
+
+        triggerLookup();
+    }, [debouncedName, resolvedName, groupAbbreviations, atomicWeightTable]);
+
+    return isSearching;
+}
+
+const fixed = (value: number, digits: number) => (isFinite(value) ? value.toFixed(digits) : "—");
+
+function ReagentRow({ reagent, isLimiting, amounts }: { reagent: Reagent; isLimiting: boolean; amounts?: ReagentAmounts }) {
+    const { updateReagent, removeReagent, setLimitingReagent } = useStore();
+    const isSearching = useMwLookup(reagent.name, reagent.resolvedName, (data) => updateReagent(reagent.id, data));
+
+    const makeLimiting = () => {
+        // Keep the current amount, so switching the reference doesn't reset the table
+        if (amounts && !reagent.mass && !reagent.volume) {
+            updateReagent(reagent.id, { mass: amounts.mass.toFixed(1) });
+        }
+        setLimitingReagent(reagent.id);
+    };
+
+    const field = (key: "mw" | "equivalents" | "density" | "purity", placeholder: string, className = "w-20") => (
+        <NumericInput
+            placeholder={placeholder}
+            value={reagent[key]}
+            onChange={(value) => updateReagent(reagent.id, { [key]: value })}
+            className={`${className} text-sm text-right`}
+        />
+    );
+
+    return (
+        <tr className={isLimiting ? "bg-indigo-500/[0.06]" : "hover:bg-white/[0.02] transition-colors"}>
+            <td className="px-3 py-2 text-center">
+                <input type="radio" checked={isLimiting} onChange={makeLimiting} title="Limiting reagent" />
+            </td>
+            <td className="px-3 py-2">
+                <div className="relative">
+                    <input
+                        type="text"
+                        placeholder="Name or formula"
+                        value={reagent.name}
+                        onChange={(e) => updateReagent(reagent.id, { name: e.target.value })}
+                        className="w-40 text-sm"
+                    />
+                    {isSearching && <Loader2 className="absolute right-2 top-2.5 h-3.5 w-3.5 animate-spin text-indigo-400" />}
+                </div>
+            </td>
+            <td className="px-3 py-2">{field("mw", "g/mol", "w-24")}</td>
+            <td className="px-3 py-2">{field("equivalents", "eq", "w-16")}</td>
+            {isLimiting ? (
+                <>
+                    <td className="px-3 py-2">
+                        <NumericInput
+                            placeholder="mg"
+                            value={reagent.mass}
+                            onChange={(value) => updateReagent(reagent.id, { mass: value })}
+                            className="w-24 text-sm text-right"
+                        />
+                    </td>
+                    <td className="px-3 py-2">
+                        <NumericInput
+                            placeholder="mL"
+                            value={reagent.volume}
+                            onChange={(value) => updateReagent(reagent.id, { volume: value })}
+                            className="w-20 text-sm text-right"
+                        />
+                    </td>
+                </>
+            ) : (
+                <>
+                    <td className="px-3 py-2 text-right font-mono text-zinc-300">{amounts ? fixed(amounts.mass, 1) : "—"}</td>
+                    <td className="px-3 py-2 text-right font-mono text-zinc-300">{amounts?.volume != null ? fixed(amounts.volume, 3) : "—"}</td>
+                </>
+            )}
+            <td className="px-3 py-2">{field("density", "g/mL")}</td>
+            <td className="px-3 py-2">{field("purity", "%", "w-16")}</td>
+            <td className="px-3 py-2 text-right font-mono text-white">{amounts ? fixed(amounts.mmol, 3) : "—"}</td>
+            <td className="px-3 py-2">
+                <button
+                    onClick={() => removeReagent(reagent.id)}
+                    title="Remove reagent"
+                    className="p-1 text-zinc-600 hover:text-red-400 transition-colors"
+                >
+                    <Trash2 className="h-4 w-4" />
+                </button>
+            </td>
+        </tr>
+    );
+}
+
+function SavedTables() {
+    const { reagentTable, savedReagentTables, saveReagentTable, loadReagentTable, deleteReagentTable } = useStore();
+    const [name, setName] = useState("");
+    const [description, setDescription] = useState("");
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        saveReagentTable(name.trim(), description.trim());
+        setName("");
+        setDescription("");
+    };
+
+    return (
+        <section className="glass-card space-y-4">
+            <div className="flex items-center gap-2 text-zinc-400">
+                <FolderOpen className="h-4 w-4" />
+                <h3 className="text-sm font-bold uppercase tracking-widest">Saved Tables</h3>
+            </div>
+            <form onSubmit={handleSave} className="flex flex-col sm:flex-row gap-2">
+                <input
+                    type="text"
+                    placeholder="Table name, e.g. Suzuki coupling"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="flex-1 text-sm"
+                />
+                <input
+                    type="text"
+                    placeholder="Notes (optional)"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    className="flex-1 text-sm"
+                />
+                <button
+                    type="submit"
+                    disabled={!name.trim() || reagentTable.reagents.length === 0}
+                    className="primary flex items-center justify-center gap-2 text-sm"
+                >
+                    <Save className="h-4 w-4" /> Save
+                </button>
+            </form>
+            {savedReagentTables.length > 0 && (
+                <div className="divide-y divide-white/5">
+                    {savedReagentTables.map((table) => (
+                        <div key={table.id} className="flex items-center justify-between gap-3 py-2">
+                            <button onClick={() => loadReagentTable(table)} className="text-left group">
+                                <p className="text-sm font-medium text-zinc-200 group-hover:text-indigo-400 transition-colors">{table.name}</p>
+                                <p className="text-xs text-zinc-500">
+                                    {table.description || `${table.reagents.length} reagent${table.reagents.length === 1 ? "" : "s"}`}
+                                </p>
+                            </button>
+                            <button
+                                onClick={() => deleteReagentTable(table.id)}
+                                title={`Delete ${table.name}`}
+                                className="p-1.5 text-zinc-600 hover:text-red-400 transition-colors"
+                            >
+                                <Trash2 className="h-3.5 w-3.5" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </section>
+    );
+}
+
+export default function ReagentCalculator() {
+    const { reagentTable, addReagent, setReagentProduct, clearReagents } = useStore();
+    const { reagents, limitingId, product } = reagentTable;
+    const isSearchingProduct = useMwLookup(product.name, product.resolvedName, ({ mw, resolvedName }) =>
+        setReagentProduct({ mw, resolvedName })
+    );
+
+    const result = computeReagentTable(reagentTable);
+
+    return (
+        <div className="max-w-5xl mx-auto space-y-4 sm:space-y-6 pb-10">
+            <section className="glass-card space-y-6">
+                <div className="flex items-center justify-between gap-3 border-b border-white/5 pb-4">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-indigo-500/10 rounded-lg text-indigo-400">
+                            <ClipboardList className="h-5 w-5" />
+                        </div>
+                        <h2 className="text-lg font-bold text-zinc-100">{reagentTable.name || "Reagent Table"}</h2>
+                    </div>
+                    <button
+                        onClick={clearReagents}
+                        title="Start a new table"
+                        className="p-2 rounded-lg hover:bg-white/5 text-zinc-500 hover:text-indigo-400 transition-colors"
+                    >
+                        <RotateCcw className="h-4 w-4" />
+                    </button>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                        <thead>
+                            <tr className="text-zinc-500 text-[10px] font-bold uppercase tracking-wider">
+                                <th className="px-3 py-2 text-center">Lim.</th>
+                                <th className="px-3 py-2">Reagent</th>
+                                <th className="px-3 py-2">MW</th>
+                                <th className="px-3 py-2">Equiv.</th>
+                                <th className="px-3 py-2 text-right">Mass (mg)</th>
+                                <th className="px-3 py-2 text-right">Vol. (mL)</th>
+                                <th className="px-3 py-2">Density</th>
+                                <th className="px-3 py-2">Purity</th>
+                                <th className="px-3 py-2 text-right">mmol</th>
+                                <th className="px-3 py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                            {reagents.map((reagent) => (
+                                <ReagentRow
+                                    key={reagent.id}
+                                    reagent={reagent}
+                                    isLimiting={reagent.id === limitingId}
+                                    amounts={result?.rows[reagent.id]}
+                                />
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <button
+                    onClick={() => addReagent()}
+                    className="flex items-center gap-2 text-sm text-indigo-400 hover:text-indigo-300 transition-colors"
+                >
+                    <Plus className="h-4 w-4" /> Add reagent
+                </button>
+                <p className="text-[10px] sm:text-xs text-zinc-500 italic">
+                    Enter the mass (or volume and density) of the limiting reagent; every other row follows from its equivalents.
+                    Masses are what to weigh out, corrected for purity.
+                </p>
+            </section>
+
+            <section className="glass-card space-y-4">
+                <h3 className="text-sm font-bold uppercase tracking-widest text-zinc-400">Product</h3>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                    <div className="space-y-1 col-span-2 sm:col-span-1">
+                        <label className="block text-[10px] font-bold text-zinc-500 uppercase">Name or Formula</label>
+                        <div className="relative">
+                            <input
+                                type="text"
+                                className="w-full text-sm"
+                                value={product.name}
+                                onChange={(e) => setReagentProduct({ name: e.target.value })}
+                            />
+                            {isSearchingProduct && <Loader2 className="absolute right-2 top-2.5 h-3.5 w-3.5 animate-spin text-indigo-400" />}
+                        </div>
+                    </div>
+                    <div className="space-y-1">
+                        <label className="block text-[10px] font-bold text-zinc-500 uppercase">MW (g/mol)</label>
+                        <NumericInput className="w-full text-sm" value={product.mw} onChange={(value) => setReagentProduct({ mw: value })} />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="block text-[10px] font-bold text-zinc-500 uppercase">Equiv.</label>
+                        <NumericInput className="w-full text-sm" value={product.equivalents} onChange={(value) => setReagentProduct({ equivalents: value })} />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="block text-[10px] font-bold text-zinc-500 uppercase">Isolated (mg)</label>
+                        <NumericInput className="w-full text-sm" value={product.isolatedMass} onChange={(value) => setReagentProduct({ isolatedMass: value })} />
+                    </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4 border-t border-white/5 pt-4 text-center">
+                    <div>
+                        <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Theoretical Yield</p>
+                        <p className="font-mono text-lg font-bold text-white">
+                            {result?.theoreticalYield != null ? `${fixed(result.theoreticalYield, 1)} mg` : "—"}
+                        </p>
+                    </div>
+                    <div>
+                        <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Yield</p>
+                        <p className={`font-mono text-lg font-bold ${result?.percentYield != null && result.percentYield > 100 ? "text-amber-400" : "text-emerald-400"}`}>
+                            {result?.percentYield != null ? `${fixed(result.percentYield, 1)} %` : "—"}
+                        </p>
+                    </div>
+                </div>
+            </section>
+
+            <SavedTables />
+        </div>
+    );
+}
@@ -0,0 +1,364 @@
+"use client";
+
+import { useStore } from "@/store/useStore";
+import { formatVolume, formatConcentration, getUnitLabel } from "@/lib/parser";
+import { DILUTION_DIMENSIONS, convert, isTraceFraction, requiresDensity, requiresEquivalents, requiresMw, toBase } from "@/lib/units";
+import { PLATE_COLUMNS, PLATE_ROWS, PlateDirection, SerialMode, parseTargetSeries, planSerialDilution, plateLayout, seriesFactors } from "@/lib/serial";
+import { countSigFigs, formatNumber, inputSigFigs } from "@/lib/sigfigs";
+import { motion, AnimatePresence } from "framer-motion";
+import { Info, LayoutGrid, RotateCcw } from "lucide-react";
+import { UnitOptions } from "../ui/UnitOptions";
+import { EquivalentsInput } from "../ui/EquivalentsInput";
+import { NumericInput } from "../ui/NumericInput";
+
+const MODES: { id: SerialMode; label: string }[] = [
+    { id: "factor", label: "Dilution Factor" },
+    { id: "series", label: "Target Series" },
+];
+
+const MAX_POINTS = 96;
+
+export default function SerialDilutionPlanner() {
+    const { serialDilution: s, setSerialDilution, numberFormat } = useStore();
+    const displayUnit = s.displayUnit || s.startUnit;
+
+    const calculatePlan = () => {
+        const start = parseFloat(s.start);
+        const volume = parseFloat(s.volume);
+        if (isNaN(start) || isNaN(volume)) return null;
+
+        let factors: number[];
+        let concSigFigs: (number | undefined)[];
+        try {
+            if (s.mode === "factor") {
+                const factor = parseFloat(s.factor);
+                const points = parseInt(s.points, 10);
+                if (isNaN(factor) || isNaN(points)) return null;
+                if (points < 1 || points > MAX_POINTS) return { error: `Number of points must be between 1 and ${MAX_POINTS}.` };
+                factors = Array(points).fill(factor);
+                // A fold is a count, so precision comes from the start concentration
+                concSigFigs = factors.map(() => inputSigFigs(s.start));
+            } else {
+                const targets = parseTargetSeries(s.targets, numberFormat.locale);
+                if (!targets) return { error: "Target concentrations must be numbers, separated by semicolons or new lines." };
+                if (!targets.length) return null;
+                if (targets.length > MAX_POINTS) return { error: `Up to ${MAX_POINTS} target concentrations.` };
+                factors = seriesFactors(start, targets.map(parseFloat));
+                concSigFigs = targets.map(countSigFigs);
+            }
+
+            const plan = planSerialDilution(start, factors, toBase(volume, s.volumeUnit));
+            // Concentrations in the unit chosen for display
+            const concentrations = plan.tubes.map((tube) => convert(tube.conc, s.startUnit, displayUnit, {
+                mw: parseFloat(s.mw) || undefined,
+                density: parseFloat(s.density) || undefined,
+                diluteAqueous: isTraceFraction(s.startUnit) || isTraceFraction(displayUnit),
+                equivalents: parseFloat(s.equivalents) || undefined
+            }));
+            return { plan, concentrations, concSigFigs, volumeSigFigs: inputSigFigs(s.volume) };
+        } catch (err) {
+            return { error: (err as Error).message };
+        }
+    };
+
+    const results = calculatePlan();
+    const planned = results && !("error" in results) ? results : null;
+
+    let plate: (number | null)[][] | null = null;
+    let plateError: string | null = null;
+    if (planned && s.showPlate) {
+        try {
+            plate = plateLayout(planned.plan.tubes.length, Math.max(parseInt(s.replicates, 10) || 1, 1), s.direction);
+        } catch (err) {
+            plateError = (err as Error).message;
+        }
+    }
+
+    const concText = (i: number) =>
+        planned ? `${formatConcentration(planned.concentrations[i], displayUnit, planned.concSigFigs[i], numberFormat)} ${getUnitLabel(displayUnit)}` : "";
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-4 sm:space-y-8 pb-10">
+            <section className="glass-card space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                    <div className="flex bg-white/5 p-1 rounded-xl border border-white/10 w-full sm:w-96">
+                        {MODES.map((mode) => (
+                            <button
+                                key={mode.id}
+                                type="button"
+                                onClick={() => setSerialDilution({ mode: mode.id })}
+                                className={`flex-1 py-1.5 rounded-lg text-sm font-medium transition-all ${s.mode === mode.id ? "bg-indigo-500 text-white shadow-lg shadow-indigo-500/20" : "text-zinc-500 hover:text-zinc-300"}`}
+                            >
+                                {mode.label}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={() => setSerialDilution({ start: "", factor: "2", points: "8", targets: "" })}
+                        title="Clear the series"
+                        className="p-2 rounded-lg hover:bg-white/5 text-zinc-500 hover:text-indigo-400 transition-colors"
+                    >
+                        <RotateCcw className="h-4 w-4" />
+                    </button>
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                    <div>
+                        <label className="block text-[10px] sm:text-xs font-bold text-zinc-500 uppercase mb-2">Start Concentration</label>
+                        <div className="flex gap-2">
+                            <NumericInput
+                                placeholder="Stock"
+                                className="flex-1 text-sm"
+                                value={s.start}
+                                onChange={(value) => setSerialDilution({ start: value })}
+                            />
+                            <select
+                                className="w-24 sm:w-32 text-xs sm:text-sm"
+                                value={s.startUnit}
+                                onChange={(e) => setSerialDilution({ startUnit: e.target.value })}
+                            >
+                                <UnitOptions dimensions={DILUTION_DIMENSIONS} />
+                            </select>
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-[10px] sm:text-xs font-bold text-zinc-500 uppercase mb-2">Final Volume per Tube</label>
+                        <div className="flex gap-2">
+                            <NumericInput
+                                placeholder="Volume"
+                                className="flex-1 text-sm"
+                                value={s.volume}
+                                onChange={(value) => setSerialDilution({ volume: value })}
+                            />
+                            <select
+                                className="w-20 sm:w-24 text-xs sm:text-sm"
+                                value={s.volumeUnit}
+                                onChange={(e) => setSerialDilution({ volumeUnit: e.target.value })}
+                            >
+                                <UnitOptions dimensions={["volume"]} />
+                            </select>
+                        </div>
+                    </div>
+
+                    {s.mode === "factor" ? (
+                        <>
+                            <div>
+                                <label className="block text-[10px] sm:text-xs font-bold text-zinc-500 uppercase mb-2">Dilution Factor</label>
+                                <div className="flex items-center gap-2">
+                                    <NumericInput
+                                        placeholder="e.g. 2 or 10"
+                                        className="flex-1 text-sm"
+                                        value={s.factor}
+                                        onChange={(value) => setSerialDilution({ factor: value })}
+                                    />
+                                    <span className="text-xs text-zinc-500 font-mono">-fold per step</span>
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-[10px] sm:text-xs font-bold text-zinc-500 uppercase mb-2">Number of Points</label>
+                                <NumericInput
+                                    placeholder="Tubes"
+                                    className="w-full text-sm"
+                                    value={s.points}
+                                    onChange={(value) => setSerialDilution({ points: value })}
+                                />
+                            </div>
+                        </>
+                    ) : (
+                        <div className="sm:col-span-2">
+                            <label className="block text-[10px] sm:text-xs font-bold text-zinc-500 uppercase mb-2">
+                                Target Concentrations ({getUnitLabel(s.startUnit)})
+                            </label>
+                            <textarea
+                                rows={2}
+                                placeholder="e.g. 100; 50; 25; 10; 5; 1"
+                                value={s.targets}
+                                onChange={(e) => setSerialDilution({ targets: e.target.value })}
+                                className="w-full text-sm font-mono bg-white/5 border border-white/10 rounded-lg px-3 py-2 outline-hidden focus:border-indigo-500/50 focus:ring-2 focus:ring-indigo-500/20 transition-all"
+                            />
+                            <p className="text-[10px] text-zinc-600 mt-1">Highest first, separated by semicolons or new lines; each tube is made from the one before.</p>
+                        </div>
+                    )}
+
+                    <div>
+                        <label className="block text-[10px] sm:text-xs font-bold text-zinc-500 uppercase mb-2">Show Concentrations In</label>
+                        <select
+                            className="w-full text-sm"
+                            value={s.displayUnit}
+                            onChange={(e) => setSerialDilution({ displayUnit: e.target.value })}
+                        >
+                            <option value="">Start unit ({getUnitLabel(s.startUnit)})</option>
+                            <UnitOptions dimensions={DILUTION_DIMENSIONS} />
+                        </select>
+                    </div>
+                    {(requiresMw(s.startUnit, displayUnit) || requiresEquivalents(s.startUnit, displayUnit) || requiresDensity(s.startUnit, displayUnit)) && (
+                        <div className="space-y-2">
+                            {requiresMw(s.startUnit, displayUnit) && (
+                                <div>
+                                    <label className="block text-[10px] sm:text-xs font-bold text-zinc-500 uppercase mb-2">Molecular Weight</label>
+                                    <div className="flex items-center gap-2">
+                                        <NumericInput
+                                            placeholder="Mw"
+                                            className="flex-1 text-sm"
+                                            value={s.mw}
+                                            onChange={(value) => setSerialDilution({ mw: value })}
+                                        />
+                                        <span className="text-xs text-zinc-500 font-mono">g/mol</span>
+                                    </div>
+                                </div>
+                            )}
+                            {requiresEquivalents(s.startUnit, displayUnit) && (
+                                <EquivalentsInput
+                                    formula={null}
+                                    value={s.equivalents}
+                                    onChange={(equivalents) => setSerialDilution({ equivalents })}
+                                />
+                            )}
+                            {requiresDensity(s.startUnit, displayUnit) && (
+                                <div>
+                                    <label className="block text-[10px] sm:text-xs font-bold text-zinc-500 uppercase mb-2">Solution Density</label>
+                                    <div className="flex items-center gap-2">
+                                        <NumericInput
+                                            placeholder="Density"
+                                            className="flex-1 text-sm"
+                                            value={s.density ?? ""}
+                                            onChange={(value) => setSerialDilution({ density: value })}
+                                        />
+                                        <span className="text-xs text-zinc-500 font-mono">g/mL</span>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </section>
+
+            <AnimatePresence mode="wait">
+                {results && ("error" in results ? (
+                    <motion.div
+                        key="error"
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className="glass-card border-red-500/20 bg-red-500/[0.02] flex items-center gap-3 text-red-400 text-sm"
+                    >
+                        <Info className="h-5 w-5 shrink-0" />
+                        {results.error}
+                    </motion.div>
+                ) : (
+                    <motion.section
+                        key="result"
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                        className="glass-card overflow-hidden border-indigo-500/30 !p-0"
+                    >
+                        <div className="grid sm:grid-cols-2 divide-y sm:divide-y-0 sm:divide-x divide-white/5">
+                            <div className="p-6 text-center">
+                                <p className="text-zinc-500 text-[10px] sm:text-sm uppercase tracking-widest font-bold mb-2">Stock Used</p>
+                                <p className="text-2xl sm:text-3xl font-black text-indigo-400 font-mono">
+                                    {formatVolume(results.plan.stockVolume, results.volumeSigFigs, numberFormat)}
+                                </p>
+                            </div>
+                            <div className="p-6 text-center">
+                                <p className="text-zinc-500 text-[10px] sm:text-sm uppercase tracking-widest font-bold mb-2">Total Diluent</p>
+                                <p className="text-2xl sm:text-3xl font-black text-emerald-400 font-mono">
+                                    {formatVolume(results.plan.diluentVolume, results.volumeSigFigs, numberFormat)}
+                                </p>
+                            </div>
+                        </div>
+                        <div className="overflow-x-auto border-t border-white/5">
+                            <table className="w-full text-left text-sm">
+                                <thead>
+                                    <tr className="text-zinc-500 text-[10px] font-bold uppercase tracking-wider">
+                                        <th className="px-4 py-2">Tube</th>
+                                        <th className="px-4 py-2 text-right">Concentration</th>
+                                        <th className="px-4 py-2 text-right">Fold</th>
+                                        <th className="px-4 py-2 text-right">Transfer</th>
+                                        <th className="px-4 py-2">From</th>
+                                        <th className="px-4 py-2 text-right">Diluent</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-white/5 font-mono">
+                                    {results.plan.tubes.map((tube, i) => (
+                                        <tr key={i}>
+                                            <td className="px-4 py-2 text-zinc-400">{i + 1}</td>
+                                            <td className="px-4 py-2 text-right text-white">{concText(i)}</td>
+                                            <td className="px-4 py-2 text-right text-zinc-500">{formatNumber(tube.factor, 2, undefined, numberFormat)}×</td>
+                                            <td className="px-4 py-2 text-right text-indigo-400">{formatVolume(tube.transfer, results.volumeSigFigs, numberFormat)}</td>
+                                            <td className="px-4 py-2 text-zinc-500 font-sans text-xs">{i === 0 ? "stock" : `tube ${i}`}</td>
+                                            <td className="px-4 py-2 text-right text-emerald-400">{formatVolume(tube.diluent, results.volumeSigFigs, numberFormat)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <div className="bg-white/5 px-4 sm:px-6 py-4 text-center text-[10px] sm:text-sm text-zinc-400 italic">
+                            Put the diluent in every tube, then work down the series: mix each tube before taking its transfer for the next.
+                            Every tube ends with {formatVolume(toBase(parseFloat(s.volume), s.volumeUnit), results.volumeSigFigs, numberFormat)}.
+                        </div>
+                    </motion.section>
+                ))}
+            </AnimatePresence>
+
+            {planned && (
+                <section className="glass-card space-y-4">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                        <button
+                            type="button"
+                            onClick={() => setSerialDilution({ showPlate: !s.showPlate })}
+                            className={`flex items-center gap-2 text-sm transition-colors ${s.showPlate ? "text-indigo-400" : "text-zinc-500 hover:text-indigo-400"}`}
+                        >
+                            <LayoutGrid className="h-4 w-4" /> 96-Well Layout
+                        </button>
+                        {s.showPlate && (
+                            <div className="flex items-center gap-2 text-xs text-zinc-500">
+                                <NumericInput
+                                    title="Replicates"
+                                    className="w-14 text-xs text-center"
+                                    value={s.replicates}
+                                    onChange={(value) => setSerialDilution({ replicates: value })}
+                                />
+                                <span>replicates,</span>
+                                <select
+                                    className="text-xs"
+                                    value={s.direction}
+                                    onChange={(e) => setSerialDilution({ direction: e.target.value as PlateDirection })}
+                                >
+                                    <option value="across">series across rows</option>
+                                    <option value="down">series down columns</option>
+                                </select>
+                            </div>
+                        )}
+                    </div>
+                    {plateError && <p className="text-xs text-amber-400">{plateError}</p>}
+                    {plate && (
+                        <div className="overflow-x-auto">
+                            <div className="inline-grid gap-1" style={{ gridTemplateColumns: `auto repeat(${PLATE_COLUMNS}, minmax(1.75rem, 1fr))` }}>
+                                <span />
+                                {Array.from({ length: PLATE_COLUMNS }, (_, c) => (
+                                    <span key={c} className="text-[10px] text-zinc-600 text-center font-mono">{c + 1}</span>
+                                ))}
+                                {plate.map((row, r) => (
+                                    <div key={r} className="contents">
+                                        <span className="text-[10px] text-zinc-600 font-mono pr-1 self-center">{PLATE_ROWS[r]}</span>
+                                        {row.map((tube, c) => (
+                                            <div
+                                                key={c}
+                                                title={tube === null ? `${PLATE_ROWS[r]}${c + 1}: empty` : `${PLATE_ROWS[r]}${c + 1}: tube ${tube + 1}, ${concText(tube)}`}
+                                                className="aspect-square rounded-full border border-white/10 flex items-center justify-center text-[9px] font-mono text-white"
+                                                style={tube === null ? undefined : { backgroundColor: `rgba(99, 102, 241, ${0.9 - (0.75 * tube) / Math.max(planned.plan.tubes.length - 1, 1)})` }}
+                                            >
+                                                {tube === null ? "" : tube + 1}
+                                            </div>
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    {plate && <p className="text-[10px] text-zinc-600">Numbers are tubes in the table above; hover a well for its concentration.</p>}
+                </section>
+            )}
+        </div>
+    );
+}
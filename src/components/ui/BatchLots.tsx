@@ -0,0 +1,187 @@
+"use client";
+
+import { useMemo } from "react";
+import { FileCheck, Plus, Trash2 } from "lucide-react";
+import { useStore } from "@/store/useStore";
+import { BatchLot, BatchMw, calculateBatchMw, compoundKey } from "@/lib/batch";
+import { ATOMIC_WEIGHT_TABLES } from "@/lib/atomicWeights";
+import { NumericInput } from "./NumericInput";
+
+/**
+ * Lots stored for a compound (by formula) and the batch MW of the selected
+ * one. `batch` is null without a selected lot; `error` is set when the
+ * selected lot's data doesn't add up.
+ */
+export function useBatchMw(formula: string | null | undefined, lotId: string | null | undefined, parentMw: number) {
+    const { lots, groupAbbreviations, atomicWeightTable } = useStore();
+    const key = formula ? compoundKey(formula, groupAbbreviations) : null;
+    const compoundLots = useMemo(() => (key ? lots[key] || [] : []), [key, lots]);
+    const lot = compoundLots.find((l) => l.id === lotId) ?? null;
+
+    return useMemo(() => {
+        let batch: BatchMw | null = null;
+        let error: string | null = null;
+        if (lot && parentMw > 0) {
+            try {
+                batch = calculateBatchMw(parentMw, lot, groupAbbreviations, ATOMIC_WEIGHT_TABLES[atomicWeightTable]);
+            } catch (err) {
+                error = (err as Error).message;
+            }
+        }
+        return { key, lots: compoundLots, lot, batch, error };
+    }, [key, compoundLots, lot, parentMw, groupAbbreviations, atomicWeightTable]);
+}
+
+interface LotSelectProps {
+    formula: string | null | undefined;
+    lotId: string | null | undefined;
+    onChange: (lotId: string | null) => void;
+    className?: string;
+}
+
+/** Compact lot picker for calculators; hidden when the compound has no lots. */
+export function LotSelect({ formula, lotId, onChange, className = "" }: LotSelectProps) {
+    const { lots } = useBatchMw(formula, lotId, 0);
+    if (!lots.length) return null;
+
+    return (
+        <select
+            title="Certificate-of-analysis lot"
+            value={lotId ?? ""}
+            onChange={(e) => onChange(e.target.value || null)}
+            className={className}
+        >
+            <option value="">Nominal MW</option>
+            {lots.map((l) => (
+                <option key={l.id} value={l.id}>Lot {l.lot || "(unnamed)"}</option>
+            ))}
+        </select>
+    );
+}
+
+interface BatchLotPanelProps {
+    formula: string;
+    parentMw: number;
+    lotId: string | null | undefined;
+    onSelect: (lotId: string | null) => void;
+}
+
+const FIELDS: { field: keyof Omit<BatchLot, "id" | "lot" | "counterIon">; label: string }[] = [
+    { field: "purity", label: "Purity %" },
+    { field: "water", label: "Water % (KF)" },
+    { field: "solvent", label: "Solvent %" },
+    { field: "counterIonEquivalents", label: "Equiv." },
+];
+
+function LotRow({ lot, compound, parentMw, selected, onSelect }: { lot: BatchLot; compound: string; parentMw: number; selected: boolean; onSelect: () => void }) {
+    const { updateLot, removeLot, groupAbbreviations, atomicWeightTable } = useStore();
+
+    let result: BatchMw | null = null;
+    let error: string | null = null;
+    try {
+        result = calculateBatchMw(parentMw, lot, groupAbbreviations, ATOMIC_WEIGHT_TABLES[atomicWeightTable]);
+    } catch (err) {
+        error = (err as Error).message;
+    }
+
+    return (
+        <div className={`p-3 rounded-xl border space-y-3 transition-colors ${selected ? "border-indigo-500/30 bg-indigo-500/[0.06]" : "border-white/5 bg-white/[0.02]"}`}>
+            <div className="flex items-center gap-3">
+                <input type="radio" checked={selected} onChange={onSelect} title="Weigh out using this lot" />
+                <input
+                    type="text"
+                    placeholder="Lot number"
+                    value={lot.lot}
+                    onChange={(e) => updateLot(compound, lot.id, { lot: e.target.value })}
+                    className="flex-1 text-sm"
+                />
+                <button
+                    type="button"
+                    onClick={() => removeLot(compound, lot.id)}
+                    className="text-zinc-600 hover:text-red-400 p-1 transition-colors"
+                >
+                    <Trash2 className="h-4 w-4" />
+                </button>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                <div className="space-y-1">
+                    <label className="block text-[10px] font-bold text-zinc-500 uppercase">Counter-ion</label>
+                    <input
+                        type="text"
+                        placeholder="e.g. TFA"
+                        value={lot.counterIon}
+                        onChange={(e) => updateLot(compound, lot.id, { counterIon: e.target.value })}
+                        className="w-full text-sm font-mono"
+                    />
+                </div>
+                {FIELDS.map(({ field, label }) => (
+                    <div key={field} className="space-y-1">
+                        <label className="block text-[10px] font-bold text-zinc-500 uppercase">{label}</label>
+                        <NumericInput
+                            value={lot[field]}
+                            onChange={(value) => updateLot(compound, lot.id, { [field]: value })}
+                            className="w-full text-sm"
+                        />
+                    </div>
+                ))}
+            </div>
+            {result ? (
+                <p className="text-xs text-zinc-500">
+                    Salt MW <span className="font-mono text-zinc-300">{result.saltMw.toFixed(2)}</span>
+                    {" · "}content <span className="font-mono text-zinc-300">{(result.content * 100).toFixed(1)}%</span>
+                    {" · "}batch MW <span className="font-mono font-bold text-indigo-400">{result.mw.toFixed(2)} g/mol</span>
+                </p>
+            ) : (
+                <p className="text-xs text-red-400">{error}</p>
+            )}
+        </div>
+    );
+}
+
+/** Certificate-of-analysis lots for the current result: add, edit and pick the one to weigh out. */
+export function BatchLotPanel({ formula, parentMw, lotId, onSelect }: BatchLotPanelProps) {
+    const { addLot } = useStore();
+    const { key, lots } = useBatchMw(formula, lotId, parentMw);
+    if (!key) return null;
+
+    return (
+        <section className="glass-card space-y-4">
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                    <FileCheck className="h-4 w-4 text-indigo-400" />
+                    <h3 className="text-sm font-bold uppercase tracking-widest text-zinc-400">Batch Lots</h3>
+                </div>
+                <button
+                    type="button"
+                    onClick={() => onSelect(addLot(key))}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-xs text-zinc-400 hover:text-indigo-400 hover:border-indigo-500/30 transition-all"
+                >
+                    <Plus className="h-3.5 w-3.5" /> Add Lot
+                </button>
+            </div>
+            {lots.length ? (
+                <div className="space-y-3">
+                    {lots.map((lot) => (
+                        <LotRow
+                            key={lot.id}
+                            lot={lot}
+                            compound={key}
+                            parentMw={parentMw}
+                            selected={lot.id === lotId}
+                            onSelect={() => onSelect(lot.id)}
+                        />
+                    ))}
+                    {lotId && (
+                        <button type="button" onClick={() => onSelect(null)} className="text-xs text-zinc-500 hover:text-zinc-300">
+                            Use the nominal MW instead
+                        </button>
+                    )}
+                </div>
+            ) : (
+                <p className="text-xs text-zinc-500 italic">
+                    Add the purity, water, residual solvent and counter-ions from a certificate of analysis to weigh out by batch MW.
+                </p>
+            )}
+        </section>
+    );
+}
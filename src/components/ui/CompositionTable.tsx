@@ -0,0 +1,50 @@
+import { PieChart } from "lucide-react";
+import { Composition } from "@/lib/parser";
+import { massPercentages } from "@/lib/elemental";
+import { FormulaBadge } from "./FormulaBadge";
+
+interface CompositionTableProps {
+    composition: Composition;
+}
+
+export function CompositionTable({ composition }: CompositionTableProps) {
+    const shares = massPercentages(composition);
+
+    return (
+        <section className="glass-card space-y-4">
+            <div className="flex items-center gap-2">
+                <PieChart className="h-4 w-4 text-indigo-400" />
+                <h3 className="text-sm font-bold uppercase tracking-widest text-zinc-400">Elemental Composition</h3>
+            </div>
+            <table className="w-full text-left text-xs sm:text-sm">
+                <thead>
+                    <tr className="text-zinc-500 text-[10px] uppercase tracking-wider">
+                        <th className="py-1 pr-4">Element</th>
+                        <th className="py-1 pr-4 text-right">Count</th>
+                        <th className="py-1 pr-4 text-right">Mass</th>
+                        <th className="py-1 w-1/2">Mass %</th>
+                    </tr>
+                </thead>
+                <tbody className="font-mono text-zinc-300">
+                    {shares.map((share) => (
+                        <tr key={share.atom} className="border-t border-white/5">
+                            <td className="py-1.5 pr-4">
+                                <FormulaBadge formula={share.atom} className="text-[10px] px-2 py-0" />
+                            </td>
+                            <td className="py-1.5 pr-4 text-right">{share.count}</td>
+                            <td className="py-1.5 pr-4 text-right">{share.mass.toFixed(3)}</td>
+                            <td className="py-1.5">
+                                <div className="flex items-center gap-2">
+                                    <div className="flex-1 h-1.5 rounded-full bg-white/5 overflow-hidden">
+                                        <div className="h-full bg-indigo-500/60" style={{ width: `${share.percent}%` }} />
+                                    </div>
+                                    <span className="w-14 text-right">{share.percent.toFixed(2)}</span>
+                                </div>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </section>
+    );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { useStore } from "@/store/useStore";
+import { suggestEquivalents } from "@/lib/normality";
+import { NumericInput } from "./NumericInput";
+
+interface EquivalentsInputProps {
+    formula: string | null | undefined; // compound to suggest from
+    value: string;
+    onChange: (value: string) => void;
+    className?: string;
+}
+
+/** Equivalents per mole for normality, with a one-click suggestion from the formula. */
+export function EquivalentsInput({ formula, value, onChange, className = "" }: EquivalentsInputProps) {
+    const { groupAbbreviations } = useStore();
+    const suggestion = formula ? suggestEquivalents(formula, groupAbbreviations) : null;
+
+    return (
+        <div className={`space-y-1 ${className}`}>
+            <div className="flex items-center gap-2">
+                <NumericInput
+                    placeholder="Equivalents"
+                    value={value}
+                    onChange={(value) => onChange(value)}
+                    className="flex-1 text-sm"
+                />
+                <span className="text-xs text-zinc-500 font-mono">eq/mol</span>
+            </div>
+            {suggestion && String(suggestion.equivalents) !== value && (
+                <button
+                    type="button"
+                    onClick={() => onChange(String(suggestion.equivalents))}
+                    className="text-xs text-zinc-500 hover:text-indigo-400 transition-colors"
+                >
+                    Use {suggestion.equivalents} ({suggestion.reason})
+                </button>
+            )}
+        </div>
+    );
+}
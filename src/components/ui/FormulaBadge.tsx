@@ -1,5 +1,6 @@
 import React from "react";
 import { cn } from "@/lib/utils";
+import { splitHydrate } from "@/lib/parser";
 
 interface FormulaBadgeProps {
     formula: string;
@@ -7,29 +8,44 @@ interface FormulaBadgeProps {
 }
 
 export function FormulaBadge({ formula, className }: FormulaBadgeProps) {
-    // Use regex to find letters followed by numbers
-    // Regex to split by numbers and common hydrate separators
-    const parts = formula.split(/(\d+|[·*•.])/);
+    // Split into hydrate parts first, so decimal counts (Li0.5CoO2) aren't read as separators
+    const hydrateParts = splitHydrate(formula);
 
     return (
         <span className={cn(
             "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium font-mono bg-indigo-500/10 text-indigo-400 border border-indigo-500/20",
             className
         )}>
-            {parts.map((part, i) => {
-                if (!part) return null;
+            {hydrateParts.map((hydratePart, h) => {
+                // Regex to split by isotope labels and (decimal) numbers
+                const parts = hydratePart.split(/(\[\d+[A-Z][a-z]?\]|\d+(?:\.\d+)?)/);
 
-                if (/^\d+$/.test(part)) {
-                    // It's a multiplier if it's the first part or follows a separator
-                    const prevPart = i > 0 ? parts[i - 1] : null;
-                    const isMultiplier = !prevPart || /^[·*•.]$/.test(prevPart);
+                return (
+                    <React.Fragment key={h}>
+                        {h > 0 && <span>·</span>}
+                        {parts.map((part, i) => {
+                            if (!part) return null;
 
-                    if (isMultiplier) {
-                        return <span key={i}>{part}</span>;
-                    }
-                    return <sub key={i} className="bottom-[-0.2em] text-[0.8em]">{part}</sub>;
-                }
-                return <span key={i}>{part}</span>;
+                            const isotope = part.match(/^\[(\d+)([A-Z][a-z]?)\]$/);
+                            if (isotope) {
+                                return (
+                                    <span key={i}>
+                                        <sup className="text-[0.7em]">{isotope[1]}</sup>{isotope[2]}
+                                    </span>
+                                );
+                            }
+
+                            if (/^[\d.]+$/.test(part)) {
+                                // It's a multiplier if it starts the hydrate part
+                                if (i === 1 && !parts[0]) {
+                                    return <span key={i}>{part}</span>;
+                                }
+                                return <sub key={i} className="bottom-[-0.2em] text-[0.8em]">{part}</sub>;
+                            }
+                            return <span key={i}>{part}</span>;
+                        })}
+                    </React.Fragment>
+                );
             })}
         </span>
     );
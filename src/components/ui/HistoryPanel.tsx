@@ -8,7 +8,7 @@ import { FormulaBadge } from "../ui/FormulaBadge";
 export function HistoryPanel() {
     const {
         history, isHistoryOpen, setIsHistoryOpen,
-        setMwResult, setMwInput, setDilution, setActiveTab
+        setMwResult, setMwInput, setMwMode, setDilution, setActiveTab
     } = useStore();
 
     if (!isHistoryOpen) return null;
@@ -54,7 +54,8 @@ export function HistoryPanel() {
                             <button
                                 key={i}
                                 onClick={() => {
-                                    setMwInput(item.name || item.formula);
+                                    setMwMode(item.polymer ? "polymer" : item.sequenceType ?? "formula");
+                                    setMwInput(item.polymer?.notation || item.sequence || item.smiles || item.name || item.formula);
                                     setMwResult(item);
                                     setActiveTab("mw");
                                     setIsHistoryOpen(false);
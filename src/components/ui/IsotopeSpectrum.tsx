@@ -0,0 +1,120 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Download, BarChart3 } from "lucide-react";
+import { Composition } from "@/lib/parser";
+import { simulateIsotopePattern, mergePeaks, peakLabel, peaksToCsv } from "@/lib/isotopes";
+
+const RESOLUTIONS = [
+    { value: 0, label: "Fine structure" },
+    { value: 240000, label: "240,000" },
+    { value: 60000, label: "60,000" },
+    { value: 10000, label: "10,000" },
+    { value: 1000, label: "1,000" },
+];
+
+// Only the most abundant peaks are drawn; the CSV keeps them all
+const MAX_DRAWN_PEAKS = 500;
+
+interface IsotopeSpectrumProps {
+    composition: Composition;
+    formula: string;
+}
+
+export function IsotopeSpectrum({ composition, formula }: IsotopeSpectrumProps) {
+    const [resolution, setResolution] = useState(60000);
+
+    const fullPattern = useMemo(() => simulateIsotopePattern(composition), [composition]);
+    const peaks = useMemo(
+        () => (resolution > 0 ? mergePeaks(fullPattern, resolution) : fullPattern),
+        [fullPattern, resolution]
+    );
+
+    if (peaks.length === 0) return null;
+
+    const minMass = peaks[0].mass - 1;
+    const maxMass = peaks[peaks.length - 1].mass + 1;
+    const x = (mass: number) => ((mass - minMass) / (maxMass - minMass)) * 100;
+    const labelled = peaks.filter((p) => p.abundance >= 1);
+    const drawn = peaks.length > MAX_DRAWN_PEAKS
+        ? [...peaks].sort((a, b) => b.abundance - a.abundance).slice(0, MAX_DRAWN_PEAKS)
+        : peaks;
+
+    const handleExport = () => {
+        const blob = new Blob([peaksToCsv(peaks)], { type: "text/csv" });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `${formula.replace(/[^A-Za-z0-9]+/g, "_")}_isotopes.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <section className="glass-card space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="flex items-center gap-2">
+                    <BarChart3 className="h-4 w-4 text-indigo-400" />
+                    <h3 className="text-sm font-bold uppercase tracking-widest text-zinc-400">Isotope Pattern</h3>
+                </div>
+                <div className="flex items-center gap-2">
+                    <label className="text-[10px] font-bold uppercase text-zinc-500">Resolution</label>
+                    <select
+                        value={resolution}
+                        onChange={(e) => setResolution(Number(e.target.value))}
+                        className="w-36 text-xs"
+                    >
+                        {RESOLUTIONS.map((r) => (
+                            <option key={r.value} value={r.value}>{r.label}</option>
+                        ))}
+                    </select>
+                    <button
+                        type="button"
+                        onClick={handleExport}
+                        title="Export peak list as CSV"
+                        className="p-2 rounded-lg bg-white/5 border border-white/10 text-zinc-500 hover:text-indigo-400 hover:border-indigo-500/30 transition-all"
+                    >
+                        <Download className="h-4 w-4" />
+                    </button>
+                </div>
+            </div>
+
+            <svg viewBox="0 0 100 50" preserveAspectRatio="none" className="w-full h-40 sm:h-56">
+                <line x1="0" y1="45" x2="100" y2="45" stroke="currentColor" className="text-white/10" strokeWidth="0.3" />
+                {drawn.map((p, i) => (
+                    <line
+                        key={i}
+                        x1={x(p.mass)}
+                        x2={x(p.mass)}
+                        y1="45"
+                        y2={45 - p.abundance * 0.4}
+                        stroke="currentColor"
+                        className="text-indigo-400"
+                        strokeWidth="0.4"
+                    />
+                ))}
+            </svg>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-left text-xs font-mono">
+                    <thead>
+                        <tr className="text-zinc-500 text-[10px] uppercase tracking-wider">
+                            <th className="py-1 pr-4">Peak</th>
+                            <th className="py-1 pr-4">m/z</th>
+                            <th className="py-1 text-right">Rel. %</th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-zinc-300">
+                        {labelled.map((p, i) => (
+                            <tr key={i} className="border-t border-white/5">
+                                <td className="py-1 pr-4 text-indigo-400">{peakLabel(p.offset)}</td>
+                                <td className="py-1 pr-4">{p.mass.toFixed(4)}</td>
+                                <td className="py-1 text-right">{p.abundance.toFixed(2)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </section>
+    );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useState } from "react";
+import { useStore } from "@/store/useStore";
+import { DEFAULT_LOCALE, localizeNumber, normalizeNumber } from "@/lib/locale";
+
+interface NumericInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, "value" | "onChange" | "type"> {
+    value: string | number | null | undefined;
+    onChange: (value: string) => void; // plain number string ("0.5", "250e-6") or "" when cleared
+}
+
+/**
+ * Number field that reads what people type: locale decimals (0,5), thousands
+ * separators, scientific notation (2.5e-3, 2,5×10^-3) and SI prefixes (250 µ).
+ * Text that isn't a number stays in the field, marked invalid, and isn't passed on.
+ */
+export function NumericInput({ value, onChange, onBlur, ...props }: NumericInputProps) {
+    const { numberFormat } = useStore();
+    const locale = numberFormat.locale ?? DEFAULT_LOCALE;
+    const current = value === null || value === undefined || Number.isNaN(value) ? "" : String(value);
+    // What's being typed, kept until the field is left or the value is changed elsewhere
+    const [draft, setDraft] = useState<{ text: string; value: string } | null>(null);
+    // Numeric state drops what parseFloat drops ("7." is 7), so compare numbers as numbers
+    const editing = draft !== null && (typeof value === "number" ? (parseFloat(draft.value) || 0) === (value || 0) : draft.value === current);
+    const text = editing ? draft.text : localizeNumber(current, locale, false);
+    const invalid = editing && normalizeNumber(draft.text, locale) === null;
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const normalized = normalizeNumber(e.target.value, locale);
+        setDraft({ text: e.target.value, value: normalized ?? current });
+        if (normalized !== null && normalized !== current) onChange(normalized);
+    };
+
+    const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+        if (!invalid) setDraft(null);
+        onBlur?.(e);
+    };
+
+    return (
+        <input
+            {...props}
+            type="text"
+            inputMode="decimal"
+            autoComplete="off"
+            spellCheck={false}
+            value={text}
+            onChange={handleChange}
+            onBlur={handleBlur}
+            aria-invalid={invalid || undefined}
+            title={invalid ? "Not a number" : props.title}
+        />
+    );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Thermometer } from "lucide-react";
+import { parseOligo, meltingTemperature, oligoAmounts, OligoAmounts, OligoAmountUnit } from "@/lib/nucleic";
+import { NumericInput } from "./NumericInput";
+
+interface OligoPanelProps {
+    sequence: string;
+}
+
+const AMOUNT_UNITS: OligoAmountUnit[] = ["nmol", "μg", "OD260", "ng/μL", "μM"];
+
+// Concentrations are read against the volume they're in
+const isConcentration = (unit: OligoAmountUnit) => unit === "ng/μL" || unit === "μM";
+
+export function OligoPanel({ sequence }: OligoPanelProps) {
+    const [oligoConc, setOligoConc] = useState("250");
+    const [sodium, setSodium] = useState("50");
+    const [magnesium, setMagnesium] = useState("0");
+    const [amount, setAmount] = useState("10");
+    const [unit, setUnit] = useState<OligoAmountUnit>("nmol");
+    const [volume, setVolume] = useState("100");
+
+    const oligo = useMemo(() => parseOligo(sequence), [sequence]);
+
+    const tm = meltingTemperature(oligo, {
+        oligoConc: parseFloat(oligoConc) || 0,
+        sodium: parseFloat(sodium) || 0,
+        magnesium: parseFloat(magnesium) || 0,
+    });
+
+    const value = parseFloat(amount);
+    let amounts: OligoAmounts | null = null;
+    if (!isNaN(value)) {
+        try {
+            amounts = oligoAmounts(value, unit, oligo, parseFloat(volume));
+        } catch {
+            // A concentration without a volume has no amount yet
+        }
+    }
+
+    const rows = amounts ? [
+        { label: "Amount", value: amounts.nmol.toFixed(2), unit: "nmol" },
+        { label: "Mass", value: amounts.ug.toFixed(2), unit: "μg" },
+        { label: "Absorbance", value: amounts.od260.toFixed(2), unit: "OD260" },
+        ...(amounts.ngPerUl !== undefined ? [{ label: "Concentration", value: amounts.ngPerUl.toFixed(1), unit: "ng/μL" }] : []),
+        ...(amounts.uM !== undefined ? [{ label: "Molarity", value: amounts.uM.toFixed(2), unit: "μM" }] : []),
+    ] : [];
+
+    return (
+        <section className="glass-card space-y-6">
+            <div className="flex items-center gap-2">
+                <Thermometer className="h-4 w-4 text-indigo-400" />
+                <h3 className="text-sm font-bold uppercase tracking-widest text-zinc-400">Oligo Properties</h3>
+            </div>
+
+            <div className="space-y-3">
+                <div className="grid grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                        <label className="block text-[10px] font-bold text-zinc-500 uppercase">Oligo (nM)</label>
+                        <NumericInput className="w-full text-sm" value={oligoConc} onChange={(value) => setOligoConc(value)} />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="block text-[10px] font-bold text-zinc-500 uppercase">Na⁺ (mM)</label>
+                        <NumericInput className="w-full text-sm" value={sodium} onChange={(value) => setSodium(value)} />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="block text-[10px] font-bold text-zinc-500 uppercase">Mg²⁺ (mM)</label>
+                        <NumericInput className="w-full text-sm" value={magnesium} onChange={(value) => setMagnesium(value)} />
+                    </div>
+                </div>
+                <div className="flex items-baseline justify-between">
+                    <span className="text-xs text-zinc-500">Melting temperature (nearest neighbour)</span>
+                    <span className="font-mono text-lg font-bold text-white">
+                        {tm === null || !isFinite(tm) ? "—" : `${tm.toFixed(1)} °C`}
+                    </span>
+                </div>
+            </div>
+
+            <div className="space-y-3 border-t border-white/5 pt-4">
+                <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                        <label className="block text-[10px] font-bold text-zinc-500 uppercase">{isConcentration(unit) ? "Concentration" : "Amount"}</label>
+                        <div className="flex gap-2">
+                            <NumericInput className="w-full text-sm" value={amount} onChange={(value) => setAmount(value)} />
+                            <select value={unit} onChange={(e) => setUnit(e.target.value as OligoAmountUnit)} className="w-24 text-xs">
+                                {AMOUNT_UNITS.map((u) => <option key={u} value={u}>{u}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    <div className="space-y-1">
+                        <label className="block text-[10px] font-bold text-zinc-500 uppercase">{isConcentration(unit) ? "Volume (μL)" : "Resuspend In (μL)"}</label>
+                        <NumericInput className="w-full text-sm" value={volume} onChange={(value) => setVolume(value)} />
+                    </div>
+                </div>
+                <table className="w-full text-left text-xs sm:text-sm">
+                    <tbody className="font-mono text-zinc-300">
+                        {rows.map((row) => (
+                            <tr key={row.label} className="border-t border-white/5">
+                                <td className="py-1.5 pr-4 font-sans text-zinc-500">{row.label}</td>
+                                <td className="py-1.5 pr-2 text-right">{row.value}</td>
+                                <td className="py-1.5 w-16 text-zinc-500">{row.unit}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </section>
+    );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Sparkles, CornerDownLeft } from "lucide-react";
+import { useStore } from "@/store/useStore";
+import { Phrase, parseQuantityPhrase } from "@/lib/phrase";
+import { Dimension } from "@/lib/units";
+
+interface QuickEntryProps {
+    placeholder: string;
+    onApply: (phrase: Phrase) => void;
+    concentrations?: Dimension[]; // the kinds of concentration the calculator takes; others show as not used
+}
+
+/** One-line entry for phrases like "500 mL of 2 mM NaCl", previewing how they were read. */
+export function QuickEntry({ placeholder, onApply, concentrations }: QuickEntryProps) {
+    const { numberFormat } = useStore();
+    const [text, setText] = useState("");
+    const phrase = useMemo(
+        () => (text.trim() ? parseQuantityPhrase(text, numberFormat.locale, concentrations) : null),
+        [text, numberFormat.locale, concentrations]
+    );
+    const usable = phrase && phrase.intent !== "unknown";
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!phrase || !usable) return;
+        onApply(phrase);
+        setText("");
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="glass-card !p-3 space-y-2 no-print">
+            <div className="flex items-center gap-3">
+                <Sparkles className="h-4 w-4 shrink-0 text-indigo-400" />
+                <input
+                    type="text"
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    placeholder={placeholder}
+                    className="flex-1 bg-transparent border-none text-sm text-zinc-200 focus:ring-0 placeholder:text-zinc-600 p-0"
+                />
+                <button
+                    type="submit"
+                    disabled={!usable}
+                    title="Fill in the calculator"
+                    className="p-1.5 rounded-lg bg-white/5 text-zinc-400 hover:text-indigo-400 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                >
+                    <CornerDownLeft className="h-3.5 w-3.5" />
+                </button>
+            </div>
+            {phrase && (
+                <div className="flex flex-wrap gap-1.5 pl-7">
+                    {phrase.interpretation.map((line) => (
+                        <span key={line} className="text-[10px] font-mono text-zinc-400 bg-white/5 px-1.5 py-0.5 rounded border border-white/5">
+                            {line}
+                        </span>
+                    ))}
+                    {phrase.ignored.map((q) => (
+                        <span key={q} className="text-[10px] font-mono text-amber-400/80 px-1.5 py-0.5" title="Not used">
+                            {q} ?
+                        </span>
+                    ))}
+                    {!usable && <span className="text-[10px] text-zinc-600 italic">No quantities recognised yet</span>}
+                </div>
+            )}
+        </form>
+    );
+}
@@ -5,6 +5,7 @@ import { DEFAULT_RECIPES, Recipe } from "@/lib/recipes";
 import { X, Book, Trash2, ChevronRight, Info, Plus } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { FormulaBadge } from "./FormulaBadge";
+import { TonicitySummary } from "./TonicitySummary";
 
 export function RecipeLibrary() {
     const {
@@ -95,6 +96,7 @@ export function RecipeLibrary() {
                                             </span>
                                         )}
                                     </div>
+                                    <TonicitySummary solutes={recipe.solutes} recipeName={recipe.name} compact />
                                 </div>
 
                                 <button
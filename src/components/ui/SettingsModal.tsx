@@ -1,8 +1,15 @@
 "use client";
 
+import { useState } from "react";
 import { useStore } from "@/store/useStore";
-import { X, Trash2, Info, ShieldCheck, Database } from "lucide-react";
+import { X, Trash2, Info, ShieldCheck, Database, FlaskConical, Plus, RotateCcw, Atom, Droplet, Hash } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
+import { parseFormula, toHillFormula } from "@/lib/parser";
+import { ATOMIC_WEIGHT_TABLES, AtomicWeightTableId } from "@/lib/atomicWeights";
+import { Notation } from "@/lib/sigfigs";
+import { DEFAULT_LOCALE, NUMBER_LOCALES, localizeNumber } from "@/lib/locale";
+import { FormulaBadge } from "./FormulaBadge";
+import { NumericInput } from "./NumericInput";
 
 export function SettingsModal() {
     const { isSettingsOpen, setIsSettingsOpen, resetStore } = useStore();
@@ -69,6 +76,18 @@ export function SettingsModal() {
                             </div>
                         </section>
 
+                        {/* Section: Number Display */}
+                        <NumberFormatSettings />
+
+                        {/* Section: Atomic Weights */}
+                        <AtomicWeightSettings />
+
+                        {/* Section: Group Abbreviations */}
+                        <GroupAbbreviationSettings />
+
+                        {/* Section: Liquid Densities */}
+                        <LiquidSettings />
+
                         {/* Section: About */}
                         <section>
                             <div className="flex items-center gap-2 mb-4 text-zinc-400">
@@ -107,6 +126,270 @@ export function SettingsModal() {
     );
 }
 
+const NOTATIONS: { id: Notation; label: string; hint: string }[] = [
+    { id: "sigfigs", label: "Significant figures", hint: "Results carry the precision of your inputs: 0.1000 M gives one more digit than 0.1 M." },
+    { id: "fixed", label: "Fixed decimals", hint: "Every result is shown with the same number of decimal places." },
+    { id: "scientific", label: "Scientific", hint: "Results in scientific notation, with your inputs' significant figures when known." },
+];
+
+function NumberFormatSettings() {
+    const { numberFormat, setNumberFormat } = useStore();
+    const current = NOTATIONS.find((n) => n.id === numberFormat.notation) ?? NOTATIONS[0];
+
+    return (
+        <section>
+            <div className="flex items-center gap-2 mb-4 text-zinc-400">
+                <Hash className="h-4 w-4" />
+                <h3 className="text-sm font-bold uppercase tracking-widest">Number Display</h3>
+            </div>
+            <div className="glass-card p-4 sm:p-6 border-white/5 space-y-3">
+                <div className="flex gap-2">
+                    <select
+                        value={numberFormat.notation}
+                        onChange={(e) => setNumberFormat({ notation: e.target.value as Notation })}
+                        className="flex-1 text-sm"
+                    >
+                        {NOTATIONS.map((n) => (
+                            <option key={n.id} value={n.id}>{n.label}</option>
+                        ))}
+                    </select>
+                    {numberFormat.notation !== "sigfigs" && (
+                        <input
+                            type="number"
+                            min="0"
+                            max="10"
+                            title="Decimal places"
+                            value={numberFormat.decimals}
+                            onChange={(e) => setNumberFormat({ decimals: Math.min(Math.max(parseInt(e.target.value) || 0, 0), 10) })}
+                            className="w-20 text-sm"
+                        />
+                    )}
+                </div>
+                <p className="text-[10px] sm:text-xs text-zinc-500 leading-relaxed">{current.hint}</p>
+                <select
+                    value={numberFormat.locale ?? DEFAULT_LOCALE}
+                    onChange={(e) => setNumberFormat({ locale: e.target.value })}
+                    className="w-full text-sm"
+                >
+                    {NUMBER_LOCALES.map((l) => (
+                        <option key={l.id} value={l.id}>{l.label} · {localizeNumber("12345.6", l.id)}</option>
+                    ))}
+                </select>
+                <p className="text-[10px] sm:text-xs text-zinc-500 leading-relaxed">
+                    Separators for results and number fields. Fields also accept 0,5 or 0.5, 2.5e-3 and SI prefixes such as 250 µ.
+                </p>
+            </div>
+        </section>
+    );
+}
+
+function AtomicWeightSettings() {
+    const { atomicWeightTable, setAtomicWeightTable } = useStore();
+
+    return (
+        <section>
+            <div className="flex items-center gap-2 mb-4 text-zinc-400">
+                <Atom className="h-4 w-4" />
+                <h3 className="text-sm font-bold uppercase tracking-widest">Atomic Weights</h3>
+            </div>
+            <div className="glass-card p-4 sm:p-6 border-white/5 space-y-3">
+                <select
+                    value={atomicWeightTable}
+                    onChange={(e) => setAtomicWeightTable(e.target.value as AtomicWeightTableId)}
+                    className="w-full text-sm"
+                >
+                    {Object.values(ATOMIC_WEIGHT_TABLES).map((table) => (
+                        <option key={table.id} value={table.id}>{table.name}</option>
+                    ))}
+                </select>
+                <p className="text-[10px] sm:text-xs text-zinc-500 leading-relaxed">
+                    {ATOMIC_WEIGHT_TABLES[atomicWeightTable].reference}. MW uncertainties are propagated from the tabulated
+                    uncertainties; interval weights use their midpoint. The table is recorded with every result.
+                </p>
+            </div>
+        </section>
+    );
+}
+
+function GroupAbbreviationSettings() {
+    const { groupAbbreviations, setGroupAbbreviation, removeGroupAbbreviation, resetGroupAbbreviations } = useStore();
+    const [name, setName] = useState("");
+    const [formula, setFormula] = useState("");
+    const [error, setError] = useState<string | null>(null);
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const key = name.trim();
+        const value = formula.trim();
+
+        // Names must contain a capital letter so the tokenizer can find them, and no digits (those are counts)
+        if (!/^[a-z]*[A-Z][A-Za-z]*$/.test(key)) {
+            setError("Names are letters only and need a capital, e.g. Ph or tBu.");
+            return;
+        }
+        try {
+            // Groups expand to plain formulas; they can't reference other groups
+            parseFormula(value, {});
+        } catch (err) {
+            setError((err as Error).message);
+            return;
+        }
+
+        setGroupAbbreviation(key, value);
+        setName("");
+        setFormula("");
+        setError(null);
+    };
+
+    return (
+        <section>
+            <div className="flex items-center justify-between mb-4 text-zinc-400">
+                <div className="flex items-center gap-2">
+                    <FlaskConical className="h-4 w-4" />
+                    <h3 className="text-sm font-bold uppercase tracking-widest">Group Abbreviations</h3>
+                </div>
+                <button
+                    onClick={resetGroupAbbreviations}
+                    title="Restore default abbreviations"
+                    className="p-1.5 rounded-lg hover:bg-white/5 text-zinc-500 hover:text-indigo-400 transition-colors"
+                >
+                    <RotateCcw className="h-4 w-4" />
+                </button>
+            </div>
+            <div className="glass-card p-4 sm:p-6 border-white/5 space-y-4">
+                <p className="text-[10px] sm:text-xs text-zinc-500 leading-relaxed">
+                    Expanded in formulas such as PhCOOMe or Boc-NH2. Abbreviations take precedence over element symbols.
+                </p>
+                <div className="max-h-48 overflow-y-auto contents-scrollbar divide-y divide-white/5">
+                    {Object.entries(groupAbbreviations).map(([key, value]) => (
+                        <div key={key} className="flex items-center justify-between gap-3 py-1.5 text-sm">
+                            <span className="font-mono font-bold text-zinc-200 w-16">{key}</span>
+                            <FormulaBadge formula={toHillFormula(parseFormula(value, {}))} className="text-xs px-2 py-0" />
+                            <button
+                                onClick={() => removeGroupAbbreviation(key)}
+                                title={`Remove ${key}`}
+                                className="ml-auto p-1 text-zinc-600 hover:text-red-400 transition-colors"
+                            >
+                                <X className="h-3.5 w-3.5" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <form onSubmit={handleAdd} className="flex gap-2">
+                    <input
+                        type="text"
+                        placeholder="Name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="w-24 text-sm"
+                    />
+                    <input
+                        type="text"
+                        placeholder="Formula, e.g. C6H5"
+                        value={formula}
+                        onChange={(e) => setFormula(e.target.value)}
+                        className="flex-1 text-sm"
+                    />
+                    <button type="submit" title="Add or update abbreviation" className="shrink-0 p-2 rounded-lg bg-indigo-500/10 text-indigo-400 border border-indigo-500/20 hover:bg-indigo-500/20 transition-all">
+                        <Plus className="h-4 w-4" />
+                    </button>
+                </form>
+                {error && <p className="text-xs text-red-400">{error}</p>}
+            </div>
+        </section>
+    );
+}
+
+function LiquidSettings() {
+    const { liquids, setLiquid, removeLiquid, resetLiquids } = useStore();
+    const [name, setName] = useState("");
+    const [formula, setFormula] = useState("");
+    const [density, setDensity] = useState("");
+    const [assay, setAssay] = useState("100");
+    const [error, setError] = useState<string | null>(null);
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const key = name.trim();
+        const value = formula.trim();
+        const rho = parseFloat(density);
+        const pct = parseFloat(assay);
+
+        if (!key) {
+            setError("Give the liquid a name.");
+            return;
+        }
+        if (!(rho > 0) || !(pct > 0 && pct <= 100)) {
+            setError("Density must be positive and the assay between 0 and 100% w/w.");
+            return;
+        }
+        if (value) {
+            try {
+                parseFormula(value, {});
+            } catch (err) {
+                setError((err as Error).message);
+                return;
+            }
+        }
+
+        setLiquid({ name: key, density: rho, assay: pct, ...(value && { formula: value }) });
+        setName("");
+        setFormula("");
+        setDensity("");
+        setAssay("100");
+        setError(null);
+    };
+
+    return (
+        <section>
+            <div className="flex items-center justify-between mb-4 text-zinc-400">
+                <div className="flex items-center gap-2">
+                    <Droplet className="h-4 w-4" />
+                    <h3 className="text-sm font-bold uppercase tracking-widest">Liquid Densities</h3>
+                </div>
+                <button
+                    onClick={resetLiquids}
+                    title="Restore default densities"
+                    className="p-1.5 rounded-lg hover:bg-white/5 text-zinc-500 hover:text-indigo-400 transition-colors"
+                >
+                    <RotateCcw className="h-4 w-4" />
+                </button>
+            </div>
+            <div className="glass-card p-4 sm:p-6 border-white/5 space-y-4">
+                <p className="text-[10px] sm:text-xs text-zinc-500 leading-relaxed">
+                    Used to pipette liquid solutes and % w/w stocks by volume. Check the bottle: densities and assays vary by grade.
+                </p>
+                <div className="max-h-48 overflow-y-auto contents-scrollbar divide-y divide-white/5">
+                    {liquids.map((liquid) => (
+                        <div key={liquid.name} className="flex items-center justify-between gap-3 py-1.5 text-sm">
+                            <span className="font-bold text-zinc-200 flex-1 truncate">{liquid.name}</span>
+                            <span className="font-mono text-xs text-zinc-400">{liquid.density} g/mL</span>
+                            <span className="font-mono text-xs text-zinc-500 w-12 text-right">{liquid.assay}%</span>
+                            <button
+                                onClick={() => removeLiquid(liquid.name)}
+                                title={`Remove ${liquid.name}`}
+                                className="p-1 text-zinc-600 hover:text-red-400 transition-colors"
+                            >
+                                <X className="h-3.5 w-3.5" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <form onSubmit={handleAdd} className="grid grid-cols-2 sm:grid-cols-[1fr_1fr_4.5rem_4rem_auto] gap-2">
+                    <input type="text" placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} className="text-sm" />
+                    <input type="text" placeholder="Formula" value={formula} onChange={(e) => setFormula(e.target.value)} className="text-sm" />
+                    <NumericInput placeholder="g/mL" value={density} onChange={(value) => setDensity(value)} className="text-sm" />
+                    <NumericInput placeholder="% w/w" value={assay} onChange={(value) => setAssay(value)} className="text-sm" />
+                    <button type="submit" title="Add or update liquid" className="shrink-0 p-2 rounded-lg bg-indigo-500/10 text-indigo-400 border border-indigo-500/20 hover:bg-indigo-500/20 transition-all">
+                        <Plus className="h-4 w-4" />
+                    </button>
+                </form>
+                {error && <p className="text-xs text-red-400">{error}</p>}
+            </div>
+        </section>
+    );
+}
+
 function SettingsIcon({ className }: { className?: string }) {
     return (
         <div className={className}>
@@ -0,0 +1,76 @@
+"use client";
+
+import { useMemo } from "react";
+import { AlertTriangle, Activity } from "lucide-react";
+import { useStore } from "@/store/useStore";
+import { RecipeSolute } from "@/lib/recipes";
+import { PHYSIOLOGICAL_OSMOLARITY, recipeTonicity, workingTonicity } from "@/lib/osmolarity";
+
+interface TonicitySummaryProps {
+    solutes: RecipeSolute[];
+    recipeName?: string | null; // read for a concentration factor, e.g. "(10X)"
+    compact?: boolean; // one line, for recipe cards
+}
+
+const RANGE = `${PHYSIOLOGICAL_OSMOLARITY.min * 1000}–${PHYSIOLOGICAL_OSMOLARITY.max * 1000} mOsm/L`;
+
+/** Total osmolarity and ionic strength of a recipe, warning when its 1X strength isn't physiological. */
+export function TonicitySummary({ solutes, recipeName, compact = false }: TonicitySummaryProps) {
+    const { groupAbbreviations } = useStore();
+    const tonicity = useMemo(() => recipeTonicity(solutes, groupAbbreviations), [solutes, groupAbbreviations]);
+    if (!tonicity.solutes.length) return null;
+
+    const working = workingTonicity(tonicity, recipeName);
+    const outside = working.status !== "isotonic";
+    const mOsm = (osm: number) => (osm * 1000).toFixed(0);
+    const mM = (m: number) => (m * 1000).toFixed(0);
+
+    if (compact) {
+        return (
+            <p className={`text-[10px] font-mono mb-4 ${outside ? "text-amber-400/80" : "text-zinc-500"}`} title={outside ? `${working.status} at 1X (${RANGE})` : undefined}>
+                {mOsm(working.osmolarity)} mOsm/L · I {mM(working.ionicStrength)} mM{working.factor !== 1 && " at 1X"}
+            </p>
+        );
+    }
+
+    const assumed = tonicity.solutes.filter((s) => s.source === "assumed").map((s) => s.name);
+
+    return (
+        <section className="glass-card space-y-3">
+            <div className="flex items-center gap-2">
+                <Activity className="h-4 w-4 text-indigo-400" />
+                <h3 className="text-sm font-bold uppercase tracking-widest text-zinc-400">Tonicity</h3>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <p className="text-[10px] font-bold text-zinc-500 uppercase">Osmolarity</p>
+                    <p className="font-mono text-lg text-white">{mOsm(tonicity.osmolarity)} <span className="text-xs text-zinc-500">mOsm/L</span></p>
+                </div>
+                <div>
+                    <p className="text-[10px] font-bold text-zinc-500 uppercase">Ionic Strength</p>
+                    <p className="font-mono text-lg text-white">{mM(tonicity.ionicStrength)} <span className="text-xs text-zinc-500">mM</span></p>
+                </div>
+            </div>
+            {working.factor !== 1 && (
+                <p className="text-xs text-zinc-500">
+                    At 1X ({working.factor}-fold dilution): <span className="font-mono text-zinc-300">{mOsm(working.osmolarity)} mOsm/L</span>, I <span className="font-mono text-zinc-300">{mM(working.ionicStrength)} mM</span>
+                </p>
+            )}
+            {outside && (
+                <div className="flex items-start gap-2 p-3 rounded-xl bg-amber-500/10 border border-amber-500/20 text-xs text-amber-300">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    <span>
+                        {working.status === "hypotonic" ? "Hypotonic" : "Hypertonic"} at 1X: {mOsm(working.osmolarity)} mOsm/L is outside the physiological {RANGE}.
+                    </span>
+                </div>
+            )}
+            {(assumed.length > 0 || tonicity.skipped.length > 0) && (
+                <p className="text-[10px] text-zinc-600">
+                    {assumed.length > 0 && <>Counted as one particle (no ions recognised): {assumed.join(", ")}. </>}
+                    {tonicity.skipped.length > 0 && <>Not included: {tonicity.skipped.map((s) => `${s.name} (${s.reason})`).join(", ")}.</>}
+                </p>
+            )}
+            <p className="text-[10px] text-zinc-600">Ideal solution: salts fully dissociated, osmotic coefficient 1.</p>
+        </section>
+    );
+}
@@ -0,0 +1,20 @@
+import { Dimension, unitsOf } from "@/lib/units";
+
+interface UnitOptionsProps {
+    dimensions: Dimension[];
+    className?: string; // applied to each <option>
+    short?: boolean; // compact labels, e.g. % instead of % (w/v)
+}
+
+/** <option>s for a unit <select>, straight from the unit registry. */
+export function UnitOptions({ dimensions, className, short = false }: UnitOptionsProps) {
+    return (
+        <>
+            {unitsOf(...dimensions).map((u) => (
+                <option key={u.id} value={u.id} className={className}>
+                    {short ? u.label : u.option ?? u.label}
+                </option>
+            ))}
+        </>
+    );
+}
@@ -0,0 +1,23 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ATOMIC_WEIGHT_TABLES } from "../atomicWeights";
+import { calculateMw, calculateMwUncertainty, parseFormula } from "../parser";
+
+const abridged = ATOMIC_WEIGHT_TABLES["iupac-2021-abridged"];
+const standard = ATOMIC_WEIGHT_TABLES["iupac-2021-standard"];
+const close = (actual: number, expected: number, tolerance = 1e-9) =>
+    assert.ok(Math.abs(actual - expected) < tolerance, `${actual} ≠ ${expected}`);
+
+test("reads tabulated weights and their uncertainties", () => {
+    assert.deepEqual(abridged.weights.C, { value: 12.011, uncertainty: 0.002 });
+    assert.deepEqual(abridged.weights.Pb, { value: 207.2, uncertainty: 1.1 });
+    close(standard.weights.C.value, 12.0106);
+    close(standard.weights.C.uncertainty, 0.002 / (2 * Math.sqrt(3)));
+});
+
+test("gives the MW and its uncertainty from a table", () => {
+    const water = parseFormula("H2O");
+    close(calculateMw(water, abridged), 18.015);
+    close(calculateMwUncertainty(water, abridged), Math.sqrt(0.0004 ** 2 + 0.001 ** 2));
+    assert.equal(calculateMwUncertainty(parseFormula("D2O"), abridged), 0.001);
+});
@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BatchLot, calculateBatchMw, compoundKey } from "../batch";
+import { calculateMw, parseFormula } from "../parser";
+
+const lot = (fields: Partial<BatchLot>): BatchLot => ({
+    id: "1", lot: "A1", purity: "", water: "", solvent: "", counterIon: "", counterIonEquivalents: "", ...fields,
+});
+
+test("keys lots by Hill formula", () => {
+    assert.equal(compoundKey("CH3COOH"), "C2H4O2");
+    assert.equal(compoundKey(" peptide 7 "), "peptide 7");
+});
+
+test("leaves a blank lot at the parent MW", () => {
+    assert.equal(calculateBatchMw(500, lot({})).mw, 500);
+});
+
+test("adds counter-ions and corrects for water and purity", () => {
+    const tfa = calculateMw(parseFormula("C2HF3O2"));
+    const batch = calculateBatchMw(1000, lot({ counterIon: "TFA", counterIonEquivalents: "2", purity: "95", water: "5" }));
+    assert.ok(Math.abs(batch.saltMw - (1000 + 2 * tfa)) < 1e-9);
+    assert.ok(Math.abs(batch.content - 0.9025) < 1e-9);
+    assert.ok(Math.abs(batch.mw - batch.saltMw / 0.9025) < 1e-9);
+});
+
+test("rejects impossible certificates", () => {
+    assert.throws(() => calculateBatchMw(100, lot({ purity: "120" })), /Purity/);
+    assert.throws(() => calculateBatchMw(100, lot({ water: "60", solvent: "40" })), /100%/);
+});
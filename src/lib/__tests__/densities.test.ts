@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findLiquid, liquidVolume } from "../densities";
+
+test("finds liquids by name or formula", () => {
+    assert.equal(findLiquid("Hydrochloric acid")?.density, 1.19);
+    assert.equal(findLiquid("hydrochloric acid 37%")?.assay, 37);
+    assert.equal(findLiquid("C2H6O")?.name, "Ethanol");
+    assert.equal(findLiquid(""), undefined);
+    assert.equal(findLiquid("NaCl"), undefined);
+});
+
+test("gives the volume holding a mass of compound", () => {
+    // 36.46 g of HCl from 37% acid at 1.19 g/mL
+    assert.ok(Math.abs(liquidVolume(36.46, 1.19, 37) - 0.08281) < 1e-5);
+    assert.ok(Math.abs(liquidVolume(78.9, 0.789) - 0.1) < 1e-12);
+});
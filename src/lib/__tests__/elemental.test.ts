@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { empiricalComposition, formulasFromPercentages, massPercentages } from "../elemental";
+import { parseFormula } from "../parser";
+
+test("gives mass percentages", () => {
+    const shares = Object.fromEntries(massPercentages(parseFormula("H2O")).map((s) => [s.atom, s.percent]));
+    assert.ok(Math.abs(shares.O - 88.81) < 0.01);
+});
+
+test("reduces a composition to its empirical formula", () => {
+    assert.deepEqual(empiricalComposition(parseFormula("C6H12O6")), { C: 1, H: 2, O: 1 });
+});
+
+test("finds formulas matching a CHN analysis", () => {
+    const [best] = formulasFromPercentages({ C: 68.85, H: 4.95 });
+    assert.equal(best.empiricalFormula, "C7H6O2");
+    assert.ok(best.error < 0.01);
+});
+
+test("ranks the simplest of equally good formulas first", () => {
+    assert.equal(formulasFromPercentages({ C: 40.0, H: 6.71 })[0].formula, "CH2O");
+    assert.equal(formulasFromPercentages({ C: 68.85, H: 4.95 })[0].formula, "C7H6O2");
+});
+
+test("rejects percentages over 100", () => {
+    assert.throws(() => formulasFromPercentages({ C: 80, H: 30 }));
+});
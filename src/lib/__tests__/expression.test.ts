@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateExpression, looksLikeExpression } from "../expression";
+import { FormulaParseError, parseFormula } from "../parser";
+
+const history: Record<string, string> = { ligand: "C10H12N2O" };
+const resolve = (name: string) => (history[name] ? parseFormula(history[name]) : null);
+
+test("tells arithmetic from charged formulas", () => {
+    assert.ok(looksLikeExpression("C6H12O6 + C6H12O6 − H2O"));
+    assert.ok(looksLikeExpression('"ligand" − 2HCl'));
+    for (const formula of ["NH4+", "Boc-NH2", "C6H12O6 [M+Na]+"]) assert.ok(!looksLikeExpression(formula), formula);
+});
+
+test("adds, subtracts and multiplies terms", () => {
+    assert.deepEqual(evaluateExpression("C6H12O6 + C6H12O6 − H2O", resolve), parseFormula("C12H22O11"));
+    assert.deepEqual(evaluateExpression("2×H2O - H2", resolve), parseFormula("H2O2"));
+});
+
+test("resolves named results, with salts attached", () => {
+    assert.deepEqual(evaluateExpression('"ligand" + H2O', resolve), parseFormula("C10H14N2O2"));
+    assert.deepEqual(evaluateExpression("ligand·2HCl - 2HCl", resolve), parseFormula("C10H12N2O"));
+});
+
+test("rejects negative counts and points parse errors into the expression", () => {
+    assert.throws(() => evaluateExpression("H2O - O2", resolve), /removes more O/);
+    assert.throws(() => evaluateExpression("H2O + NaCL", resolve), (err) => err instanceof FormulaParseError && err.offset === 9);
+});
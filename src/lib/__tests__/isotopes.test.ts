@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mergePeaks, peakLabel, simulateIsotopePattern } from "../isotopes";
+import { parseFormula } from "../parser";
+
+const abundanceAt = (peaks: { offset: number; abundance: number }[], offset: number) =>
+    peaks.find((p) => p.offset === offset)?.abundance ?? 0;
+
+test("gives the chlorine isotope pattern", () => {
+    const peaks = simulateIsotopePattern(parseFormula("Cl2"));
+    assert.equal(abundanceAt(peaks, 0), 100);
+    assert.ok(Math.abs(abundanceAt(peaks, 2) - 64.0) < 0.5);
+    assert.ok(Math.abs(abundanceAt(peaks, 4) - 10.2) < 0.5);
+});
+
+test("merges fine structure an instrument can't resolve", () => {
+    const fine = simulateIsotopePattern(parseFormula("C6H12O6"));
+    const merged = mergePeaks(fine, 1000);
+    assert.ok(fine.length > merged.length);
+    assert.ok(Math.abs(abundanceAt(merged, 1) - 6.8) < 0.3);
+});
+
+test("bins protein-sized patterns coarsely", () => {
+    const peaks = simulateIsotopePattern(parseFormula("C2934H4615N781O898S39"));
+    assert.ok(peaks.length < 1000, `${peaks.length} peaks`);
+    const top = mergePeaks(peaks, 60000).reduce((a, b) => (b.abundance > a.abundance ? b : a));
+    assert.ok(top.offset >= 40 && top.offset <= 43, `${top.offset}`);
+});
+
+test("reports charged species as m/z", () => {
+    const [mono] = simulateIsotopePattern(parseFormula("C6H12O6 [M+2H]2+"));
+    assert.ok(Math.abs(mono.mass - 91.0390) < 1e-3);
+});
+
+test("labels peaks by nominal offset", () => {
+    assert.deepEqual([0, 2, -1].map(peakLabel), ["M", "M+2", "M-1"]);
+});
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { localizeNumber, normalizeNumber, parseNumber } from "../locale";
+
+test("normalizes decimals and thousands separators", () => {
+    assert.equal(normalizeNumber("0,500", "de-DE"), "0.500");
+    assert.equal(normalizeNumber("1.234,5", "de-DE"), "1234.5");
+    assert.equal(normalizeNumber("1.234", "de-DE"), "1234");
+    assert.equal(normalizeNumber("1.234", "en-US"), "1.234");
+    assert.equal(normalizeNumber("1,000", "en-US"), "1000");
+    assert.equal(normalizeNumber("1.234.567", "de-DE"), "1234567");
+});
+
+test("normalizes scientific notation and SI prefixes", () => {
+    assert.equal(normalizeNumber("2,5×10^-3", "de-DE"), "2.5e-3");
+    assert.equal(normalizeNumber("2.5e-3"), "2.5e-3");
+    assert.equal(normalizeNumber("250 µ"), "250e-6");
+    assert.equal(parseNumber("1.5 k"), 1500);
+});
+
+test("rejects text that isn't a number", () => {
+    assert.equal(normalizeNumber(""), "");
+    assert.equal(normalizeNumber("abc"), null);
+    assert.equal(normalizeNumber("1,2,3"), null);
+    assert.equal(normalizeNumber("1e2e3"), null);
+    assert.ok(Number.isNaN(parseNumber("x")));
+});
+
+test("localizes with the locale's separators", () => {
+    assert.equal(localizeNumber("12345.6", "de-DE"), "12.345,6");
+    assert.equal(localizeNumber("0.5", "fr-FR", false), "0,5");
+    assert.equal(localizeNumber("1.20e-3", "en-US"), "1.20e-3");
+});
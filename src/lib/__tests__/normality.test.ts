@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { suggestEquivalents } from "../normality";
+
+const equivalents = (formula: string, basis?: "acid" | "base" | "redox") => suggestEquivalents(formula, undefined, basis)?.equivalents ?? null;
+
+test("counts acidic protons", () => {
+    assert.equal(equivalents("HCl"), 1);
+    assert.equal(equivalents("H2SO4"), 2);
+    assert.equal(equivalents("H3PO4"), 3);
+    assert.equal(equivalents("CH3COOH"), 1);
+});
+
+test("counts hydroxides and accepted protons", () => {
+    assert.equal(equivalents("NaOH"), 1);
+    assert.equal(equivalents("Ca(OH)2"), 2);
+    assert.equal(equivalents("NH3"), 1);
+    assert.equal(equivalents("C2H5OH"), null);
+});
+
+test("counts electrons for redox titrants", () => {
+    assert.equal(equivalents("KMnO4"), 5);
+    assert.equal(equivalents("H2O2"), 2);
+    assert.equal(suggestEquivalents("H2C2O4")?.basis, "acid");
+    assert.equal(equivalents("H2C2O4", "redox"), 2);
+});
+
+test("leaves salts and bad input to the user", () => {
+    assert.equal(equivalents("NaCl"), null);
+    assert.equal(equivalents("(NH4)2SO4"), null);
+    assert.equal(equivalents("H2O("), null);
+});
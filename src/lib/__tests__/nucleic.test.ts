@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { meltingTemperature, oligoAmounts, parseOligo } from "../nucleic";
+
+const oligo = parseOligo("ACGTACGTACGTACGTACGT");
+
+test("builds DNA and RNA oligos", () => {
+    const dna = parseOligo("5'-ACGT-3'");
+    assert.equal(dna.type, "DNA");
+    assert.ok(Math.abs(dna.mw - 1173.8) < 0.1);
+    assert.equal(dna.gcContent, 50);
+    assert.equal(parseOligo("ACGU").type, "RNA");
+    assert.equal(parseOligo("AC*GT").composition.S, 1);
+});
+
+test("gives the extinction coefficient and Tm", () => {
+    assert.equal(oligo.extinctionCoefficient, 198700);
+    const tm = meltingTemperature(oligo)!;
+    assert.ok(tm > 50 && tm < 62, `${tm}`);
+    assert.equal(meltingTemperature(parseOligo("A")), null);
+});
+
+test("converts amounts and reports the concentration", () => {
+    const amounts = oligoAmounts(10, "nmol", oligo, 100);
+    assert.equal(amounts.uM, 100);
+    assert.ok(Math.abs(amounts.od260 - 1.987) < 1e-9);
+    assert.ok(Math.abs(oligoAmounts(amounts.ug, "μg", oligo).nmol - 10) < 1e-9);
+});
+
+test("converts concentrations back to amounts with the volume", () => {
+    const { ngPerUl, uM } = oligoAmounts(10, "nmol", oligo, 100);
+    assert.ok(Math.abs(oligoAmounts(ngPerUl!, "ng/μL", oligo, 100).nmol - 10) < 1e-9);
+    assert.ok(Math.abs(oligoAmounts(uM!, "μM", oligo, 100).nmol - 10) < 1e-9);
+    assert.throws(() => oligoAmounts(50, "ng/μL", oligo), /volume/);
+});
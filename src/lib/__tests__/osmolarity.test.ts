@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { dissociate, recipeTonicity, soluteTonicity, workingTonicity } from "../osmolarity";
+import { DEFAULT_RECIPES } from "../recipes";
+
+const particles = (formula: string) => dissociate(formula)?.reduce((n, ion) => n + ion.count, 0) ?? null;
+
+test("dissociates salts and strong acids into ions", () => {
+    assert.equal(particles("NaCl"), 2);
+    assert.equal(particles("Na2HPO4"), 3);
+    assert.equal(particles("MgCl2·6H2O"), 3);
+    assert.equal(particles("(NH4)2SO4"), 3);
+    assert.equal(particles("Ca(NO3)2"), 3);
+    assert.equal(particles("H2SO4"), 3);
+    assert.deepEqual(dissociate("MgCl2")?.map((ion) => ion.charge), [2, -1]);
+});
+
+test("dissociates sodium salts of organic acids", () => {
+    assert.equal(particles("Na3C6H5O7"), 4);
+    assert.equal(particles("CH3COONa"), 2);
+});
+
+test("dissociates Hill formulas from PubChem", () => {
+    assert.equal(particles("Cl2Mg"), 3);
+    assert.equal(particles("HNa2O4P"), 3);
+    assert.equal(particles("H2KO4P"), 2);
+    assert.equal(particles("C6H5Na3O7"), 4);
+    assert.equal(particles("C2H3NaO2"), 2);
+    assert.equal(particles("H8N2O4S"), 3);
+    assert.equal(particles("ClH"), 2);
+
+    const magnesium = soluteTonicity({ name: "magnesium chloride", formula: "Cl2Mg", mw: "95.21", conc: "1", unit: "mM" });
+    assert.deepEqual([magnesium.vantHoff, magnesium.source], [3, "formula"]);
+    assert.ok(Math.abs(magnesium.ionicStrength - 0.003) < 1e-12, `${magnesium.ionicStrength}`);
+});
+
+test("reports solutes without ions as assumed", () => {
+    const glucose = soluteTonicity({ name: "glucose", formula: "C6H12O6", mw: "180.16", conc: "1", unit: "mM" });
+    assert.deepEqual([glucose.vantHoff, glucose.source, glucose.ions], [1, "assumed", null]);
+});
+
+test("leaves non-electrolytes whole", () => {
+    assert.equal(dissociate("C6H12O6"), null);
+    assert.equal(dissociate("C4H11NO3"), null); // Tris
+    assert.equal(dissociate("C2H4O2"), null); // acetic acid
+});
+
+test("puts 10X PBS at 313 mOsm once diluted", () => {
+    const pbs = DEFAULT_RECIPES.find((r) => r.name === "PBS (10X)")!;
+    const working = workingTonicity(recipeTonicity(pbs.solutes), pbs.name);
+    assert.equal(working.factor, 10);
+    assert.ok(Math.abs(working.osmolarity - 0.313) < 1e-3, `${working.osmolarity}`);
+    assert.equal(working.status, "isotonic");
+});
+
+test("skips solutes that can't be read as molar", () => {
+    const tonicity = recipeTonicity([{ name: "BSA", mw: "", conc: "1", unit: "g/L" }]);
+    assert.deepEqual(tonicity.skipped.map((s) => s.name), ["BSA"]);
+});
@@ -0,0 +1,127 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+    FormulaParseError, calculateMasses, calculateMw, canonicalFormula, formatCharge, formatVolume,
+    formulasEquivalent, parseFormula, splitCharge, splitHydrate,
+} from "../parser";
+
+const parseError = (formula: string): FormulaParseError => {
+    try {
+        parseFormula(formula);
+    } catch (err) {
+        assert.ok(err instanceof FormulaParseError, `${formula} threw ${err}`);
+        return err;
+    }
+    assert.fail(`${formula} parsed`);
+};
+
+test("parses plain, grouped and hydrated formulas", () => {
+    assert.ok(Math.abs(calculateMw(parseFormula("H2O")) - 18.015) < 0.01);
+    assert.deepEqual(parseFormula("Ca(OH)2"), parseFormula("CaO2H2"));
+    assert.deepEqual(parseFormula("K4[Fe(CN)6]"), parseFormula("K4FeC6N6"));
+    assert.deepEqual(parseFormula("CuSO4·5H2O"), parseFormula("CuSO9H10"));
+});
+
+test("rejects unknown elements and unbalanced groups", () => {
+    assert.throws(() => parseFormula("Xq2"));
+    assert.throws(() => parseFormula("Ca(OH2"));
+});
+
+test("formats volumes in the nearest unit", () => {
+    assert.equal(formatVolume(0.25), "250 mL");
+    assert.equal(formatVolume(5e-6), "5 μL");
+});
+
+test("parses isotope labels", () => {
+    assert.deepEqual(parseFormula("D2O"), { "[2H]": 2, O: 1 });
+    assert.deepEqual(parseFormula("[13C]O2"), parseFormula("¹³CO2"));
+    assert.throws(() => parseFormula("[99C]O2"), /Unknown isotope/);
+});
+
+test("gives monoisotopic and nominal masses", () => {
+    const water = calculateMasses(parseFormula("H2O"));
+    assert.ok(Math.abs(water.monoisotopic - 18.0106) < 1e-4);
+    assert.equal(water.nominal, 18);
+    assert.ok(Math.abs(calculateMasses(parseFormula("D2O")).monoisotopic - 20.0231) < 1e-4);
+});
+
+test("reads charges in the usual notations", () => {
+    for (const ion of ["SO4^2-", "SO4^-2", "SO4 2-", "SO4--"]) {
+        assert.deepEqual(splitCharge(ion), { body: "SO4", charge: -2 }, ion);
+    }
+    assert.equal(parseFormula("NH4+").charge, 1);
+    assert.equal(formatCharge(-2), "2−");
+});
+
+test("parses ESI adducts", () => {
+    assert.deepEqual(parseFormula("C6H12O6 [M+Na]+"), { C: 6, H: 12, O: 6, Na: 1, charge: 1 });
+    assert.deepEqual(parseFormula("C6H12O6 [2M+H]+"), { C: 12, H: 25, O: 12, charge: 1 });
+    assert.throws(() => parseFormula("[M+H]+"));
+});
+
+test("expands group abbreviations", () => {
+    assert.deepEqual(parseFormula("Ph2O"), parseFormula("C12H10O"));
+    assert.deepEqual(parseFormula("Boc-NH2"), parseFormula("C5H11NO2"));
+    assert.deepEqual(parseFormula("Xy2", { Xy: "CH3" }), parseFormula("C2H6"));
+});
+
+test("reads dashes between groups as bonds", () => {
+    assert.deepEqual(parseFormula("CH3-CH2-OH"), parseFormula("C2H6O"));
+    assert.deepEqual(parseFormula("Et-O-Et"), parseFormula("C4H10O"));
+});
+
+test("parses fractional counts and hydrates", () => {
+    assert.deepEqual(parseFormula("Li0.5CoO2"), { Li: 0.5, Co: 1, O: 2 });
+    assert.deepEqual(parseFormula("CaSO4·0.5H2O"), { Ca: 1, S: 1, O: 4.5, H: 1 });
+    assert.deepEqual(parseFormula("(Mg0.7Fe0.3)2SiO4"), { Mg: 1.4, Fe: 0.6, Si: 1, O: 4 });
+    assert.deepEqual(parseFormula("Fe2.5O4"), { Fe: 2.5, O: 4 });
+    assert.deepEqual(parseFormula("Li1.2Mn0.54Ni0.13Co0.13O2"), { Li: 1.2, Mn: 0.54, Ni: 0.13, Co: 0.13, O: 2 });
+});
+
+test("splits hydrates on a period unless it's a decimal point", () => {
+    assert.deepEqual(splitHydrate("CuSO4.5H2O"), ["CuSO4", "5H2O"]);
+    assert.deepEqual(splitHydrate("CaSO4.0.5H2O"), ["CaSO4", "0.5H2O"]);
+    assert.deepEqual(splitHydrate("Na2CO3·1.5H2O2"), ["Na2CO3", "1.5H2O2"]);
+    assert.deepEqual(splitHydrate("Fe2.5O4"), ["Fe2.5O4"]);
+
+    const ambiguous = parseError("Fe2.5.3O4");
+    assert.deepEqual([ambiguous.kind, ambiguous.offset], ["bad_token", 5]);
+});
+
+test("locates errors and suggests fixes", () => {
+    const miscased = parseError("NaCL");
+    assert.deepEqual([miscased.kind, miscased.offset], ["unknown_element", 3]);
+    assert.deepEqual(miscased.suggestions, ["NaCl"]);
+
+    const unclosed = parseError("Ca(OH2");
+    assert.deepEqual([unclosed.kind, unclosed.offset], ["unbalanced_bracket", 2]);
+    assert.equal(unclosed.suggestions[0], "Ca(OH)2");
+
+    assert.deepEqual(parseError("H2O$").suggestions, ["H2O"]);
+    assert.deepEqual(parseError("Xq2").suggestions, []);
+});
+
+test("writes formulas in Hill order", () => {
+    assert.equal(canonicalFormula("CH3CH2OH"), "C2H6O");
+    assert.equal(canonicalFormula("NaCl"), "ClNa");
+    assert.equal(canonicalFormula("SO4^2-"), "O4S^2-");
+    assert.ok(formulasEquivalent("C2H5OH", "CH3OCH3"));
+    assert.ok(!formulasEquivalent("H2O", "H2O("));
+});
+
+test("rejects a dash that would drop the number after it", () => {
+    assert.equal(parseError("SO4-2").offset, 3);
+    assert.equal(parseError("Fe(CN)6-4").offset, 7);
+    assert.equal(parseError("H2O-5").offset, 3);
+    assert.equal(parseFormula("CH3-").charge, -1);
+});
+
+test("reports adduct errors at the adduct bracket", () => {
+    const bare = parseError("[M+H]+");
+    assert.equal(bare.kind, "bad_adduct");
+    assert.deepEqual([bare.offset, bare.length], [0, 5]);
+
+    const removal = parseError("CH4 [M-Na]+");
+    assert.equal(removal.kind, "bad_adduct");
+    assert.deepEqual([removal.offset, removal.length], [4, 6]);
+});
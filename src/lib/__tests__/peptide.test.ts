@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parsePeptide } from "../peptide";
+
+test("builds the formula from one- or three-letter code", () => {
+    const dipeptide = parsePeptide("GA");
+    assert.equal(dipeptide.formula, "C5H10N2O3");
+    assert.ok(Math.abs(dipeptide.mw - 146.15) < 0.01);
+    assert.equal(parsePeptide("Gly-Ala").formula, dipeptide.formula);
+    assert.equal(parsePeptide(">sp|test\nGA\nK").sequence, "GAK");
+});
+
+test("applies terminal caps and phosphorylation", () => {
+    assert.equal(parsePeptide("Ac-GA-NH2").formula, "C7H13N3O3");
+    assert.equal(parsePeptide("pSA").formula, "C6H13N2O7P");
+});
+
+test("gives the extinction coefficient and pI", () => {
+    assert.equal(parsePeptide("WY").extinctionCoefficient, 6990);
+    assert.ok(parsePeptide("GAK").pI > 9);
+    assert.ok(parsePeptide("pSA").pI < 3);
+});
+
+test("rejects unknown residues", () => {
+    assert.throws(() => parsePeptide("GAJ"));
+});
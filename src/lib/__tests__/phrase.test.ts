@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseQuantityPhrase } from "../phrase";
+
+test("reads a solution", () => {
+    const phrase = parseQuantityPhrase("500 mL of 2 mM NaCl");
+    assert.equal(phrase.intent, "solution");
+    assert.equal(phrase.chemical, "NaCl");
+    assert.equal(phrase.volume?.unit, "mL");
+    assert.equal(phrase.concentration?.number, "2");
+    assert.equal(phrase.concentration?.unit, "mM");
+});
+
+test("reads a mass and loose unit spellings", () => {
+    const phrase = parseQuantityPhrase("5.844 g NaCl in 100 ml");
+    assert.equal(phrase.mass?.text, "5.844 g");
+    assert.equal(phrase.volume?.unit, "mL");
+    assert.equal(phrase.chemical, "NaCl");
+});
+
+test("reads a dilution", () => {
+    const phrase = parseQuantityPhrase("dilute 5 M NaCl stock to 150 mM in 50 mL");
+    assert.equal(phrase.intent, "dilution");
+    assert.equal(phrase.stock?.text, "5 M");
+    assert.equal(phrase.concentration?.text, "150 mM");
+    assert.equal(phrase.volume?.text, "50 mL");
+});
+
+test("reads a recipe strength", () => {
+    const phrase = parseQuantityPhrase("make 1 L 10X PBS");
+    assert.equal(phrase.intent, "recipe");
+    assert.equal(phrase.strength, 10);
+    assert.equal(phrase.chemical, "PBS");
+});
+
+test("reads percentages with their basis", () => {
+    assert.equal(parseQuantityPhrase("100 mL 70% (v/v) ethanol").concentration?.unit, "pct_vv");
+    assert.equal(parseQuantityPhrase("1 L 0.1% w/v SDS").concentration?.unit, "pct");
+});
+
+test("reports quantities it couldn't place", () => {
+    const phrase = parseQuantityPhrase("500 mL of 2 mM NaCl in 1 L");
+    assert.equal(phrase.volume?.text, "1 L");
+    assert.deepEqual(phrase.ignored, ["500 mL"]);
+    assert.equal(parseQuantityPhrase("hello").intent, "unknown");
+});
+
+test("reads locale decimals", () => {
+    assert.equal(parseQuantityPhrase("0,5 M NaCl", "de-DE").concentration?.number, "0.5");
+    assert.equal(parseQuantityPhrase("1.000 mL 0,5 M NaCl", "de-DE").volume?.number, "1000");
+});
+
+test("keeps pH and temperature out of the chemical name", () => {
+    assert.equal(parseQuantityPhrase("100 ml 0.5 M EDTA pH 8").chemical, "EDTA");
+    assert.equal(parseQuantityPhrase("1 L 50 mM Tris pH 7.4 at 25 °C").chemical, "Tris");
+});
+
+test("ignores concentrations of kinds the caller doesn't take", () => {
+    const phrase = parseQuantityPhrase("10 mg/mL BSA", "en-US", ["amount_concentration"]);
+    assert.equal(phrase.concentration, null);
+    assert.deepEqual(phrase.ignored, ["10 mg/mL"]);
+});
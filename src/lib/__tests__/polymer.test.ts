@@ -0,0 +1,23 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { looksLikePolymer, parsePolymer } from "../polymer";
+
+test("recognises polymer notation", () => {
+    for (const input of ["PEG-3350", "PVP-40k", "H(OCH2CH2)nOH"]) assert.ok(looksLikePolymer(input), input);
+    assert.ok(!looksLikePolymer("C2H6O"));
+});
+
+test("builds the chain at a given DP", () => {
+    const peg = parsePolymer("H(OCH2CH2)nOH", { dp: 10 });
+    assert.equal(peg.repeatUnit, "C2H4O");
+    assert.equal(peg.endGroups, "H2O");
+    assert.equal(peg.formula, "C20H42O11");
+    assert.equal(parsePolymer("HO-[C2H4O]n-H", { dp: 2 }).formula, "C4H10O3");
+});
+
+test("works out the DP from Mn and Mw from the dispersity", () => {
+    const preset = parsePolymer("PEG-3350");
+    assert.ok(Math.abs(preset.mn - 3350) < 1);
+    const dispersed = parsePolymer("H(OCH2CH2)nOH", { mn: 1000, dispersity: 1.1 });
+    assert.ok(Math.abs(dispersed.mw / dispersed.mn - 1.1) < 1e-9);
+});
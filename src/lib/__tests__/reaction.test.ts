@@ -0,0 +1,18 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { balanceEquation } from "../reaction";
+
+test("balances with the smallest whole numbers", () => {
+    assert.equal(balanceEquation("Fe + O2 -> Fe2O3").equation, "4Fe + 3O2 → 2Fe2O3");
+    assert.equal(balanceEquation("2C3H8(g) + O2 = CO2 + H2O").equation, "C3H8 + 5O2 → 3CO2 + 4H2O");
+});
+
+test("balances charge in redox half-equations", () => {
+    const { species } = balanceEquation("MnO4- + H+ + e- -> Mn2+ + H2O");
+    assert.deepEqual(species.map((s) => s.coefficient), [1, 8, 5, 1, 4]);
+});
+
+test("reports equations that can't be balanced", () => {
+    assert.throws(() => balanceEquation("H2O -> CO2"), /can't be balanced/);
+    assert.throws(() => balanceEquation("H2 + O2"), /reactants -> products/);
+});
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Reagent, computeReagentTable } from "../reagents";
+
+const reagent = (id: string, fields: Partial<Reagent>): Reagent => ({
+    id, name: id, mw: "", equivalents: "1", mass: "", volume: "", density: "", purity: "", ...fields,
+});
+const close = (actual: number | null | undefined, expected: number) =>
+    assert.ok(actual != null && Math.abs(actual - expected) < 1e-9, `${actual} ≠ ${expected}`);
+
+test("scales every row from the limiting reagent", () => {
+    const result = computeReagentTable({
+        reagents: [
+            reagent("a", { mw: "106.12", mass: "106.12" }),
+            reagent("b", { mw: "100", equivalents: "1.5", purity: "95", density: "0.8" }),
+        ],
+        limitingId: "a",
+        product: { name: "p", mw: "200", equivalents: "1", isolatedMass: "150" },
+    })!;
+    close(result.limitingMmol, 1);
+    close(result.rows.b.mmol, 1.5);
+    close(result.rows.b.mass, 150 / 0.95);
+    close(result.rows.b.volume, 150 / 0.95 / 0.8 / 1000);
+    close(result.theoreticalYield, 200);
+    close(result.percentYield, 75);
+});
+
+test("takes a liquid's amount from its volume and density", () => {
+    const result = computeReagentTable({
+        reagents: [reagent("a", { mw: "104.4", volume: "0.1", density: "1.044" })],
+        limitingId: "a",
+        product: { name: "", mw: "", equivalents: "", isolatedMass: "" },
+    })!;
+    close(result.limitingMmol, 1);
+    assert.equal(result.theoreticalYield, null);
+});
+
+test("waits for the limiting reagent's MW and amount", () => {
+    const product = { name: "", mw: "", equivalents: "", isolatedMass: "" };
+    assert.equal(computeReagentTable({ reagents: [reagent("a", { mass: "100" })], limitingId: "a", product }), null);
+    assert.equal(computeReagentTable({ reagents: [reagent("a", { mw: "100" })], limitingId: "a", product }), null);
+});
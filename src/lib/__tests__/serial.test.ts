@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseTargetSeries, planSerialDilution, plateLayout, seriesFactors } from "../serial";
+
+test("splits targets on semicolons and new lines", () => {
+    assert.deepEqual(parseTargetSeries("100; 50\n10"), ["100", "50", "10"]);
+    assert.deepEqual(parseTargetSeries("1,000; 500"), ["1000", "500"]);
+    assert.deepEqual(parseTargetSeries("0,5; 0,25", "de-DE"), ["0.5", "0.25"]);
+    assert.equal(parseTargetSeries("100; abc"), null);
+});
+
+test("works out the fold of each step", () => {
+    assert.deepEqual(seriesFactors(100, [50, 10]), [2, 5]);
+    assert.throws(() => seriesFactors(100, [50, 60]), /Target 2/);
+});
+
+const microlitres = (litres: number) => parseFloat((litres * 1e6).toPrecision(9));
+
+test("makes each tube up with the next one's transfer", () => {
+    const plan = planSerialDilution(8, [2, 2, 2], 100e-6);
+    assert.deepEqual(plan.tubes.map((t) => t.conc), [4, 2, 1]);
+    assert.deepEqual(plan.tubes.map((t) => microlitres(t.prepared)), [175, 150, 100]);
+    assert.equal(microlitres(plan.stockVolume), 87.5);
+    assert.throws(() => planSerialDilution(8, [1], 100e-6));
+});
+
+test("lays replicates out on a plate", () => {
+    const plate = plateLayout(3, 2, "down");
+    assert.deepEqual(plate[2].slice(0, 3), [2, 2, null]);
+    assert.throws(() => plateLayout(13, 1, "across"));
+});
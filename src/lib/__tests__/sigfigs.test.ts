@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { countSigFigs, formatNumber, inputSigFigs, toSigFigs } from "../sigfigs";
+
+test("counts significant figures as typed", () => {
+    assert.deepEqual(["500", "0.0250", "1.20e-3", "0.0"].map(countSigFigs), [3, 3, 3, 1]);
+    assert.equal(countSigFigs("abc"), undefined);
+    assert.equal(countSigFigs(12.5), undefined); // computed values are exact
+    assert.equal(inputSigFigs("0.50", "250", 3.14159), 2);
+});
+
+test("rounds without switching to exponents", () => {
+    assert.equal(toSigFigs(123456, 3), "123000");
+    assert.equal(toSigFigs(0.0012345, 2), "0.0012");
+    assert.equal(toSigFigs(2, 3), "2.00");
+    assert.equal(toSigFigs(0, 3), "0.00");
+});
+
+test("formats by the chosen notation", () => {
+    assert.equal(formatNumber(1.23456, 2), "1.23");
+    assert.equal(formatNumber(0.0001234, 2), "0.000123");
+    assert.equal(formatNumber(1.23456, 2, 4), "1.235");
+    assert.equal(formatNumber(1.23456, 2, undefined, { notation: "fixed", decimals: 1 }), "1.2");
+    assert.equal(formatNumber(1234.5, 2, 3, { notation: "scientific", decimals: 2 }), "1.23e+3");
+    assert.equal(formatNumber(NaN, 2), "-");
+});
@@ -0,0 +1,20 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { looksLikeSmiles, parseSmiles } from "../smiles";
+
+test("tells SMILES from formulas", () => {
+    for (const smiles of ["CCO", "c1ccccc1", "C=O", "[Na+].[Cl-]"]) assert.ok(looksLikeSmiles(smiles), smiles);
+    for (const formula of ["H2O", "C6H12O6", "NaCl"]) assert.ok(!looksLikeSmiles(formula), formula);
+});
+
+test("adds implicit hydrogens", () => {
+    assert.deepEqual(parseSmiles("CCO"), { C: 2, H: 6, O: 1 });
+    assert.deepEqual(parseSmiles("c1ccccc1"), { C: 6, H: 6 });
+    assert.deepEqual(parseSmiles("CC(=O)O"), { C: 2, H: 4, O: 2 });
+});
+
+test("reads bracket atoms, charges and salts", () => {
+    assert.deepEqual(parseSmiles("[Na+].[Cl-]"), { Na: 1, Cl: 1 });
+    assert.deepEqual(parseSmiles("[13CH4]"), { "[13C]": 1, H: 4 });
+    assert.throws(() => parseSmiles("C1CC"));
+});
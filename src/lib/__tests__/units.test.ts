@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { convert, fromBase, getUnit, isTraceFraction, requiresDensity, requiresEquivalents, requiresMw, toBase } from "../units";
+
+const close = (actual: number, expected: number, places = 2) =>
+    assert.ok(Math.abs(actual - expected) < 10 ** -places, `${actual} ≠ ${expected}`);
+
+test("looks units up by id or ASCII alias", () => {
+    assert.equal(getUnit("uM")?.id, "μM");
+    assert.equal(getUnit("furlong"), undefined);
+    assert.throws(() => toBase(1, "furlong"), /Unknown unit/);
+});
+
+test("converts within a dimension", () => {
+    close(convert(1, "M", "mM"), 1000);
+    close(convert(250, "μM", "M"), 250e-6, 12);
+    close(toBase(500, "mL"), 0.5, 12);
+    close(fromBase(0.002, "mg"), 2, 12);
+});
+
+test("converts between mass and molar concentrations with a Mw", () => {
+    assert.ok(requiresMw("g/L", "M"));
+    assert.ok(!requiresMw("pct", "g/L"));
+    close(convert(58.44, "g/L", "M", { mw: 58.44 }), 1);
+    close(convert(1, "pct", "mg/mL"), 10);
+    assert.throws(() => convert(1, "g/L", "M"), /Molecular weight/);
+});
+
+test("converts fractions through their densities", () => {
+    close(convert(37, "pct_ww", "M", { mw: 36.46, density: 1.19 }), 12.08);
+    assert.ok(requiresDensity("pct_ww", "M"));
+    assert.ok(!requiresDensity("pct_ww", "ppm"));
+    assert.ok(!requiresDensity("ppm", "mg/L"));
+    assert.throws(() => convert(37, "pct_ww", "M", { mw: 36.46 }), /Density/);
+    close(convert(10, "pct_vv", "g/L", { soluteDensity: 0.789 }), 78.9);
+    assert.throws(() => convert(10, "pct_vv", "g/L"), /neat solute/);
+});
+
+test("converts normality through the equivalents per mole", () => {
+    assert.ok(requiresEquivalents("N", "M"));
+    assert.ok(!requiresEquivalents("N", "mN"));
+    close(convert(1, "N", "M", { equivalents: 2 }), 0.5);
+    close(convert(98.08, "g/L", "N", { mw: 98.08, equivalents: 2 }), 2);
+    assert.throws(() => convert(1, "N", "M"), /Equivalents/);
+});
+
+test("takes trace fractions as water when asked", () => {
+    assert.ok(isTraceFraction("ppm"));
+    assert.ok(!isTraceFraction("pct_ww"));
+    close(convert(1, "ppm", "mg/L", { diluteAqueous: true }), 1);
+});
+
+test("rejects conversions between unrelated dimensions", () => {
+    assert.throws(() => convert(1, "mL", "mg"), /Can't convert/);
+    assert.throws(() => convert(1, "M", "dil"), /Can't convert/);
+});
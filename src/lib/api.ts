@@ -27,7 +27,8 @@ export async function lookupPubChem(query: string): Promise<Partial<ChemicalData
         return {
             cid,
             mw: parseFloat(prop.MolecularWeight),
-            formula: prop.MolecularFormula,
+            // PubChem writes charges as "O4S-2"; convert to the parser's "O4S^2-" form
+            formula: String(prop.MolecularFormula).replace(/([+-])(\d*)$/, "^$2$1"),
             name: prop.IUPACName,
             synonyms,
         };
@@ -0,0 +1,102 @@
+import { PTABLE } from "./constants";
+
+export type AtomicWeightTableId = "iupac-2021-abridged" | "iupac-2021-standard";
+
+export interface AtomicWeight {
+    value: number;
+    /** Standard uncertainty (u); 0 for elements without a standard atomic weight. */
+    uncertainty: number;
+}
+
+export interface AtomicWeightTable {
+    id: AtomicWeightTableId;
+    name: string;
+    reference: string;
+    weights: Record<string, AtomicWeight>;
+}
+
+// CIAAW abridged atomic weights (2021), to five significant figures
+const ABRIDGED_2021: Record<string, string> = {
+    H: "1.0080(2)", He: "4.0026(1)", Li: "6.94(6)", Be: "9.0122(1)", B: "10.81(2)", C: "12.011(2)",
+    N: "14.007(1)", O: "15.999(1)", F: "18.998(1)", Ne: "20.180(1)", Na: "22.990(1)", Mg: "24.305(2)",
+    Al: "26.982(1)", Si: "28.085(1)", P: "30.974(1)", S: "32.06(2)", Cl: "35.45(1)", Ar: "39.95(16)",
+    K: "39.098(1)", Ca: "40.078(4)", Sc: "44.956(1)", Ti: "47.867(1)", V: "50.942(1)", Cr: "51.996(1)",
+    Mn: "54.938(1)", Fe: "55.845(2)", Co: "58.933(1)", Ni: "58.693(1)", Cu: "63.546(3)", Zn: "65.38(2)",
+    Ga: "69.723(1)", Ge: "72.630(8)", As: "74.922(1)", Se: "78.971(8)", Br: "79.904(3)", Kr: "83.798(2)",
+    Rb: "85.468(1)", Sr: "87.62(1)", Y: "88.906(1)", Zr: "91.224(2)", Nb: "92.906(1)", Mo: "95.95(1)",
+    Ru: "101.07(2)", Rh: "102.91(1)", Pd: "106.42(1)", Ag: "107.87(1)", Cd: "112.41(1)", In: "114.82(1)",
+    Sn: "118.71(1)", Sb: "121.76(1)", Te: "127.60(3)", I: "126.90(1)", Xe: "131.29(1)", Cs: "132.91(1)",
+    Ba: "137.33(1)", La: "138.91(1)", Ce: "140.12(1)", Pr: "140.91(1)", Nd: "144.24(1)", Sm: "150.36(2)",
+    Eu: "151.96(1)", Gd: "157.25(3)", Tb: "158.93(1)", Dy: "162.50(1)", Ho: "164.93(1)", Er: "167.26(1)",
+    Tm: "168.93(1)", Yb: "173.05(2)", Lu: "174.97(1)", Hf: "178.49(1)", Ta: "180.95(1)", W: "183.84(1)",
+    Re: "186.21(1)", Os: "190.23(3)", Ir: "192.22(1)", Pt: "195.08(2)", Au: "196.97(1)", Hg: "200.59(1)",
+    Tl: "204.38(1)", Pb: "207.2(1.1)", Bi: "208.98(1)", Th: "232.04(1)", Pa: "231.04(1)", U: "238.03(1)",
+};
+
+// CIAAW standard atomic weights (2021); elements with natural variation are given as [min, max] intervals
+const STANDARD_2021: Record<string, string> = {
+    H: "[1.00784, 1.00811]", He: "4.002602(2)", Li: "[6.938, 6.997]", Be: "9.0121831(5)",
+    B: "[10.806, 10.821]", C: "[12.0096, 12.0116]", N: "[14.00643, 14.00728]", O: "[15.99903, 15.99977]",
+    F: "18.998403162(5)", Ne: "20.1797(6)", Na: "22.98976928(2)", Mg: "[24.304, 24.307]",
+    Al: "26.9815384(3)", Si: "[28.084, 28.086]", P: "30.973761998(5)", S: "[32.059, 32.076]",
+    Cl: "[35.446, 35.457]", Ar: "[39.792, 39.963]", K: "39.0983(1)", Ca: "40.078(4)",
+    Sc: "44.955907(4)", Ti: "47.867(1)", V: "50.9415(1)", Cr: "51.9961(6)", Mn: "54.938043(2)",
+    Fe: "55.845(2)", Co: "58.933194(3)", Ni: "58.6934(4)", Cu: "63.546(3)", Zn: "65.38(2)",
+    Ga: "69.723(1)", Ge: "72.630(8)", As: "74.921595(6)", Se: "78.971(8)", Br: "[79.901, 79.907]",
+    Kr: "83.798(2)", Rb: "85.4678(3)", Sr: "87.62(1)", Y: "88.905838(2)", Zr: "91.224(2)",
+    Nb: "92.90637(1)", Mo: "95.95(1)", Ru: "101.07(2)", Rh: "102.90549(2)", Pd: "106.42(1)",
+    Ag: "107.8682(2)", Cd: "112.414(4)", In: "114.818(1)", Sn: "118.710(7)", Sb: "121.760(1)",
+    Te: "127.60(3)", I: "126.90447(3)", Xe: "131.293(6)", Cs: "132.90545196(6)", Ba: "137.327(7)",
+    La: "138.90547(7)", Ce: "140.116(1)", Pr: "140.90766(1)", Nd: "144.242(3)", Sm: "150.36(2)",
+    Eu: "151.964(1)", Gd: "157.25(3)", Tb: "158.925354(7)", Dy: "162.500(1)", Ho: "164.930329(5)",
+    Er: "167.259(3)", Tm: "168.934219(5)", Yb: "173.045(10)", Lu: "174.9668(1)", Hf: "178.486(6)",
+    Ta: "180.94788(2)", W: "183.84(1)", Re: "186.207(1)", Os: "190.23(3)", Ir: "192.217(2)",
+    Pt: "195.084(9)", Au: "196.966570(4)", Hg: "200.592(3)", Tl: "[204.382, 204.385]", Pb: "[206.14, 207.94]",
+    Bi: "208.98040(1)", Th: "232.0377(4)", Pa: "231.03588(1)", U: "238.02891(3)",
+};
+
+/**
+ * Reads a tabulated weight: "12.011(2)" is 12.011 ± 0.002, "207.2(1.1)"
+ * is 207.2 ± 1.1, and an interval "[12.0096, 12.0116]" becomes its midpoint
+ * with the standard uncertainty of a rectangular distribution.
+ */
+function parseWeight(text: string): AtomicWeight {
+    const interval = text.match(/^\[([\d.]+),\s*([\d.]+)\]$/);
+    if (interval) {
+        const [low, high] = [parseFloat(interval[1]), parseFloat(interval[2])];
+        return { value: (low + high) / 2, uncertainty: (high - low) / (2 * Math.sqrt(3)) };
+    }
+
+    const [, value, uncertainty] = text.match(/^([\d.]+)\(([\d.]+)\)$/)!;
+    if (uncertainty.includes(".")) {
+        return { value: parseFloat(value), uncertainty: parseFloat(uncertainty) };
+    }
+    const decimals = value.split(".")[1]?.length ?? 0;
+    return { value: parseFloat(value), uncertainty: parseInt(uncertainty) / Math.pow(10, decimals) };
+}
+
+/** Builds a table; elements without a standard atomic weight keep their PTABLE mass number. */
+function buildWeights(source: Record<string, string>): Record<string, AtomicWeight> {
+    const weights: Record<string, AtomicWeight> = {};
+    for (const symbol in PTABLE) {
+        weights[symbol] = source[symbol] ? parseWeight(source[symbol]) : { value: PTABLE[symbol], uncertainty: 0 };
+    }
+    return weights;
+}
+
+export const ATOMIC_WEIGHT_TABLES: Record<AtomicWeightTableId, AtomicWeightTable> = {
+    "iupac-2021-abridged": {
+        id: "iupac-2021-abridged",
+        name: "IUPAC 2021 abridged",
+        reference: "CIAAW abridged atomic weights, Pure Appl. Chem. 94, 573 (2022)",
+        weights: buildWeights(ABRIDGED_2021),
+    },
+    "iupac-2021-standard": {
+        id: "iupac-2021-standard",
+        name: "IUPAC 2021 standard",
+        reference: "CIAAW standard atomic weights, Pure Appl. Chem. 94, 573 (2022)",
+        weights: buildWeights(STANDARD_2021),
+    },
+};
+
+export const DEFAULT_ATOMIC_WEIGHT_TABLE = ATOMIC_WEIGHT_TABLES["iupac-2021-abridged"];
@@ -0,0 +1,79 @@
+import { GROUP_ABBREVIATIONS } from "./constants";
+import { AtomicWeightTable, DEFAULT_ATOMIC_WEIGHT_TABLE } from "./atomicWeights";
+import { calculateMw, canonicalFormula, parseFormula } from "./parser";
+
+// Batch (lot) data from a certificate of analysis. Percentages are w/w of the material as supplied.
+
+export interface BatchLot {
+    id: string;
+    lot: string; // lot or batch number
+    purity: string; // %, chromatographic purity of the dry, solvent-free material
+    water: string; // %, Karl Fischer
+    solvent: string; // %, residual solvents
+    counterIon: string; // formula or common name, e.g. TFA or HCl
+    counterIonEquivalents: string; // per mole of compound
+}
+
+export interface BatchMw {
+    counterIonMw: number;
+    saltMw: number; // compound plus counter-ions
+    content: number; // fraction of the weighed mass that is the pure salt
+    mw: number; // grams of lot per mole of compound
+}
+
+// Counter-ions usually written by name on certificates; formulas are read as usual
+const COUNTER_IONS: Record<string, string> = {
+    TFA: "C2HF3O2",
+    AcOH: "C2H4O2",
+    acetate: "C2H4O2",
+    formate: "CH2O2",
+    mesylate: "CH4O3S",
+    tosylate: "C7H8O3S",
+    MsOH: "CH4O3S",
+    TsOH: "C7H8O3S",
+};
+
+const num = (value: string, fallback: number) => (value.trim() === "" ? fallback : parseFloat(value));
+
+/**
+ * Key lots are stored under: the Hill formula of the parent compound, so a
+ * lot entered for CH3COOH also shows up for C2H4O2. Falls back to the text
+ * as given when it isn't a formula.
+ */
+export function compoundKey(formula: string, groups: Record<string, string> = GROUP_ABBREVIATIONS): string {
+    try {
+        return canonicalFormula(formula, groups);
+    } catch {
+        return formula.trim();
+    }
+}
+
+/**
+ * Effective formula weight of a lot: the grams to weigh out per mole of the
+ * compound. Counter-ions are added per mole (as for TFA or HCl salts), then
+ * water and residual solvent are taken out and purity applied to what is
+ * left. Blank fields count as 100% pure, no water, no solvent, no salt.
+ */
+export function calculateBatchMw(
+    parentMw: number,
+    lot: BatchLot,
+    groups: Record<string, string> = GROUP_ABBREVIATIONS,
+    weights: AtomicWeightTable = DEFAULT_ATOMIC_WEIGHT_TABLE
+): BatchMw {
+    const purity = num(lot.purity, 100);
+    const water = num(lot.water, 0);
+    const solvent = num(lot.solvent, 0);
+    const equivalents = num(lot.counterIonEquivalents, lot.counterIon.trim() ? 1 : 0);
+
+    if (!(purity > 0 && purity <= 100)) throw new Error("Purity must be between 0 and 100%");
+    if (!(water >= 0 && solvent >= 0)) throw new Error("Water and solvent content can't be negative");
+    if (water + solvent >= 100) throw new Error("Water and solvent add up to 100% or more");
+    if (!(equivalents >= 0)) throw new Error("Counter-ion equivalents can't be negative");
+
+    const counterIon = lot.counterIon.trim();
+    const counterIonMw = counterIon ? calculateMw(parseFormula(COUNTER_IONS[counterIon] ?? counterIon, groups), weights) : 0;
+    const saltMw = parentMw + equivalents * counterIonMw;
+    const content = (purity / 100) * (1 - (water + solvent) / 100);
+
+    return { counterIonMw, saltMw, content, mw: saltMw / content };
+}
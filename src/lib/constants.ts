@@ -1,3 +1,5 @@
+import { UNITS } from "./units";
+
 export const PTABLE: Record<string, number> = {
     "H": 1.008, "He": 4.0026, "Li": 6.94, "Be": 9.0122, "B": 10.81, "C": 12.011, "N": 14.007, "O": 15.999, "F": 18.998, "Ne": 20.180,
     "Na": 22.990, "Mg": 24.305, "Al": 26.982, "Si": 28.085, "P": 30.974, "S": 32.06, "Cl": 35.45, "Ar": 39.948, "K": 39.098, "Ca": 40.078,
@@ -12,22 +14,214 @@ export const PTABLE: Record<string, number> = {
     "Rf": 267, "Db": 270, "Sg": 271, "Bh": 270, "Hs": 277, "Mt": 276, "Ds": 281, "Rg": 280, "Cn": 285, "Nh": 284, "Fl": 289, "Mc": 288,
     "Lv": 293, "Ts": 294, "Og": 294
 };
-export const UNIT_LABELS: Record<string, string> = {
-    'M': 'M',
-    'mM': 'mM',
-    'μM': 'μM',
-    'uM': 'μM',
-    'μg/mL': 'μg/mL',
-    'ug/mL': 'μg/mL',
-    'ng/μL': 'ng/μL',
-    'ng/uL': 'ng/μL',
-    'mg/mL': 'mg/mL',
-    'mg/L': 'mg/L',
-    'g/L': 'g/L',
-    'pct': '%',
-    'dil': 'X',
-    'mL': 'mL',
-    'μL': 'μL',
-    'uL': 'μL',
-    'L': 'L'
+// Exact isotope masses (u) by element and mass number, from the AME atomic mass evaluation.
+// Covers the stable isotopes of common elements plus the usual radiolabels (3H, 14C).
+export const ISOTOPE_MASSES: Record<string, Record<number, number>> = {
+    "H": { 1: 1.00782503207, 2: 2.0141017778, 3: 3.0160492777 },
+    "He": { 3: 3.0160293191, 4: 4.00260325415 },
+    "Li": { 6: 6.015122795, 7: 7.01600455 },
+    "Be": { 9: 9.0121822 },
+    "B": { 10: 10.0129370, 11: 11.0093054 },
+    "C": { 12: 12, 13: 13.0033548378, 14: 14.003241989 },
+    "N": { 14: 14.0030740048, 15: 15.0001088982 },
+    "O": { 16: 15.99491461956, 17: 16.99913170, 18: 17.9991610 },
+    "F": { 19: 18.99840322 },
+    "Ne": { 20: 19.9924401754, 21: 20.99384668, 22: 21.991385114 },
+    "Na": { 23: 22.9897692809 },
+    "Mg": { 24: 23.985041700, 25: 24.98583692, 26: 25.982592929 },
+    "Al": { 27: 26.98153863 },
+    "Si": { 28: 27.9769265325, 29: 28.976494700, 30: 29.97377017 },
+    "P": { 31: 30.97376163, 32: 31.97390727 },
+    "S": { 32: 31.97207100, 33: 32.97145876, 34: 33.96786690, 35: 34.96903216, 36: 35.96708076 },
+    "Cl": { 35: 34.96885268, 37: 36.96590259 },
+    "Ar": { 36: 35.967545106, 38: 37.9627324, 40: 39.9623831225 },
+    "K": { 39: 38.96370668, 40: 39.96399848, 41: 40.96182576 },
+    "Ca": { 40: 39.96259098, 42: 41.95861801, 43: 42.9587666, 44: 43.9554818, 46: 45.9536926, 48: 47.952534 },
+    "Sc": { 45: 44.9559119 },
+    "Ti": { 46: 45.9526316, 47: 46.9517631, 48: 47.9479463, 49: 48.9478700, 50: 49.9447912 },
+    "V": { 50: 49.9471585, 51: 50.9439595 },
+    "Cr": { 50: 49.9460442, 52: 51.9405075, 53: 52.9406494, 54: 53.9388804 },
+    "Mn": { 55: 54.9380451 },
+    "Fe": { 54: 53.9396105, 56: 55.9349375, 57: 56.9353940, 58: 57.9332756 },
+    "Co": { 59: 58.9331950 },
+    "Ni": { 58: 57.9353429, 60: 59.9307864, 61: 60.9310560, 62: 61.9283451, 64: 63.9279660 },
+    "Cu": { 63: 62.9295975, 65: 64.9277895 },
+    "Zn": { 64: 63.9291422, 66: 65.9260334, 67: 66.9271273, 68: 67.9248442, 70: 69.9253193 },
+    "Ga": { 69: 68.9255736, 71: 70.9247013 },
+    "Ge": { 70: 69.9242474, 72: 71.9220758, 73: 72.9234589, 74: 73.9211778, 76: 75.9214026 },
+    "As": { 75: 74.9215965 },
+    "Se": { 74: 73.9224764, 76: 75.9192136, 77: 76.9199140, 78: 77.9173091, 80: 79.9165213, 82: 81.9166994 },
+    "Br": { 79: 78.9183371, 81: 80.9162906 },
+    "Kr": { 78: 77.9203648, 80: 79.9163790, 82: 81.9134836, 83: 82.914136, 84: 83.911507, 86: 85.91061073 },
+    "Rb": { 85: 84.911789738, 87: 86.909180527 },
+    "Sr": { 84: 83.913425, 86: 85.9092602, 87: 86.9088771, 88: 87.9056121 },
+    "Y": { 89: 88.9058483 },
+    "Zr": { 90: 89.9047044, 91: 90.9056458, 92: 91.9050408, 94: 93.9063152, 96: 95.9082734 },
+    "Nb": { 93: 92.9063781 },
+    "Mo": { 92: 91.906811, 94: 93.9050883, 95: 94.9058421, 96: 95.9046795, 97: 96.9060215, 98: 97.9054082, 100: 99.907477 },
+    "Ru": { 96: 95.907598, 98: 97.905287, 99: 98.9059393, 100: 99.9042195, 101: 100.9055821, 102: 101.9043493, 104: 103.905433 },
+    "Rh": { 103: 102.905504 },
+    "Pd": { 102: 101.905609, 104: 103.904036, 105: 104.905085, 106: 105.903486, 108: 107.903892, 110: 109.905153 },
+    "Ag": { 107: 106.905097, 109: 108.904752 },
+    "Cd": { 106: 105.906459, 108: 107.904184, 110: 109.9030021, 111: 110.9041781, 112: 111.9027578, 113: 112.9044017, 114: 113.9033585, 116: 115.904756 },
+    "In": { 113: 112.904058, 115: 114.903878 },
+    "Sn": { 112: 111.904818, 114: 113.902779, 115: 114.903342, 116: 115.901741, 117: 116.902952, 118: 117.901603, 119: 118.903308, 120: 119.9021947, 122: 121.9034390, 124: 123.9052739 },
+    "Sb": { 121: 120.9038157, 123: 122.9042140 },
+    "Te": { 120: 119.904020, 122: 121.9030439, 123: 122.9042700, 124: 123.9028179, 125: 124.9044307, 126: 125.9033117, 128: 127.9044631, 130: 129.9062244 },
+    "I": { 125: 124.9046302, 127: 126.904473, 131: 130.9061246 },
+    "Xe": { 124: 123.9058930, 126: 125.904274, 128: 127.9035313, 129: 128.9047794, 130: 129.9035080, 131: 130.9050824, 132: 131.9041535, 134: 133.9053945, 136: 135.907219 },
+    "Cs": { 133: 132.905451933 },
+    "Ba": { 130: 129.9063208, 132: 131.9050613, 134: 133.9045084, 135: 134.9056886, 136: 135.9045759, 137: 136.9058274, 138: 137.9052472 },
+    "La": { 138: 137.907112, 139: 138.9063533 },
+    "Ce": { 136: 135.907172, 138: 137.905991, 140: 139.9054387, 142: 141.909244 },
+    "Pr": { 141: 140.9076528 },
+    "Eu": { 151: 150.9198502, 153: 152.9212303 },
+    "Gd": { 152: 151.9197910, 154: 153.9208656, 155: 154.9226220, 156: 155.9221227, 157: 156.9239601, 158: 157.9241039, 160: 159.9270541 },
+    "Tb": { 159: 158.9253468 },
+    "Ho": { 165: 164.9303221 },
+    "Tm": { 169: 168.9342133 },
+    "Ta": { 181: 180.9479958 },
+    "W": { 180: 179.946704, 182: 181.9482042, 183: 182.9502230, 184: 183.9509312, 186: 185.9543641 },
+    "Re": { 185: 184.9529550, 187: 186.9557531 },
+    "Ir": { 191: 190.9605940, 193: 192.9629264 },
+    "Pt": { 190: 189.959932, 192: 191.9610380, 194: 193.9626803, 195: 194.9647911, 196: 195.9649515, 198: 197.967893 },
+    "Au": { 197: 196.9665687 },
+    "Hg": { 196: 195.965833, 198: 197.9667690, 199: 198.9682799, 200: 199.9683260, 201: 200.9703023, 202: 201.9706430, 204: 203.9734939 },
+    "Tl": { 203: 202.9723442, 205: 204.9744275 },
+    "Pb": { 204: 203.9730436, 206: 205.9744653, 207: 206.9758969, 208: 207.9766521 },
+    "Bi": { 209: 208.9803987 },
+    "Th": { 232: 232.0380553 },
+    "U": { 234: 234.0409521, 235: 235.0439299, 238: 238.0507882 }
 };
+
+// Mass number of the most abundant isotope; used for monoisotopic and nominal masses.
+export const PRINCIPAL_ISOTOPE: Record<string, number> = {
+    "H": 1, "He": 4, "Li": 7, "Be": 9, "B": 11, "C": 12, "N": 14, "O": 16, "F": 19, "Ne": 20,
+    "Na": 23, "Mg": 24, "Al": 27, "Si": 28, "P": 31, "S": 32, "Cl": 35, "Ar": 40, "K": 39, "Ca": 40,
+    "Sc": 45, "Ti": 48, "V": 51, "Cr": 52, "Mn": 55, "Fe": 56, "Co": 59, "Ni": 58, "Cu": 63, "Zn": 64,
+    "Ga": 69, "Ge": 74, "As": 75, "Se": 80, "Br": 79, "Kr": 84, "Rb": 85, "Sr": 88, "Y": 89, "Zr": 90,
+    "Nb": 93, "Mo": 98, "Ru": 102, "Rh": 103, "Pd": 106, "Ag": 107, "Cd": 114, "In": 115, "Sn": 120,
+    "Sb": 121, "Te": 130, "I": 127, "Xe": 132, "Cs": 133, "Ba": 138, "La": 139, "Ce": 140, "Pr": 141,
+    "Eu": 153, "Gd": 158, "Tb": 159, "Ho": 165, "Tm": 169, "Ta": 181, "W": 184, "Re": 187, "Ir": 193,
+    "Pt": 195, "Au": 197, "Hg": 202, "Tl": 205, "Pb": 208, "Bi": 209, "Th": 232, "U": 238
+};
+
+// Natural isotopic abundances (mole fraction) by element and mass number, IUPAC representative values.
+export const NATURAL_ABUNDANCE: Record<string, Record<number, number>> = {
+    "H": { 1: 0.999885, 2: 0.000115 },
+    "He": { 3: 0.00000134, 4: 0.99999866 },
+    "Li": { 6: 0.0759, 7: 0.9241 },
+    "Be": { 9: 1 },
+    "B": { 10: 0.199, 11: 0.801 },
+    "C": { 12: 0.9893, 13: 0.0107 },
+    "N": { 14: 0.99636, 15: 0.00364 },
+    "O": { 16: 0.99757, 17: 0.00038, 18: 0.00205 },
+    "F": { 19: 1 },
+    "Ne": { 20: 0.9048, 21: 0.0027, 22: 0.0925 },
+    "Na": { 23: 1 },
+    "Mg": { 24: 0.7899, 25: 0.1, 26: 0.1101 },
+    "Al": { 27: 1 },
+    "Si": { 28: 0.92223, 29: 0.04685, 30: 0.03092 },
+    "P": { 31: 1 },
+    "S": { 32: 0.9499, 33: 0.0075, 34: 0.0425, 36: 0.0001 },
+    "Cl": { 35: 0.7576, 37: 0.2424 },
+    "Ar": { 36: 0.003336, 38: 0.000629, 40: 0.996035 },
+    "K": { 39: 0.932581, 40: 0.000117, 41: 0.067302 },
+    "Ca": { 40: 0.96941, 42: 0.00647, 43: 0.00135, 44: 0.02086, 46: 0.00004, 48: 0.00187 },
+    "Sc": { 45: 1 },
+    "Ti": { 46: 0.0825, 47: 0.0744, 48: 0.7372, 49: 0.0541, 50: 0.0518 },
+    "V": { 50: 0.0025, 51: 0.9975 },
+    "Cr": { 50: 0.04345, 52: 0.83789, 53: 0.09501, 54: 0.02365 },
+    "Mn": { 55: 1 },
+    "Fe": { 54: 0.05845, 56: 0.91754, 57: 0.02119, 58: 0.00282 },
+    "Co": { 59: 1 },
+    "Ni": { 58: 0.68077, 60: 0.26223, 61: 0.011399, 62: 0.036346, 64: 0.009255 },
+    "Cu": { 63: 0.6915, 65: 0.3085 },
+    "Zn": { 64: 0.4917, 66: 0.2773, 67: 0.0404, 68: 0.1845, 70: 0.0061 },
+    "Ga": { 69: 0.60108, 71: 0.39892 },
+    "Ge": { 70: 0.2057, 72: 0.2745, 73: 0.0775, 74: 0.365, 76: 0.0773 },
+    "As": { 75: 1 },
+    "Se": { 74: 0.0089, 76: 0.0937, 77: 0.0763, 78: 0.2377, 80: 0.4961, 82: 0.0873 },
+    "Br": { 79: 0.5069, 81: 0.4931 },
+    "Kr": { 78: 0.00355, 80: 0.02286, 82: 0.11593, 83: 0.115, 84: 0.56987, 86: 0.17279 },
+    "Rb": { 85: 0.7217, 87: 0.2783 },
+    "Sr": { 84: 0.0056, 86: 0.0986, 87: 0.07, 88: 0.8258 },
+    "Y": { 89: 1 },
+    "Zr": { 90: 0.5145, 91: 0.1122, 92: 0.1715, 94: 0.1738, 96: 0.028 },
+    "Nb": { 93: 1 },
+    "Mo": { 92: 0.1453, 94: 0.0915, 95: 0.1584, 96: 0.1667, 97: 0.096, 98: 0.2439, 100: 0.0982 },
+    "Ru": { 96: 0.0554, 98: 0.0187, 99: 0.1276, 100: 0.126, 101: 0.1706, 102: 0.3155, 104: 0.1862 },
+    "Rh": { 103: 1 },
+    "Pd": { 102: 0.0102, 104: 0.1114, 105: 0.2233, 106: 0.2733, 108: 0.2646, 110: 0.1172 },
+    "Ag": { 107: 0.51839, 109: 0.48161 },
+    "Cd": { 106: 0.0125, 108: 0.0089, 110: 0.1249, 111: 0.128, 112: 0.2413, 113: 0.1222, 114: 0.2873, 116: 0.0749 },
+    "In": { 113: 0.0429, 115: 0.9571 },
+    "Sn": { 112: 0.0097, 114: 0.0066, 115: 0.0034, 116: 0.1454, 117: 0.0768, 118: 0.2422, 119: 0.0859, 120: 0.3258, 122: 0.0463, 124: 0.0579 },
+    "Sb": { 121: 0.5721, 123: 0.4279 },
+    "Te": { 120: 0.0009, 122: 0.0255, 123: 0.0089, 124: 0.0474, 125: 0.0707, 126: 0.1884, 128: 0.3174, 130: 0.3408 },
+    "I": { 127: 1 },
+    "Xe": { 124: 0.000952, 126: 0.00089, 128: 0.019102, 129: 0.264006, 130: 0.04071, 131: 0.212324, 132: 0.269086, 134: 0.104357, 136: 0.088573 },
+    "Cs": { 133: 1 },
+    "Ba": { 130: 0.00106, 132: 0.00101, 134: 0.02417, 135: 0.06592, 136: 0.07854, 137: 0.11232, 138: 0.71698 },
+    "La": { 138: 0.0009, 139: 0.9991 },
+    "Ce": { 136: 0.00185, 138: 0.00251, 140: 0.8845, 142: 0.11114 },
+    "Pr": { 141: 1 },
+    "Eu": { 151: 0.4781, 153: 0.5219 },
+    "Gd": { 152: 0.002, 154: 0.0218, 155: 0.148, 156: 0.2047, 157: 0.1565, 158: 0.2484, 160: 0.2186 },
+    "Tb": { 159: 1 },
+    "Ho": { 165: 1 },
+    "Tm": { 169: 1 },
+    "Ta": { 181: 1 },
+    "W": { 180: 0.0012, 182: 0.265, 183: 0.1431, 184: 0.3064, 186: 0.2843 },
+    "Re": { 185: 0.374, 187: 0.626 },
+    "Ir": { 191: 0.373, 193: 0.627 },
+    "Pt": { 190: 0.00014, 192: 0.00782, 194: 0.32967, 195: 0.33832, 196: 0.25242, 198: 0.07163 },
+    "Au": { 197: 1 },
+    "Hg": { 196: 0.0015, 198: 0.0997, 199: 0.1687, 200: 0.231, 201: 0.1318, 202: 0.2986, 204: 0.0687 },
+    "Tl": { 203: 0.2952, 205: 0.7048 },
+    "Pb": { 204: 0.014, 206: 0.241, 207: 0.221, 208: 0.524 },
+    "Bi": { 209: 1 },
+    "Th": { 232: 1 },
+    "U": { 234: 0.000054, 235: 0.007204, 238: 0.992742 }
+};
+
+// Organic group abbreviations expanded by the formula parser. These take precedence over
+// element symbols, so "Ac" reads as acetyl and "Ts" as tosyl.
+export const GROUP_ABBREVIATIONS: Record<string, string> = {
+    "Me": "CH3",
+    "Et": "C2H5",
+    "nPr": "C3H7",
+    "iPr": "C3H7",
+    "Bu": "C4H9",
+    "nBu": "C4H9",
+    "tBu": "C4H9",
+    "Ph": "C6H5",
+    "Bn": "C7H7",
+    "Bz": "C7H5O",
+    "Cy": "C6H11",
+    "Ac": "C2H3O",
+    "Piv": "C5H9O",
+    "Boc": "C5H9O2",
+    "Cbz": "C8H7O2",
+    "Fmoc": "C15H11O2",
+    "Ts": "C7H7SO2",
+    "Ms": "CH3SO2",
+    "Tf": "CF3SO2",
+    "TMS": "C3H9Si",
+    "TBS": "C6H15Si",
+    "Tr": "C19H15"
+};
+
+// Rest mass of the electron (u), used to correct ion masses.
+export const ELECTRON_MASS = 0.000548579909;
+
+// Shorthand symbols for hydrogen isotopes, written as bracketed mass numbers internally.
+export const ISOTOPE_ALIASES: Record<string, string> = {
+    "D": "[2H]",
+    "T": "[3H]"
+};
+
+// Display labels for every unit id and alias, from the unit registry
+export const UNIT_LABELS: Record<string, string> = Object.fromEntries(
+    UNITS.flatMap((u) => [u.id, ...(u.aliases || [])].map((id) => [id, u.label]))
+);
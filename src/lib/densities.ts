@@ -0,0 +1,57 @@
+import { GROUP_ABBREVIATIONS } from "./constants";
+import { formulasEquivalent } from "./parser";
+
+// Liquids measured by volume: neat solvents and detergents, and concentrated
+// acids and bases sold as % w/w solutions.
+
+export interface LiquidReagent {
+    name: string;
+    formula?: string; // of the compound the assay refers to
+    density: number; // g/mL, around 20 °C
+    assay: number; // % w/w of that compound; 100 for neat liquids
+}
+
+// Typical vendor values; check the label for the bottle in hand
+export const LIQUID_REAGENTS: LiquidReagent[] = [
+    { name: "Hydrochloric acid 37%", formula: "HCl", density: 1.19, assay: 37 },
+    { name: "Nitric acid 70%", formula: "HNO3", density: 1.41, assay: 70 },
+    { name: "Sulfuric acid 96%", formula: "H2SO4", density: 1.84, assay: 96 },
+    { name: "Phosphoric acid 85%", formula: "H3PO4", density: 1.685, assay: 85 },
+    { name: "Acetic acid (glacial)", formula: "CH3COOH", density: 1.049, assay: 100 },
+    { name: "Formic acid 98%", formula: "HCOOH", density: 1.22, assay: 98 },
+    { name: "Trifluoroacetic acid", formula: "CF3COOH", density: 1.489, assay: 100 },
+    { name: "Ammonium hydroxide 28%", formula: "NH3", density: 0.9, assay: 28 },
+    { name: "Sodium hydroxide 50%", formula: "NaOH", density: 1.52, assay: 50 },
+    { name: "Hydrogen peroxide 30%", formula: "H2O2", density: 1.11, assay: 30 },
+    { name: "Glycerol", formula: "C3H8O3", density: 1.261, assay: 100 },
+    { name: "Ethanol", formula: "C2H5OH", density: 0.789, assay: 100 },
+    { name: "Methanol", formula: "CH3OH", density: 0.792, assay: 100 },
+    { name: "Isopropanol", formula: "C3H8O", density: 0.786, assay: 100 },
+    { name: "DMSO", formula: "C2H6OS", density: 1.1, assay: 100 },
+    { name: "Acetonitrile", formula: "CH3CN", density: 0.786, assay: 100 },
+    { name: "Formamide", formula: "HCONH2", density: 1.133, assay: 100 },
+    { name: "β-Mercaptoethanol", formula: "HSCH2CH2OH", density: 1.114, assay: 100 },
+    { name: "Tween 20", density: 1.1, assay: 100 },
+    { name: "Triton X-100", density: 1.07, assay: 100 },
+];
+
+/**
+ * Finds a liquid by name (case-insensitive, ignoring a trailing assay such as
+ * "37%"), or by formula when the query is one.
+ */
+export function findLiquid(
+    query: string,
+    liquids: LiquidReagent[] = LIQUID_REAGENTS,
+    groups: Record<string, string> = GROUP_ABBREVIATIONS
+): LiquidReagent | undefined {
+    const key = query.trim().toLowerCase();
+    if (!key) return undefined;
+    const bareName = (name: string) => name.toLowerCase().replace(/\s*\d+(\.\d+)?\s*%$/, "");
+    return liquids.find((l) => l.name.toLowerCase() === key || bareName(l.name) === key)
+        ?? liquids.find((l) => l.formula && formulasEquivalent(l.formula, query, groups));
+}
+
+/** Litres of a liquid (neat, or at its % w/w assay) holding the given grams of compound. */
+export function liquidVolume(grams: number, density: number, assay = 100): number {
+    return grams / (assay / 100) / (density * 1000);
+}
@@ -0,0 +1,166 @@
+import { PTABLE } from "./constants";
+import { Composition, atomEntries, calculateMw, parseAtomKey, toHillFormula } from "./parser";
+
+export interface ElementShare {
+    atom: string;
+    count: number;
+    mass: number; // g/mol contributed by this atom
+    percent: number; // mass %
+}
+
+export interface FormulaCandidate {
+    composition: Composition;
+    formula: string;
+    empiricalFormula: string;
+    mw: number;
+    percentages: Record<string, number>;
+    error: number; // largest absolute deviation from the measured %, in percentage points
+}
+
+export interface AnalysisOptions {
+    /** Element assigned the unmeasured remainder (usually O); null to ignore it. */
+    remainder?: string | null;
+    minMw?: number;
+    maxMw?: number;
+    /** Per-element count limits, e.g. { N: 2 } for at most two nitrogens. */
+    minCounts?: Record<string, number>;
+    maxCounts?: Record<string, number>;
+    maxResults?: number;
+    /** Drop formulas with a negative or fractional ring/double-bond count. */
+    checkUnsaturation?: boolean;
+}
+
+// Remainders below this (percentage points) are treated as measurement noise
+const REMAINDER_NOISE = 0.5;
+const HALOGENS = ["F", "Cl", "Br", "I"];
+
+/** Mass % of every atom in a composition, largest first. */
+export function massPercentages(composition: Composition): ElementShare[] {
+    const total = calculateMw(composition);
+    return atomEntries(composition)
+        .map(([atom, count]) => {
+            const mass = calculateMw({ [atom]: count });
+            return { atom, count, mass, percent: (mass / total) * 100 };
+        })
+        .sort((a, b) => b.mass - a.mass);
+}
+
+function gcd(a: number, b: number): number {
+    return b === 0 ? a : gcd(b, a % b);
+}
+
+/** Reduces a composition to its smallest whole-number ratio. */
+export function empiricalComposition(composition: Composition): Composition {
+    const entries = atomEntries(composition);
+    const divisor = entries.reduce((d, [, count]) => gcd(d, count), 0) || 1;
+    return Object.fromEntries(entries.map(([atom, count]) => [atom, count / divisor]));
+}
+
+/**
+ * Rings plus double bonds for C/H/N/O/S/halogen formulas, or null when the
+ * formula contains other elements.
+ */
+function unsaturation(composition: Composition): number | null {
+    let value = 1;
+    for (const [atom, count] of atomEntries(composition)) {
+        const symbol = parseAtomKey(atom).symbol;
+        if (symbol === "C" || symbol === "Si") value += count;
+        else if (symbol === "H" || HALOGENS.includes(symbol)) value -= count / 2;
+        else if (symbol === "N" || symbol === "P") value += count / 2;
+        else if (symbol !== "O" && symbol !== "S") return null;
+    }
+    return value;
+}
+
+// Errors closer than this (in % points) are treated as equal
+const ERROR_TOLERANCE = 1e-9;
+
+/**
+ * Candidate formulas for a combustion analysis (e.g. CHN or CHNS mass %),
+ * ranked by how closely their theoretical composition matches.
+ */
+export function formulasFromPercentages(
+    measured: Record<string, number>,
+    options: AnalysisOptions = {}
+): FormulaCandidate[] {
+    const {
+        remainder = "O", minMw = 0, maxMw = 1000, maxResults = 10, checkUnsaturation = true,
+        minCounts = {}, maxCounts = {}
+    } = options;
+
+    const percents: Record<string, number> = {};
+    for (const [symbol, pct] of Object.entries(measured)) {
+        if (!PTABLE[symbol]) throw new Error(`Unknown element: ${symbol}`);
+        if (pct > 0) percents[symbol] = pct;
+    }
+
+    const measuredTotal = Object.values(percents).reduce((a, b) => a + b, 0);
+    if (measuredTotal === 0) return [];
+    if (measuredTotal > 100 + REMAINDER_NOISE) {
+        throw new Error("Measured percentages add up to more than 100%");
+    }
+    if (remainder && 100 - measuredTotal > REMAINDER_NOISE) {
+        percents[remainder] = (percents[remainder] || 0) + 100 - measuredTotal;
+    }
+
+    const elements = Object.keys(percents);
+    const ratios = elements.map((el) => percents[el] / PTABLE[el]);
+    const anchor = ratios.indexOf(Math.min(...ratios));
+
+    const seen = new Set<string>();
+    const candidates: FormulaCandidate[] = [];
+
+    for (let k = 1; k * PTABLE[elements[anchor]] <= maxMw; k++) {
+        // Try rounding each count down and up around the exact ratio
+        const choices = ratios.map((r) => {
+            const exact = (k * r) / ratios[anchor];
+            return [...new Set([Math.floor(exact), Math.ceil(exact)])].filter((n) => n > 0);
+        });
+
+        const combos = choices.reduce<number[][]>(
+            (acc, counts) => acc.flatMap((combo) => counts.map((n) => [...combo, n])),
+            [[]]
+        );
+
+        for (const counts of combos) {
+            const composition: Composition = Object.fromEntries(elements.map((el, i) => [el, counts[i]]));
+            const formula = toHillFormula(composition);
+            if (seen.has(formula)) continue;
+            seen.add(formula);
+
+            const mw = calculateMw(composition);
+            if (mw < minMw || mw > maxMw) continue;
+            if (elements.some((el) => composition[el] < (minCounts[el] ?? 0) || composition[el] > (maxCounts[el] ?? Infinity))) {
+                continue;
+            }
+
+            if (checkUnsaturation) {
+                const rdbe = unsaturation(composition);
+                if (rdbe !== null && (rdbe < 0 || !Number.isInteger(rdbe))) continue;
+            }
+
+            const percentages = Object.fromEntries(
+                massPercentages(composition).map((share) => [share.atom, share.percent])
+            );
+            const error = Math.max(
+                ...Object.keys(measured)
+                    .filter((el) => PTABLE[el])
+                    .map((el) => Math.abs((percentages[el] || 0) - measured[el]))
+            );
+
+            candidates.push({
+                composition,
+                formula,
+                empiricalFormula: toHillFormula(empiricalComposition(composition)),
+                mw,
+                percentages,
+                error
+            });
+        }
+    }
+
+    return candidates
+        // Multiples of one formula differ only by floating-point noise; the smallest comes first
+        .sort((a, b) => (Math.abs(a.error - b.error) > ERROR_TOLERANCE ? a.error - b.error : a.mw - b.mw))
+        .slice(0, maxResults);
+}
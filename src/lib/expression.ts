@@ -0,0 +1,114 @@
+import { GROUP_ABBREVIATIONS } from "./constants";
+import { Composition, FormulaParseError, parseFormula, splitHydrate } from "./parser";
+
+/** Looks up a named result (e.g. a history entry) by name; null if unknown. */
+export type NameResolver = (name: string) => Composition | null;
+
+// Operators need spaces around them, so NH4+, Boc-NH2 and [M+Na]+ stay formulas
+const OPERATOR = /\s+([+\-−–])\s+/g;
+
+/**
+ * True for input written as formula arithmetic: terms joined by a spaced
+ * + or − (C6H12O6 + C6H12O6 − H2O), or a quoted name ("ligand" − 2HCl).
+ */
+export function looksLikeExpression(input: string): boolean {
+    return /\s[+\-−–]\s/.test(input) || /^\s*"[^"]+"/.test(input);
+}
+
+/** Splits an integer multiple off a term: "2 H2O" and "2×H2O" → 2 × H2O. */
+function splitMultiple(term: string): { times: number; body: string; bodyStart: number } {
+    const multiple = term.match(/^(\d+)\s*[×x*]\s*/) || term.match(/^(\d+)\s+/);
+    if (!multiple) return { times: 1, body: term, bodyStart: 0 };
+    return { times: parseInt(multiple[1]), body: term.slice(multiple[0].length), bodyStart: multiple[0].length };
+}
+
+/** Reads a formula or a (quoted) name. */
+function evaluateTerm(body: string, resolve: NameResolver, groups: Record<string, string>): Composition {
+    const quoted = body.match(/^"([^"]+)"$/);
+    if (quoted) {
+        const composition = resolve(quoted[1]);
+        if (!composition) throw new Error(`No result named "${quoted[1]}". Calculate it first so it appears in history.`);
+        return composition;
+    }
+    try {
+        return parseFormula(body, groups);
+    } catch (err) {
+        // Unquoted names are fine as long as they aren't valid formulas
+        const composition = resolve(body);
+        if (composition) return composition;
+
+        // A named result with a salt or hydrate attached: ligand·2HCl
+        const parts = splitHydrate(body);
+        if (parts.length < 2) throw err;
+        try {
+            const total: Composition = {};
+            for (const part of parts) {
+                const partComposition = evaluateTerm(part, resolve, groups);
+                for (const key in partComposition) total[key] = (total[key] || 0) + partComposition[key];
+            }
+            return total;
+        } catch {
+            throw err;
+        }
+    }
+}
+
+/**
+ * Evaluates formula arithmetic such as `"peptide" + C21H13NO7 − H2O` or
+ * `ligand·2HCl − 2HCl`: terms are added or subtracted, and may carry an
+ * integer multiple (2 H2O, 2×H2O). Named terms come from `resolve`.
+ * Throws if the result would have a negative atom count. Parse errors are
+ * re-pointed at their position in the whole expression.
+ */
+export function evaluateExpression(
+    expression: string,
+    resolve: NameResolver,
+    groups: Record<string, string> = GROUP_ABBREVIATIONS
+): Composition {
+    const terms: { sign: number; text: string; start: number }[] = [];
+    let sign = 1;
+    let start = 0;
+    for (const match of expression.matchAll(OPERATOR)) {
+        terms.push({ sign, text: expression.slice(start, match.index), start });
+        sign = match[1] === "+" ? 1 : -1;
+        start = match.index! + match[0].length;
+    }
+    terms.push({ sign, text: expression.slice(start), start });
+
+    const total: Composition = {};
+    for (const term of terms) {
+        const text = term.text.trim();
+        const offset = term.start + term.text.indexOf(text);
+        if (!text) throw new Error("Each + or − needs a formula on both sides");
+
+        const { times, body, bodyStart } = splitMultiple(text);
+        let part: Composition;
+        try {
+            part = evaluateTerm(body, resolve, groups);
+        } catch (err) {
+            if (err instanceof FormulaParseError) {
+                const bodyOffset = offset + bodyStart;
+                const before = expression.slice(0, bodyOffset);
+                const after = expression.slice(bodyOffset + body.length);
+                err.offset += bodyOffset;
+                err.suggestions = err.suggestions.map((fix) => before + fix + after);
+            }
+            throw err;
+        }
+
+        for (const key in part) {
+            total[key] = Math.round(((total[key] || 0) + part[key] * times * term.sign) * 1e6) / 1e6;
+            if (total[key] === 0) delete total[key];
+        }
+    }
+
+    for (const key in total) {
+        if (key !== "charge" && total[key] < 0) {
+            throw new Error(`The expression removes more ${key} than it contains (${total[key]})`);
+        }
+    }
+    if (Object.keys(total).every((key) => key === "charge")) {
+        throw new Error("The expression cancels out to nothing");
+    }
+    return total;
+}
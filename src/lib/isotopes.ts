@@ -0,0 +1,150 @@
+import { ISOTOPE_MASSES, NATURAL_ABUNDANCE, PTABLE, ELECTRON_MASS } from "./constants";
+import { Composition, atomEntries, parseAtomKey, calculateMasses } from "./parser";
+
+export interface IsotopePeak {
+    mass: number; // m/z for charged compositions
+    abundance: number; // % of the most intense peak
+    offset: number; // nominal offset from the monoisotopic peak (0 = M, 1 = M+1, ...)
+}
+
+type Distribution = { mass: number; prob: number }[];
+
+// Peaks below this fraction of the running maximum are dropped while convolving
+const PRUNE_THRESHOLD = 1e-6;
+// Peaks closer than this (u) are combined while convolving
+const MASS_BIN = 1e-4;
+// Above this mass no instrument resolves the fine structure, so peaks are binned
+// coarsely; otherwise a protein runs to tens of thousands of peaks
+const COARSE_BIN_MASS = 5000;
+const COARSE_MASS_BIN = 0.01;
+// Peaks below this relative abundance (%) are left out of the result
+const MIN_ABUNDANCE = 0.01;
+
+/**
+ * Isotope distribution of a single atom. Labelled atoms and elements without
+ * abundance data contribute a single peak.
+ */
+function atomDistribution(key: string): Distribution {
+    const { symbol, massNumber } = parseAtomKey(key);
+    if (massNumber !== undefined) {
+        return [{ mass: ISOTOPE_MASSES[symbol][massNumber], prob: 1 }];
+    }
+
+    const abundances = NATURAL_ABUNDANCE[symbol];
+    if (!abundances) return [{ mass: PTABLE[symbol], prob: 1 }];
+
+    return Object.entries(abundances).map(([a, prob]) => ({
+        mass: ISOTOPE_MASSES[symbol][Number(a)],
+        prob
+    }));
+}
+
+/** Combines near-identical masses and drops negligible peaks. */
+function compact(dist: Distribution, binWidth: number): Distribution {
+    const bins = new Map<number, { mass: number; prob: number }>();
+    for (const { mass, prob } of dist) {
+        const key = Math.round(mass / binWidth);
+        const bin = bins.get(key);
+        if (bin) {
+            bin.mass = (bin.mass * bin.prob + mass * prob) / (bin.prob + prob);
+            bin.prob += prob;
+        } else {
+            bins.set(key, { mass, prob });
+        }
+    }
+
+    const peaks = [...bins.values()];
+    const max = peaks.reduce((m, p) => Math.max(m, p.prob), 0);
+    return peaks.filter((p) => p.prob >= max * PRUNE_THRESHOLD);
+}
+
+function convolve(a: Distribution, b: Distribution, binWidth: number): Distribution {
+    const out: Distribution = [];
+    for (const p of a) {
+        for (const q of b) {
+            out.push({ mass: p.mass + q.mass, prob: p.prob * q.prob });
+        }
+    }
+    return compact(out, binWidth);
+}
+
+/** Distribution of n identical atoms, by repeated squaring. */
+function power(dist: Distribution, n: number, binWidth: number): Distribution {
+    let result: Distribution = [{ mass: 0, prob: 1 }];
+    let base = dist;
+    while (n > 0) {
+        if (n & 1) result = convolve(result, base, binWidth);
+        n >>= 1;
+        if (n > 0) base = convolve(base, base, binWidth);
+    }
+    return result;
+}
+
+/**
+ * Theoretical isotope pattern of a composition at full (fine-structure)
+ * resolution, or binned to 0.01 u above a few kDa. Charged compositions are
+ * reported as m/z. Non-stoichiometric compositions (fractional counts) have
+ * no single molecule, so no pattern.
+ */
+export function simulateIsotopePattern(composition: Composition): IsotopePeak[] {
+    const entries = atomEntries(composition);
+    if (entries.some(([, count]) => !Number.isInteger(count))) return [];
+
+    const monoisotopic = calculateMasses(composition).monoisotopic;
+    const binWidth = monoisotopic > COARSE_BIN_MASS ? COARSE_MASS_BIN : MASS_BIN;
+    let dist: Distribution = [{ mass: 0, prob: 1 }];
+    for (const [atom, count] of entries) {
+        if (count <= 0) continue;
+        dist = convolve(dist, power(atomDistribution(atom), count, binWidth), binWidth);
+    }
+
+    const charge = composition.charge || 0;
+    const z = Math.abs(charge) || 1;
+    const mono = monoisotopic / z;
+    const max = dist.reduce((m, p) => Math.max(m, p.prob), 0);
+
+    return dist
+        .map(({ mass, prob }) => {
+            const mz = (mass - charge * ELECTRON_MASS) / z;
+            return {
+                mass: mz,
+                abundance: (prob / max) * 100,
+                offset: Math.round((mz - mono) * z)
+            };
+        })
+        .filter((p) => p.abundance >= MIN_ABUNDANCE)
+        .sort((a, b) => a.mass - b.mass);
+}
+
+/**
+ * Merges peaks that an instrument of the given resolving power (m/Δm, FWHM)
+ * cannot separate. Merged peaks sit at their abundance-weighted centroid.
+ */
+export function mergePeaks(peaks: IsotopePeak[], resolvingPower: number): IsotopePeak[] {
+    const merged: IsotopePeak[] = [];
+    for (const peak of [...peaks].sort((a, b) => a.mass - b.mass)) {
+        const last = merged[merged.length - 1];
+        if (last && peak.mass - last.mass < peak.mass / resolvingPower) {
+            const total = last.abundance + peak.abundance;
+            last.mass = (last.mass * last.abundance + peak.mass * peak.abundance) / total;
+            last.offset = last.abundance >= peak.abundance ? last.offset : peak.offset;
+            last.abundance = total;
+        } else {
+            merged.push({ ...peak });
+        }
+    }
+
+    const max = merged.reduce((m, p) => Math.max(m, p.abundance), 0);
+    return merged.map((p) => ({ ...p, abundance: (p.abundance / max) * 100 }));
+}
+
+/** Labels a peak by its nominal offset: M, M+1, M-2, ... */
+export function peakLabel(offset: number): string {
+    if (offset === 0) return "M";
+    return offset > 0 ? `M+${offset}` : `M${offset}`;
+}
+
+export function peaksToCsv(peaks: IsotopePeak[]): string {
+    const rows = peaks.map((p) => `${peakLabel(p.offset)},${p.mass.toFixed(6)},${p.abundance.toFixed(4)}`);
+    return ["peak,mz,relative_abundance", ...rows].join("\n");
+}
@@ -0,0 +1,108 @@
+// Reading numbers the way people type them (0,5 · 1.234,5 · 2.5e-3 · 250 µ)
+// and writing them back with the separators of the chosen locale.
+
+export const DEFAULT_LOCALE = "en-US";
+
+// Offered in Settings; the sample shows each one's separators
+export const NUMBER_LOCALES: { id: string; label: string }[] = [
+    { id: "en-US", label: "English (US)" },
+    { id: "en-GB", label: "English (UK)" },
+    { id: "de-DE", label: "Deutsch" },
+    { id: "de-CH", label: "Deutsch (Schweiz)" },
+    { id: "fr-FR", label: "Français" },
+    { id: "es-ES", label: "Español" },
+    { id: "it-IT", label: "Italiano" },
+    { id: "nl-NL", label: "Nederlands" },
+    { id: "pt-BR", label: "Português (Brasil)" },
+    { id: "ja-JP", label: "日本語" },
+];
+
+const SI_PREFIXES: Record<string, number> = { p: -12, n: -9, u: -6, "µ": -6, "μ": -6, m: -3, k: 3, M: 6, G: 9 };
+
+const separatorCache: Record<string, { group: string; decimal: string }> = {};
+
+/** Group and decimal separators of a locale, e.g. "." and "," for de-DE. */
+export function localeSeparators(locale: string = DEFAULT_LOCALE): { group: string; decimal: string } {
+    if (!separatorCache[locale]) {
+        let parts: Intl.NumberFormatPart[];
+        try {
+            parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+        } catch {
+            parts = new Intl.NumberFormat(DEFAULT_LOCALE).formatToParts(12345.6);
+        }
+        separatorCache[locale] = {
+            group: parts.find((p) => p.type === "group")?.value ?? ",",
+            decimal: parts.find((p) => p.type === "decimal")?.value ?? ".",
+        };
+    }
+    return separatorCache[locale];
+}
+
+/** Which of "." and "," is the decimal point in `digits`: null if neither is, false if they make no sense. */
+function decimalMark(digits: string, decimal: string): string | null | false {
+    const dot = digits.lastIndexOf(".");
+    const comma = digits.lastIndexOf(",");
+    if (dot >= 0 && comma >= 0) return dot > comma ? "." : ",";
+    if (dot < 0 && comma < 0) return null;
+
+    const mark = dot >= 0 ? "." : ",";
+    const parts = digits.split(mark);
+    const grouped = /^[+-]?\d{1,3}$/.test(parts[0]) && parts.slice(1).every((p) => /^\d{3}$/.test(p));
+    if (parts.length > 2) return grouped ? null : false;
+    // A lone separator is the decimal point unless it's the locale's group separator splitting off three digits (1.234 in de-DE)
+    return mark !== decimal && grouped ? null : mark;
+}
+
+/**
+ * Rewrites typed text as a plain number string that parseFloat reads, keeping
+ * its digits (and so its significant figures): "0,500" → "0.500", "1.234,5"
+ * → "1234.5" in de-DE, "2,5×10^-3" → "2.5e-3", "250 µ" → "250e-6". Returns
+ * "" for blank text and null for text that isn't a number.
+ */
+export function normalizeNumber(text: string, locale: string = DEFAULT_LOCALE): string | null {
+    let s = text.trim().replace(/[\s  '’]/g, "").replace(/−/g, "-");
+    if (!s) return "";
+
+    let shift = 0;
+    const prefix = s.match(/(?<=\d)([pnuµμmkMG])$/);
+    if (prefix) {
+        shift = SI_PREFIXES[prefix[1]];
+        s = s.slice(0, -1);
+    }
+    s = s.replace(/[x×*]10\^?([+-]?\d+)$/i, "e$1");
+
+    const [mantissa, exponent, ...extra] = s.split(/e/i);
+    if (extra.length || (exponent !== undefined && !/^[+-]?\d+$/.test(exponent))) return null;
+
+    const mark = decimalMark(mantissa, localeSeparators(locale).decimal);
+    if (mark === false) return null;
+    let digits = mantissa;
+    if (mark) {
+        const at = digits.lastIndexOf(mark);
+        digits = digits.slice(0, at).replace(/[.,]/g, "") + "." + digits.slice(at + 1);
+    } else {
+        digits = digits.replace(/[.,]/g, "");
+    }
+    if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(digits)) return null;
+
+    const power = (exponent ? parseInt(exponent, 10) : 0) + shift;
+    return power || exponent !== undefined ? `${digits}e${power}` : digits;
+}
+
+/** Parses typed text as a number (NaN when it isn't one); see normalizeNumber. */
+export function parseNumber(text: string, locale: string = DEFAULT_LOCALE): number {
+    const normalized = normalizeNumber(text, locale);
+    return normalized ? parseFloat(normalized) : NaN;
+}
+
+/**
+ * Writes a plain number string ("1234.5", "1.20e-3") with the locale's
+ * decimal separator, and group separators when `grouping` is set.
+ */
+export function localizeNumber(text: string, locale: string = DEFAULT_LOCALE, grouping = true): string {
+    const { group, decimal } = localeSeparators(locale);
+    const m = text.match(/^(-?)(\d+)(?:\.(\d+))?(e[+-]?\d+)?$/i);
+    if (!m) return text;
+    const whole = grouping && m[2].length > 4 ? m[2].replace(/\B(?=(\d{3})+(?!\d))/g, group) : m[2];
+    return `${m[1]}${whole}${m[3] !== undefined ? decimal + m[3] : ""}${m[4] ?? ""}`;
+}
@@ -0,0 +1,78 @@
+import { GROUP_ABBREVIATIONS } from "./constants";
+import { formulasEquivalent, parseFormula, splitCharge } from "./parser";
+
+// Equivalents per mole for normality (eq/L = mol/L × equivalents).
+
+export type EquivalentBasis = "acid" | "base" | "redox";
+
+export interface EquivalentSuggestion {
+    equivalents: number;
+    basis: EquivalentBasis;
+    reason: string;
+}
+
+// Common titrants, with the half-reaction the electron count assumes
+const REDOX_TITRANTS: { formula: string; electrons: number; reaction: string }[] = [
+    { formula: "KMnO4", electrons: 5, reaction: "MnO4⁻ → Mn²⁺ (acidic)" },
+    { formula: "K2Cr2O7", electrons: 6, reaction: "Cr2O7²⁻ → 2 Cr³⁺" },
+    { formula: "KIO3", electrons: 6, reaction: "IO3⁻ → I⁻" },
+    { formula: "KBrO3", electrons: 6, reaction: "BrO3⁻ → Br⁻" },
+    { formula: "I2", electrons: 2, reaction: "I2 → 2 I⁻" },
+    { formula: "Na2S2O3", electrons: 1, reaction: "2 S2O3²⁻ → S4O6²⁻" },
+    { formula: "Ce(SO4)2", electrons: 1, reaction: "Ce⁴⁺ → Ce³⁺" },
+    { formula: "FeSO4", electrons: 1, reaction: "Fe²⁺ → Fe³⁺" },
+    { formula: "H2O2", electrons: 2, reaction: "H2O2 → 2 H2O" },
+    { formula: "H2C2O4", electrons: 2, reaction: "C2O4²⁻ → 2 CO2" },
+    { formula: "Na2C2O4", electrons: 2, reaction: "C2O4²⁻ → 2 CO2" },
+];
+
+function acidProtons(body: string, composition: Record<string, number>): number {
+    if (Object.keys(composition).every((atom) => atom === "H" || atom === "O")) return 0; // water, peroxide
+    const carboxyl = (body.match(/COOH|CO2H/g) || []).length;
+    if (carboxyl) return carboxyl;
+    // Inorganic acids are written with their acidic protons first: H2SO4, H3PO4, HCl
+    const leading = body.match(/^H(\d*)(?=[A-Z(\[])/);
+    return leading ? parseInt(leading[1] || "1", 10) : 0;
+}
+
+function baseHydroxides(body: string, composition: Record<string, number>): number {
+    if (composition.C) return 0; // alcohols end in OH too
+    const grouped = body.match(/\(OH\)(\d+)$/);
+    if (grouped) return parseInt(grouped[1], 10);
+    return /OH$/.test(body) ? 1 : 0;
+}
+
+/**
+ * Suggests the equivalents per mole of a compound: acidic protons for acids,
+ * hydroxides for bases, electrons for known redox titrants. Without a basis
+ * it tries them in that order. Returns null when nothing applies, so the user
+ * sets it by hand.
+ */
+export function suggestEquivalents(
+    formula: string,
+    groups: Record<string, string> = GROUP_ABBREVIATIONS,
+    basis?: EquivalentBasis
+): EquivalentSuggestion | null {
+    const body = splitCharge(formula.trim()).body;
+    let composition: Record<string, number>;
+    try {
+        composition = parseFormula(body, groups);
+    } catch {
+        return null;
+    }
+
+    if (!basis || basis === "acid") {
+        const protons = acidProtons(body, composition);
+        if (protons) return { equivalents: protons, basis: "acid", reason: `${protons} acidic proton${protons === 1 ? "" : "s"}` };
+    }
+    if (!basis || basis === "base") {
+        const hydroxides = baseHydroxides(body, composition);
+        if (hydroxides) return { equivalents: hydroxides, basis: "base", reason: `${hydroxides} hydroxide${hydroxides === 1 ? "" : "s"}` };
+        if (formulasEquivalent(body, "NH3", groups)) return { equivalents: 1, basis: "base", reason: "1 proton accepted" };
+    }
+    if (!basis || basis === "redox") {
+        const titrant = REDOX_TITRANTS.find((t) => formulasEquivalent(t.formula, body, groups));
+        if (titrant) return { equivalents: titrant.electrons, basis: "redox", reason: `${titrant.electrons} e⁻, ${titrant.reaction}` };
+    }
+    return null;
+}
@@ -0,0 +1,321 @@
+import { Composition, parseFormula, calculateMasses, toHillFormula } from "./parser";
+
+export type NucleicType = "DNA" | "RNA";
+
+export interface OligoResult {
+    sequence: string; // canonical form, e.g. "/5Phos/mAC*GU"
+    type: NucleicType;
+    bases: string[]; // IUPAC base codes, modifications stripped
+    length: number;
+    composition: Composition;
+    formula: string;
+    mw: number;
+    monoisotopicMass: number;
+    gcContent: number; // %
+    /** Nearest-neighbour molar extinction coefficient at 260 nm (M⁻¹ cm⁻¹). */
+    extinctionCoefficient: number;
+}
+
+export interface MeltingConditions {
+    oligoConc?: number; // nM, total strand
+    sodium?: number; // mM
+    magnesium?: number; // mM
+}
+
+export type OligoAmountUnit = "nmol" | "μg" | "OD260" | "ng/μL" | "μM";
+
+export interface OligoAmounts {
+    nmol: number;
+    ug: number;
+    od260: number;
+    ngPerUl?: number;
+    uM?: number;
+}
+
+// Chain units (nucleoside monophosphate minus H2O)
+const RESIDUE_FORMULAS: Record<NucleicType, Record<string, string>> = {
+    DNA: { A: "C10H12N5O5P", C: "C9H12N3O6P", G: "C10H12N5O6P", T: "C10H13N2O7P" },
+    RNA: { A: "C10H12N5O6P", C: "C9H12N3O7P", G: "C10H12N5O7P", U: "C9H11N2O8P" },
+};
+
+// IUPAC degenerate codes, written for DNA (T becomes U in RNA)
+const DEGENERATE: Record<string, string> = {
+    A: "A", C: "C", G: "G", T: "T", U: "T",
+    R: "AG", Y: "CT", K: "GT", M: "AC", S: "CG", W: "AT",
+    B: "CGT", D: "AGT", H: "ACT", V: "ACG", N: "ACGT",
+};
+
+const COMPLEMENT: Record<string, string> = { A: "T", C: "G", G: "C", T: "A" };
+
+// A synthetic oligo has a 5'-OH: the chain plus water, less the 5' phosphate
+const WATER: Composition = { H: 2, O: 1 };
+const PHOSPHATE: Composition = { H: 1, P: 1, O: 3 };
+const THIOATE: Composition = { O: -1, S: 1 };
+const METHYL: Composition = { C: 1, H: 2 };
+
+// IDT-style terminal modifications
+const END_MODIFICATIONS: Record<string, Composition> = {
+    "5Phos": PHOSPHATE,
+    "3Phos": PHOSPHATE,
+};
+
+// Nearest-neighbour ε260 (Puglisi & Tinoco, 1989), in M⁻¹ cm⁻¹ / 1000
+const EXTINCTION: Record<NucleicType, { pairs: Record<string, number>; single: Record<string, number> }> = {
+    DNA: {
+        pairs: {
+            AA: 27.4, AC: 21.2, AG: 25.0, AT: 22.8, CA: 21.2, CC: 14.6, CG: 18.0, CT: 15.2,
+            GA: 25.2, GC: 17.6, GG: 21.6, GT: 20.0, TA: 23.4, TC: 16.2, TG: 19.0, TT: 16.8,
+        },
+        single: { A: 15.4, C: 7.4, G: 11.5, T: 8.7 },
+    },
+    RNA: {
+        pairs: {
+            AA: 27.4, AC: 21.0, AG: 25.0, AT: 24.0, CA: 21.0, CC: 14.2, CG: 17.8, CT: 16.2,
+            GA: 25.2, GC: 17.4, GG: 21.6, GT: 21.2, TA: 24.6, TC: 17.2, TG: 20.0, TT: 19.6,
+        },
+        single: { A: 15.4, C: 7.2, G: 11.5, T: 9.9 },
+    },
+};
+
+// Nearest-neighbour ΔH (kcal/mol) and ΔS (cal/K·mol): SantaLucia (1998) for DNA,
+// Xia et al. (1998) for RNA. Stacks are keyed by the 5'→3' top strand; the
+// reverse complement of a key has the same parameters.
+const THERMODYNAMICS: Record<NucleicType, {
+    stacks: Record<string, [number, number]>;
+    initiation: [number, number];
+    terminalAT: [number, number];
+    terminalGC: [number, number];
+}> = {
+    DNA: {
+        stacks: {
+            AA: [-7.9, -22.2], AT: [-7.2, -20.4], TA: [-7.2, -21.3], CA: [-8.5, -22.7], GT: [-8.4, -22.4],
+            CT: [-7.8, -21.0], GA: [-8.2, -22.2], CG: [-10.6, -27.2], GC: [-9.8, -24.4], GG: [-8.0, -19.9],
+        },
+        initiation: [0, 0],
+        terminalAT: [2.3, 4.1],
+        terminalGC: [0.1, -2.8],
+    },
+    RNA: {
+        stacks: {
+            AA: [-6.82, -19.0], AT: [-9.38, -26.7], TA: [-7.69, -20.5], CT: [-10.48, -27.1], CA: [-10.44, -26.9],
+            GT: [-11.4, -29.5], GA: [-12.44, -32.5], CG: [-10.64, -26.7], GG: [-13.39, -32.7], GC: [-14.88, -36.9],
+        },
+        initiation: [3.61, -1.5],
+        terminalAT: [3.72, 10.5],
+        terminalGC: [0, 0],
+    },
+};
+
+const GAS_CONSTANT = 1.987; // cal/K·mol
+const SELF_COMPLEMENTARY_ENTROPY = -1.4;
+
+function addTo(total: Composition, part: Composition, times = 1) {
+    for (const atom in part) {
+        total[atom] = (total[atom] || 0) + part[atom] * times;
+        if (Math.abs(total[atom]) < 1e-9) delete total[atom];
+    }
+}
+
+/** Mean of f over every base combination allowed by two degenerate codes. */
+function averagePair<T extends number[] | number>(a: string, b: string, f: (x: string, y: string) => T): T {
+    const results = [...DEGENERATE[a]].flatMap((x) => [...DEGENERATE[b]].map((y) => f(x, y)));
+    if (typeof results[0] === "number") {
+        return ((results as number[]).reduce((s, v) => s + v, 0) / results.length) as T;
+    }
+    const sums = (results as number[][]).reduce((s, v) => s.map((n, i) => n + v[i]));
+    return sums.map((n) => n / results.length) as T;
+}
+
+function averageBase(code: string, f: (x: string) => number): number {
+    const options = [...DEGENERATE[code]];
+    return options.reduce((s, x) => s + f(x), 0) / options.length;
+}
+
+/**
+ * Parses a DNA or RNA oligonucleotide, e.g. "5'-ACGTNNRY-3'" or
+ * "/5Phos/mA*mC*GUU". Degenerate IUPAC bases are averaged, "*" marks a
+ * phosphorothioate linkage and an "m" prefix a 2'-O-methyl RNA base.
+ * RNA is detected from U or 2'-O-methyl bases.
+ */
+export function parseOligo(input: string): OligoResult {
+    let body = input.replace(/\s/g, "").replace(/^5'-?/, "").replace(/-?3'$/, "");
+
+    const start = body.match(/^\/(5\w+)\//);
+    if (start) body = body.slice(start[0].length);
+    const end = body.match(/\/(3\w+)\/$/);
+    if (end) body = body.slice(0, -end[0].length);
+
+    for (const mod of [start?.[1], end?.[1]]) {
+        if (mod && !END_MODIFICATIONS[mod]) {
+            throw new Error(`Unknown modification /${mod}/ (supported: ${Object.keys(END_MODIFICATIONS).map((m) => `/${m}/`).join(", ")})`);
+        }
+    }
+
+    // Position numbers from pasted sequences; lowercase input is just a sequence
+    body = body.replace(/\d/g, "");
+    if (!/[A-Z]/.test(body)) body = body.toUpperCase();
+
+    const tokens = body.match(/m?[A-Za-z]|\*|./g) || [];
+    const bases: string[] = [];
+    const methylated: boolean[] = [];
+    let thioates = 0;
+
+    tokens.forEach((token, i) => {
+        if (token === "*") {
+            if (i === 0 || i === tokens.length - 1 || tokens[i - 1] === "*") {
+                throw new Error("Phosphorothioates (*) go between two bases");
+            }
+            thioates++;
+            return;
+        }
+        const methyl = /^m[A-Z]$/.test(token);
+        const code = methyl ? token[1] : token;
+        if (!DEGENERATE[code]) throw new Error(`Unknown base: ${token}`);
+        bases.push(code);
+        methylated.push(methyl);
+    });
+
+    if (bases.length === 0) throw new Error("Enter a sequence, e.g. 5'-ACGTACGT-3'");
+    if (bases.includes("T") && bases.includes("U")) {
+        throw new Error("A sequence can't contain both T and U");
+    }
+    const type: NucleicType = bases.includes("U") || methylated.some(Boolean) ? "RNA" : "DNA";
+
+    const composition: Composition = {};
+    for (let i = 0; i < bases.length; i++) {
+        for (const base of DEGENERATE[bases[i]]) {
+            const residue = RESIDUE_FORMULAS[type][type === "RNA" && base === "T" ? "U" : base];
+            addTo(composition, parseFormula(residue, {}), 1 / DEGENERATE[bases[i]].length);
+        }
+        if (methylated[i]) addTo(composition, METHYL);
+    }
+    addTo(composition, WATER);
+    addTo(composition, PHOSPHATE, -1);
+    addTo(composition, THIOATE, thioates);
+    if (start) addTo(composition, END_MODIFICATIONS[start[1]]);
+    if (end) addTo(composition, END_MODIFICATIONS[end[1]]);
+
+    // Canonical form keeps the modifications so the result can be parsed again
+    const canonical = tokens
+        .map((t) => (t === "*" ? t : /^m[A-Z]$/.test(t) ? t : type === "RNA" && t === "T" ? "U" : t))
+        .join("");
+
+    const masses = calculateMasses(composition);
+    const gc = bases.reduce((s, b) => s + averageBase(b, (x) => (x === "G" || x === "C" ? 1 : 0)), 0);
+
+    return {
+        sequence: `${start ? start[0] : ""}${canonical}${end ? end[0] : ""}`,
+        type,
+        bases,
+        length: bases.length,
+        composition,
+        formula: toHillFormula(composition),
+        mw: masses.average,
+        monoisotopicMass: masses.monoisotopic,
+        gcContent: (gc / bases.length) * 100,
+        extinctionCoefficient: extinction(bases, type),
+    };
+}
+
+/** ε260 by the nearest-neighbour method: Σ ε(dimers) − Σ ε(internal monomers). */
+function extinction(bases: string[], type: NucleicType): number {
+    const { pairs, single } = EXTINCTION[type];
+    const monomer = (code: string) => averageBase(code, (x) => single[x]);
+    if (bases.length === 1) return Math.round(monomer(bases[0]) * 1000);
+
+    let total = 0;
+    for (let i = 0; i < bases.length - 1; i++) {
+        total += averagePair(bases[i], bases[i + 1], (x, y) => pairs[x + y]);
+        if (i > 0) total -= monomer(bases[i]);
+    }
+    return Math.round(total * 1000);
+}
+
+function reverseComplement(bases: string[]): string {
+    return bases.map((b) => COMPLEMENT[b] ?? "").reverse().join("");
+}
+
+/**
+ * Melting temperature (°C) of the oligo against its perfect complement, by
+ * the nearest-neighbour method with a Na⁺ entropy correction. Mg²⁺ is
+ * converted to a sodium equivalent (von Ahsen et al., 2001). Returns null
+ * for single bases.
+ */
+export function meltingTemperature(oligo: OligoResult, conditions: MeltingConditions = {}): number | null {
+    const { oligoConc = 250, sodium = 50, magnesium = 0 } = conditions;
+    const { bases, type } = oligo;
+    if (bases.length < 2) return null;
+
+    const params = THERMODYNAMICS[type];
+    const stack = (x: string, y: string): [number, number] =>
+        params.stacks[x + y] ?? params.stacks[COMPLEMENT[y] + COMPLEMENT[x]];
+    const terminal = (x: string): [number, number] =>
+        x === "G" || x === "C" ? params.terminalGC : params.terminalAT;
+
+    let [dH, dS] = params.initiation;
+    for (let i = 0; i < bases.length - 1; i++) {
+        const [h, s] = averagePair(bases[i], bases[i + 1], (x, y) => stack(x, y));
+        dH += h;
+        dS += s;
+    }
+    for (const end of [bases[0], bases[bases.length - 1]]) {
+        dH += averageBase(end, (x) => terminal(x)[0]);
+        dS += averageBase(end, (x) => terminal(x)[1]);
+    }
+
+    const plain = bases.map((b) => (b === "U" ? "T" : b));
+    const selfComplementary = plain.every((b) => COMPLEMENT[b]) && plain.join("") === reverseComplement(plain);
+    if (selfComplementary) dS += SELF_COMPLEMENTARY_ENTROPY;
+
+    const sodiumEquivalent = (sodium + 120 * Math.sqrt(Math.max(magnesium, 0))) / 1000;
+    if (sodiumEquivalent > 0) dS += 0.368 * (bases.length - 1) * Math.log(sodiumEquivalent);
+
+    const strands = (oligoConc * 1e-9) / (selfComplementary ? 1 : 4);
+    return (dH * 1000) / (dS + GAS_CONSTANT * Math.log(strands)) - 273.15;
+}
+
+/**
+ * Converts an oligo amount between nmol, μg and OD260 units. With a volume
+ * (μL) the concentration is reported too; a concentration (ng/μL, μM, as a
+ * NanoDrop reports it) needs the volume to give an amount, and throws without.
+ */
+export function oligoAmounts(
+    value: number,
+    unit: OligoAmountUnit,
+    oligo: Pick<OligoResult, "mw" | "extinctionCoefficient">,
+    volumeUl?: number
+): OligoAmounts {
+    const hasVolume = !!volumeUl && volumeUl > 0;
+    if ((unit === "ng/μL" || unit === "μM") && !hasVolume) throw new Error(`A volume is needed to convert from ${unit}`);
+
+    // 1 OD260 is the amount giving A260 = 1 in 1 mL over 1 cm
+    let nmol: number;
+    switch (unit) {
+        case "nmol":
+            nmol = value;
+            break;
+        case "μg":
+            nmol = (value / oligo.mw) * 1e3;
+            break;
+        case "OD260":
+            nmol = (value / oligo.extinctionCoefficient) * 1e6;
+            break;
+        case "ng/μL":
+            nmol = (value * volumeUl!) / oligo.mw;
+            break;
+        case "μM":
+            nmol = (value * volumeUl!) / 1e3;
+            break;
+    }
+
+    const amounts: OligoAmounts = {
+        nmol,
+        ug: (nmol * oligo.mw) / 1e3,
+        od260: (nmol * oligo.extinctionCoefficient) / 1e6,
+    };
+    if (hasVolume) {
+        amounts.ngPerUl = (amounts.ug * 1e3) / volumeUl;
+        amounts.uM = (nmol / volumeUl) * 1e3;
+    }
+    return amounts;
+}
@@ -0,0 +1,225 @@
+import { GROUP_ABBREVIATIONS } from "./constants";
+import { Composition, looksLikeFormula, parseFormula, splitHydrate, toHillFormula } from "./parser";
+import { RecipeSolute } from "./recipes";
+import { convert, getUnit, isTraceFraction } from "./units";
+
+// Osmolarity and ionic strength of a recipe, treating solutions as ideal
+// (osmotic coefficient 1, complete dissociation of salts).
+
+export interface Ion {
+    formula: string; // without charge, e.g. SO4
+    charge: number;
+    count: number; // per formula unit
+}
+
+export interface SoluteTonicity {
+    name: string;
+    molarity: number; // mol/L in the final solution
+    vantHoff: number; // particles per formula unit
+    ions: Ion[] | null; // null for non-electrolytes
+    source: "formula" | "factor" | "assumed"; // factor: set by the user; assumed: no ions found, counted as one particle
+    osmolarity: number; // Osm/L
+    ionicStrength: number; // mol/L
+}
+
+export interface Tonicity {
+    osmolarity: number; // Osm/L
+    ionicStrength: number; // mol/L
+    solutes: SoluteTonicity[];
+    skipped: { name: string; reason: string }[];
+}
+
+// Ideal osmolarity of plasma-like media; measured values run ~7% lower
+export const PHYSIOLOGICAL_OSMOLARITY = { min: 0.26, max: 0.32 };
+
+// Cations whose charge is fixed; the others take theirs from the anion
+const MONOVALENT_CATIONS = ["NH4", "Li", "Na", "K", "Rb", "Cs", "Ag"];
+const METAL_CATIONS = ["Li", "Na", "K", "Rb", "Cs", "Ag", "Mg", "Ca", "Sr", "Ba", "Mn", "Fe", "Co", "Ni", "Cu", "Zn", "Al"];
+const STRONG_ACID_ANIONS = ["Cl", "Br", "I", "NO3", "ClO4", "SO4"];
+
+const ANIONS: Record<string, number> = {
+    F: -1, Cl: -1, Br: -1, I: -1, OH: -1,
+    NO3: -1, NO2: -1, ClO4: -1, SCN: -1,
+    HCO3: -1, CO3: -2,
+    HSO4: -1, SO4: -2, S2O3: -2,
+    H2PO4: -1, HPO4: -2, PO4: -3,
+    CH3COO: -1, HCOO: -1,
+};
+const ANION_COMPOSITIONS = Object.fromEntries(Object.keys(ANIONS).map((key) => [key, parseFormula(key)]));
+
+/** The anion that `rest` is a whole number of, e.g. Cl2 is two Cl. */
+function matchAnion(rest: Composition, candidates = Object.keys(ANIONS)): { formula: string; count: number } | null {
+    const symbols = Object.keys(rest).filter((symbol) => rest[symbol]);
+    for (const key of candidates) {
+        const anion = ANION_COMPOSITIONS[key];
+        const anionSymbols = Object.keys(anion);
+        const count = (rest[anionSymbols[0]] ?? 0) / anion[anionSymbols[0]];
+        if (anionSymbols.length !== symbols.length || !Number.isInteger(count) || count < 1) continue;
+        if (anionSymbols.every((symbol) => rest[symbol] === anion[symbol] * count)) return { formula: key, count };
+    }
+    return null;
+}
+
+function without(composition: Composition, part: Composition): Composition {
+    const rest = { ...composition };
+    for (const symbol in part) {
+        rest[symbol] = (rest[symbol] ?? 0) - part[symbol];
+        if (!rest[symbol]) delete rest[symbol];
+    }
+    return rest;
+}
+
+/**
+ * Ions a formula dissociates into: simple salts (NaCl, MgCl2·6H2O,
+ * Ca(NO3)2), sodium/potassium salts of organic acids (Na3C6H5O7, CH3COONa)
+ * and strong acids. Works from the composition, so Hill formulas from PubChem
+ * (Cl2Mg, HNa2O4P) read the same as the usual ones. Returns null for anything
+ * else, which is then counted as a non-electrolyte.
+ */
+export function dissociate(formula: string, groups: Record<string, string> = GROUP_ABBREVIATIONS): Ion[] | null {
+    let composition: Composition;
+    try {
+        composition = parseFormula(splitHydrate(formula.trim())[0], groups);
+    } catch {
+        return null;
+    }
+    if (composition.charge) return null;
+
+    const metals = METAL_CATIONS.filter((symbol) => composition[symbol]);
+    if (metals.length > 1) return null;
+    if (metals.length === 1) {
+        const cation = metals[0];
+        const cationCount = composition[cation];
+        const rest = without(composition, { [cation]: cationCount });
+        const monovalent = MONOVALENT_CATIONS.includes(cation);
+        const anion = matchAnion(rest);
+        if (!anion) {
+            // Sodium citrate and the like: one anion balancing the cations
+            if (!monovalent || !rest.C || !Number.isInteger(cationCount)) return null;
+            return [{ formula: cation, charge: 1, count: cationCount }, { formula: toHillFormula(rest), charge: -cationCount, count: 1 }];
+        }
+        return saltIons(cation, cationCount, anion);
+    }
+
+    // Ammonium salts; amines without an inorganic anion stay whole
+    for (let count = composition.N ?? 0; count >= 1; count--) {
+        if ((composition.H ?? 0) < 4 * count) continue;
+        const anion = matchAnion(without(composition, { N: count, H: 4 * count }));
+        if (anion) return saltIons("NH4", count, anion);
+    }
+
+    const protons = composition.H ?? 0;
+    const acid = protons > 0 ? matchAnion(without(composition, { H: protons }), STRONG_ACID_ANIONS) : null;
+    if (acid?.count === 1 && ANIONS[acid.formula] === -protons) {
+        return [{ formula: "H", charge: 1, count: protons }, { formula: acid.formula, charge: -protons, count: 1 }];
+    }
+    return null;
+}
+
+/** Cation and anion of a salt, when the charges balance. */
+function saltIons(cation: string, cationCount: number, anion: { formula: string; count: number }): Ion[] | null {
+    const negative = anion.count * -ANIONS[anion.formula];
+    const cationCharge = negative / cationCount;
+    if (!Number.isInteger(cationCharge) || cationCharge < 1 || cationCharge > 3) return null;
+    if (MONOVALENT_CATIONS.includes(cation) && cationCharge !== 1) return null;
+    return [
+        { formula: cation, charge: cationCharge, count: cationCount },
+        { formula: anion.formula, charge: ANIONS[anion.formula], count: anion.count },
+    ];
+}
+
+/** Formula to dissociate: the looked-up one, or the name when it reads as a formula. */
+function soluteFormula(solute: RecipeSolute, groups: Record<string, string>): string | null {
+    const candidate = solute.formula || (looksLikeFormula(solute.name) ? solute.name : "");
+    if (!candidate) return null;
+    try {
+        parseFormula(candidate, groups);
+        return candidate;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Osmolarity and ionic strength contributed by one solute at its final
+ * concentration. A van 't Hoff factor set on the solute overrides the
+ * particle count; its ionic strength then assumes monovalent ions unless the
+ * formula says otherwise. Throws when the concentration can't be read as molar.
+ */
+export function soluteTonicity(solute: RecipeSolute, groups: Record<string, string> = GROUP_ABBREVIATIONS): SoluteTonicity {
+    const conc = parseFloat(solute.conc);
+    if (!(conc >= 0)) throw new Error("No concentration");
+    if (getUnit(solute.unit)?.dimension === "dilution") throw new Error("Given as a dilution factor");
+
+    const molarity = convert(conc, solute.unit, "M", {
+        mw: parseFloat(solute.mw) || undefined,
+        diluteAqueous: isTraceFraction(solute.unit),
+        soluteDensity: solute.liquid ? parseFloat(solute.density ?? "") || undefined : undefined,
+        equivalents: parseFloat(solute.equivalents ?? "") || undefined,
+    });
+
+    const formula = soluteFormula(solute, groups);
+    const ions = formula ? dissociate(formula, groups) : null;
+    const factor = parseFloat(solute.vantHoff ?? "");
+
+    let vantHoff = 1;
+    let source: SoluteTonicity["source"] = ions ? "formula" : "assumed";
+    if (factor > 0) {
+        vantHoff = factor;
+        source = "factor";
+    } else if (ions) {
+        vantHoff = ions.reduce((sum, ion) => sum + ion.count, 0);
+    }
+
+    const sumCz2 = ions
+        ? ions.reduce((sum, ion) => sum + ion.count * ion.charge * ion.charge, 0)
+        : vantHoff > 1 ? vantHoff : 0;
+
+    return {
+        name: solute.name,
+        molarity,
+        vantHoff,
+        ions,
+        source,
+        osmolarity: molarity * vantHoff,
+        ionicStrength: 0.5 * molarity * sumCz2,
+    };
+}
+
+/** Totals for a recipe; solutes that can't be expressed in mol/L are listed in `skipped`. */
+export function recipeTonicity(solutes: RecipeSolute[], groups: Record<string, string> = GROUP_ABBREVIATIONS): Tonicity {
+    const result: Tonicity = { osmolarity: 0, ionicStrength: 0, solutes: [], skipped: [] };
+    for (const solute of solutes) {
+        if (!solute.name.trim() && !solute.formula) continue;
+        try {
+            const t = soluteTonicity(solute, groups);
+            result.solutes.push(t);
+            result.osmolarity += t.osmolarity;
+            result.ionicStrength += t.ionicStrength;
+        } catch (err) {
+            result.skipped.push({ name: solute.name || solute.formula || "?", reason: (err as Error).message });
+        }
+    }
+    return result;
+}
+
+/** Concentration factor from a recipe name: "PBS (10X)" is 10, anything else 1. */
+export function concentrateFactor(name: string | null | undefined): number {
+    const m = name?.match(/(\d+(?:\.\d+)?)\s*[xX]\b/);
+    const factor = m ? parseFloat(m[1]) : 1;
+    return factor > 0 ? factor : 1;
+}
+
+/**
+ * Osmolarity at working (1X) strength and where it falls against the
+ * physiological range.
+ */
+export function workingTonicity(tonicity: Tonicity, recipeName?: string | null) {
+    const factor = concentrateFactor(recipeName);
+    const osmolarity = tonicity.osmolarity / factor;
+    const status: "hypotonic" | "isotonic" | "hypertonic" =
+        osmolarity < PHYSIOLOGICAL_OSMOLARITY.min ? "hypotonic"
+            : osmolarity > PHYSIOLOGICAL_OSMOLARITY.max ? "hypertonic"
+                : "isotonic";
+    return { factor, osmolarity, ionicStrength: tonicity.ionicStrength / factor, status };
+}
@@ -1,5 +1,13 @@
-import { PTABLE, UNIT_LABELS } from "./constants";
+import { PTABLE, UNIT_LABELS, ISOTOPE_MASSES, PRINCIPAL_ISOTOPE, ISOTOPE_ALIASES, ELECTRON_MASS, GROUP_ABBREVIATIONS } from "./constants";
+import { AtomicWeightTable, AtomicWeightTableId, DEFAULT_ATOMIC_WEIGHT_TABLE } from "./atomicWeights";
+import { getUnit } from "./units";
+import { NumberFormat, countSigFigs, formatNumber } from "./sigfigs";
 
+/**
+ * Atom counts keyed by element symbol. Isotope-labelled atoms use a bracketed
+ * mass number as their key (e.g. "[13C]", "[2H]"). Ions carry their net
+ * charge under the `charge` key.
+ */
 export type Composition = Record<string, number>;
 
 export interface ChemicalData {
@@ -7,48 +15,434 @@ export interface ChemicalData {
     formula: string;
     name?: string;
     composition: Composition;
+    monoisotopicMass?: number;
+    nominalMass?: number;
     cid?: number;
     synonyms?: string[];
     solubility?: string;
+    smiles?: string;
+    // Peptide/protein and oligonucleotide results
+    sequence?: string;
+    sequenceType?: "peptide" | "nucleic";
+    disulfides?: number;
+    pI?: number;
+    gcContent?: number;
+    extinctionCoefficient?: number; // ε280 for peptides, ε260 for oligonucleotides
+    // Polymer results: mw is Mn, and formula/composition are those of the average chain
+    polymer?: { notation: string; repeatUnit: string; dp: number; mn: number; mw: number; dispersity: number };
+    // Selected certificate-of-analysis lot (batch.ts); its batch MW is what gets weighed out
+    lotId?: string;
+    // Standard uncertainty of mw, and the atomic-weight table it was computed with
+    mwUncertainty?: number;
+    atomicWeights?: AtomicWeightTableId;
+    // What was typed in the MW calculator, and in which mode; history keeps one entry per input
+    input?: { mode: string; text: string };
+}
+
+export interface MassSummary {
+    average: number;
+    averageUncertainty: number;
+    monoisotopic: number;
+    nominal: number;
+}
+
+const SUPERSCRIPT_DIGITS: Record<string, string> = {
+    "⁰": "0", "¹": "1", "²": "2", "³": "3", "⁴": "4",
+    "⁵": "5", "⁶": "6", "⁷": "7", "⁸": "8", "⁹": "9"
+};
+
+/**
+ * Quick check used by the calculators to decide whether an input should go
+ * through the local parser before falling back to PubChem.
+ */
+export function looksLikeFormula(input: string): boolean {
+    return /^[A-Za-z0-9()\[\]·*•.⁰¹²³⁴⁵⁶⁷⁸⁹^+\- ]+$/.test(input) && /[A-Z]/.test(input);
+}
+
+/** Atom entries of a composition, leaving out the net charge. */
+export function atomEntries(composition: Composition): [string, number][] {
+    return Object.entries(composition).filter(([key]) => key !== "charge");
+}
+
+/**
+ * Separates a trailing charge from a formula. Accepts SO4^2-, SO4^-2,
+ * SO4 2-, NH4+, Fe+++, monatomic Fe3+ and bracketed complexes [Fe(CN)6]3-.
+ * Digits directly before a sign are otherwise read as a subscript (NH4+).
+ */
+export function splitCharge(formula: string): { body: string; charge: number } {
+    const trimmed = formula.trim();
+    const sign = (s: string) => (s === "+" ? 1 : -1);
+    const magnitude = (digits: string) => (digits ? parseInt(digits) : 1);
+
+    let m = trimmed.match(/^(.+?)\^([+-])(\d*)$/);
+    if (m) return { body: m[1], charge: sign(m[2]) * magnitude(m[3]) };
+
+    m = trimmed.match(/^(.+?)(?:\^|\s+)(\d*)([+-])$/);
+    if (m) return { body: m[1], charge: sign(m[3]) * magnitude(m[2]) };
+
+    m = trimmed.match(/^(.*\]|[A-Z][a-z]?)(\d+)([+-])$/);
+    if (m) return { body: m[1], charge: sign(m[3]) * magnitude(m[2]) };
+
+    m = trimmed.match(/^(.+?)(\++|-+)$/);
+    if (m) return { body: m[1], charge: sign(m[2][0]) * m[2].length };
+
+    return { body: trimmed, charge: 0 };
+}
+
+/** Formats a net charge the way it is written after a formula (2+, −). */
+export function formatCharge(charge: number): string {
+    if (charge === 0) return "";
+    const sign = charge > 0 ? "+" : "−";
+    return Math.abs(charge) === 1 ? sign : `${Math.abs(charge)}${sign}`;
+}
+
+/**
+ * Splits a composition key into its element symbol and, for labelled atoms,
+ * the mass number.
+ */
+export function parseAtomKey(key: string): { symbol: string; massNumber?: number } {
+    const match = key.match(/^\[(\d+)([A-Z][a-z]?)\]$/);
+    if (match) return { symbol: match[2], massNumber: parseInt(match[1]) };
+    return { symbol: key };
+}
+
+export type FormulaErrorKind = "unknown_element" | "unbalanced_bracket" | "bad_token" | "bad_adduct";
+
+/**
+ * A formula that could not be parsed. The offending span is given as an
+ * offset into the original input, and `suggestions` holds corrected inputs
+ * that do parse (best first).
+ */
+export class FormulaParseError extends Error {
+    kind: FormulaErrorKind;
+    offset: number;
+    length: number;
+    suggestions: string[] = [];
+
+    constructor(message: string, kind: FormulaErrorKind, offset: number, length = 1) {
+        super(message);
+        this.name = "FormulaParseError";
+        this.kind = kind;
+        this.offset = offset;
+        this.length = length;
+    }
+}
+
+/**
+ * Resolves an atom token (plain symbol, D/T alias, superscript or bracketed
+ * mass-number prefix) to its composition key. `offset` locates the token in
+ * the input for error reporting.
+ */
+function resolveAtom(token: string, offset = 0): string {
+    if (ISOTOPE_ALIASES[token]) return ISOTOPE_ALIASES[token];
+
+    let key = token;
+    const superscript = token.match(/^([⁰¹²³⁴⁵⁶⁷⁸⁹]+)([A-Z][a-z]?)$/);
+    if (superscript) {
+        const massNumber = superscript[1].split("").map((c) => SUPERSCRIPT_DIGITS[c]).join("");
+        key = `[${massNumber}${superscript[2]}]`;
+    }
+
+    const { symbol, massNumber } = parseAtomKey(key);
+    if (!PTABLE[symbol]) {
+        throw new FormulaParseError(`Unknown element: ${symbol}`, "unknown_element", offset, token.length);
+    }
+    if (massNumber !== undefined && !ISOTOPE_MASSES[symbol]?.[massNumber]) {
+        throw new FormulaParseError(`Unknown isotope: ${massNumber}${symbol}`, "unknown_element", offset, token.length);
+    }
+    return key;
 }
 
 /**
  * Parses a chemical formula into its elemental composition.
- * Supports hydrates (.), parentheses (), and brackets [].
+ * Supports hydrates (.), parentheses (), brackets [], isotope labels
+ * (D, T, [13C], ¹³C), charges (SO4^2-, NH4+) and ESI adducts, written either
+ * inline ([C6H12O6+Na]+) or after the formula (C6H12O6 [M+Na]+).
+ * Condensed formulas may use group abbreviations (PhCOOMe, Boc-NH2), which
+ * are expanded from `groups` before element symbols are resolved.
+ * Throws a FormulaParseError, with suggested corrections, for malformed input.
+ */
+export function parseFormula(formula: string, groups: Record<string, string> = GROUP_ABBREVIATIONS): Composition {
+    try {
+        return parseComposition(formula, groups);
+    } catch (err) {
+        if (err instanceof FormulaParseError) {
+            err.suggestions = suggestFixes(formula, err, groups);
+        }
+        throw err;
+    }
+}
+
+function parseComposition(formula: string, groups: Record<string, string>): Composition {
+    const { body, charge } = splitCharge(formula);
+    const lead = formula.length - formula.trimStart().length;
+
+    let composition: Composition;
+    const adduct = body.match(/^(.*?)\s*\[(\d*)M([+-][^\]]*)\]$/);
+    if (adduct) {
+        const bracket = { offset: lead + body.lastIndexOf("["), length: body.length - body.lastIndexOf("[") };
+        if (!adduct[1]) {
+            throw new FormulaParseError("Adduct notation needs a formula, e.g. C6H12O6 [M+H]+", "bad_adduct", bracket.offset, bracket.length);
+        }
+        const restOffset = bracket.offset + 2 + adduct[2].length;
+        composition = parseAdduct(adduct[1], adduct[3], groups, lead, restOffset, bracket, adduct[2] ? parseInt(adduct[2]) : 1);
+    } else if (/^\[[^\[\]]*[^\s[][+-][^\[\]]*\]$/.test(body)) {
+        const [molecule] = body.slice(1, -1).split(/(?=[+-])/);
+        const rest = body.slice(1 + molecule.length, -1);
+        const bracket = { offset: lead, length: body.length };
+        composition = parseAdduct(molecule, rest, groups, lead + 1, lead + 1 + molecule.length, bracket);
+    } else {
+        composition = parseNeutralFormula(body, groups, lead);
+    }
+
+    if (charge !== 0) composition.charge = charge;
+    return composition;
+}
+
+/**
+ * Evaluates an adduct such as 2C6H12O6+Na-H2O: `count` copies of the
+ * molecule, then the terms of `rest` are added or removed. Offsets locate
+ * the molecule, the terms and the adduct's bracket in the input for error
+ * reporting.
  */
-export function parseFormula(formula: string): Composition {
-    const parts = formula.replace(/[·*•]/g, ".").split(".");
+function parseAdduct(
+    molecule: string,
+    rest: string,
+    groups: Record<string, string>,
+    moleculeOffset: number,
+    restOffset: number,
+    bracket: { offset: number; length: number },
+    count = 1
+): Composition {
+    const total = parseNeutralFormula(molecule, groups, moleculeOffset);
+    for (const atom in total) total[atom] *= count;
+
+    let offset = restOffset;
+    for (const term of rest.split(/(?=[+-])/).filter(Boolean)) {
+        const factor = term[0] === "+" ? 1 : -1;
+        const part = parseNeutralFormula(term.slice(1), groups, offset + 1);
+        offset += term.length;
+        for (const atom in part) {
+            total[atom] = (total[atom] || 0) + part[atom] * factor;
+            if (total[atom] < 0) {
+                throw new FormulaParseError(`Adduct removes more ${atom} than the molecule contains`, "bad_adduct", bracket.offset, bracket.length);
+            }
+            if (total[atom] === 0) delete total[atom];
+        }
+    }
+
+    return total;
+}
+
+const CLOSING: Record<string, string> = { "(": ")", "[": "]" };
+
+/**
+ * Re-cases a run of letters into element symbols or group names, e.g.
+ * NACL → NaCl. `fewest` prefers two-letter symbols (CO → Co), otherwise
+ * single letters win (CO → CO).
+ */
+function recaseLetters(run: string, groups: Record<string, string>, fewest: boolean): string | null {
+    const names = new Map<string, string>();
+    for (const symbol of Object.keys(PTABLE)) names.set(symbol.toLowerCase(), symbol);
+    for (const name of Object.keys(groups)) names.set(name.toLowerCase(), name);
+
+    // best[i]: segmentation of the first i letters
+    const best: ({ text: string; parts: number } | null)[] = [{ text: "", parts: 0 }];
+    const lower = run.toLowerCase();
+    for (let i = 1; i <= run.length; i++) {
+        best[i] = null;
+        for (let len = 1; len <= Math.min(4, i); len++) {
+            const prev = best[i - len];
+            const name = names.get(lower.slice(i - len, i));
+            if (!prev || !name) continue;
+            const candidate = { text: prev.text + name, parts: prev.parts + 1 };
+            const current = best[i];
+            if (!current || (fewest ? candidate.parts < current.parts : candidate.parts > current.parts)) {
+                best[i] = candidate;
+            }
+        }
+    }
+    return best[run.length]?.text ?? null;
+}
+
+/** The error parsing `formula` would raise, or null if it parses. */
+function parseFailure(formula: string, groups: Record<string, string>): Error | null {
+    try {
+        parseComposition(formula, groups);
+        return null;
+    } catch (err) {
+        return err as Error;
+    }
+}
+
+/** Corrected versions of a formula that fail with `error`, keeping only ones that parse. */
+function suggestFixes(formula: string, error: FormulaParseError, groups: Record<string, string>): string[] {
+    const candidates: string[] = [];
+    const { offset, length } = error;
+
+    if (error.kind === "unbalanced_bracket") {
+        const char = formula[offset];
+        if (CLOSING[char]) {
+            // Close the bracket before a trailing count (Ca(OH2 → Ca(OH)2), or at the end
+            const trailing = formula.slice(offset).match(/^(.*?[A-Za-z)\]])(\d+)$/);
+            if (trailing) candidates.push(formula.slice(0, offset) + trailing[1] + CLOSING[char] + trailing[2]);
+            candidates.push(formula + CLOSING[char]);
+        } else {
+            candidates.push(formula.slice(0, offset) + formula.slice(offset + 1));
+            const opener = Object.keys(CLOSING).find((o) => CLOSING[o] !== char);
+            if (opener) candidates.push(formula.slice(0, offset) + CLOSING[opener] + formula.slice(offset + 1));
+        }
+    } else {
+        // Case fixes, run by run, until the formula parses or a run can't be fixed
+        for (const fewest of [false, true]) {
+            let candidate = formula;
+            let failure: Error | null = error;
+            for (let attempt = 0; failure instanceof FormulaParseError && failure.kind !== "unbalanced_bracket" && attempt < 8; attempt++) {
+                const at = failure.offset;
+                const run = [...candidate.matchAll(/[A-Za-z]+/g)].find((m) => m.index! <= at && at < m.index! + m[0].length);
+                const fixed = run && recaseLetters(run[0], groups, fewest);
+                if (!run || !fixed || fixed === run[0]) break;
+                candidate = candidate.slice(0, run.index) + fixed + candidate.slice(run.index! + run[0].length);
+                failure = parseFailure(candidate, groups);
+            }
+            if (!failure) candidates.push(candidate);
+        }
+        if (error.kind === "bad_token" && !/[A-Za-z]/.test(formula.substr(offset, length))) {
+            candidates.push(formula.slice(0, offset) + formula.slice(offset + length));
+        }
+    }
+
+    return [...new Set(candidates)].filter((c) => c !== formula && !parseFailure(c, groups)).slice(0, 3);
+}
+
+/**
+ * Tokenizer for one hydrate part. Group abbreviations come before element
+ * symbols so that the longest name wins (Boc rather than B + o + c).
+ */
+function tokenPattern(groups: Record<string, string>): RegExp {
+    const names = Object.keys(groups)
+        .sort((a, b) => b.length - a.length)
+        .map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    const groupAlternatives = names.length > 0 ? `${names.join("|")}|` : "";
+    return new RegExp(
+        `(\\[\\d+[A-Z][a-z]?\\]|[⁰¹²³⁴⁵⁶⁷⁸⁹]+[A-Z][a-z]?|${groupAlternatives}[A-Z][a-z]?|\\d+(?:\\.\\d+)?|\\(|\\)|\\[|\\]|-)`,
+        "g"
+    );
+}
+
+/**
+ * Splits a formula into its hydrate/adduct parts. A period after a count is a
+ * decimal point (Fe2.5O4, Li0.5CoO2, 1.5H2O) unless a multiplied water
+ * follows, so CuSO4.5H2O stays a pentahydrate. `start` is the offset of
+ * `formula` in the user's input, used to locate errors.
+ */
+export function splitHydrate(formula: string, start = 0): string[] {
+    const parts: string[] = [];
+    let current = "";
+    for (let i = 0; i < formula.length; i++) {
+        const ch = formula[i];
+        if (ch === "·" || ch === "*" || ch === "•") {
+            parts.push(current);
+            current = "";
+        } else if (ch === "." && /\d$/.test(current) && /\d/.test(formula[i + 1] ?? "")) {
+            const isMultiplier = /^\d+$/.test(current);
+            const isCount = /[A-Za-z)\]]\d+$/.test(current);
+            if (isCount && /^\d+(?:\.\d+)?H2O(?=$|[·*•.])/.test(formula.slice(i + 1))) {
+                parts.push(current);
+                current = "";
+            } else if (isMultiplier || isCount) {
+                current += ch;
+            } else {
+                throw new FormulaParseError(`Ambiguous "."; write a hydrate with · (CuSO4·5H2O)`, "bad_token", start + i);
+            }
+        } else if (ch === ".") {
+            parts.push(current);
+            current = "";
+        } else {
+            current += ch;
+        }
+    }
+    parts.push(current);
+    return parts;
+}
+
+// Counts are rounded to this many decimals to hide floating-point noise (0.7 + 0.3)
+const COUNT_PRECISION = 1e6;
+
+/**
+ * Parses a formula without charge or adduct notation. `start` is the offset
+ * of `formula` in the user's input, used to locate errors.
+ */
+function parseNeutralFormula(formula: string, groups: Record<string, string>, start = 0): Composition {
+    const parts = splitHydrate(formula, start);
     const totalComp: Composition = {};
+    const pattern = tokenPattern(groups);
 
+    let partStart = start;
     parts.forEach((part) => {
         let multiplier = 1;
-        const multMatch = part.match(/^(\d+)(.*)$/);
+        const multMatch = part.match(/^(\d+(?:\.\d+)?)(.*)$/);
         let formulaPart = part;
+        let base = partStart;
+        partStart += part.length + 1;
 
-        if (multMatch && multMatch[2].length > 0 && !/^\d+$/.test(multMatch[2])) {
-            multiplier = parseInt(multMatch[1]);
+        if (multMatch && multMatch[2].length > 0 && !/^[\d.]+$/.test(multMatch[2])) {
+            multiplier = parseFloat(multMatch[1]);
             formulaPart = multMatch[2];
+            base += multMatch[1].length;
         }
 
-        const tokens = formulaPart.match(/([A-Z][a-z]?|\d+|\(|\)|\[|\])/g);
-        if (!tokens || tokens.join("") !== formulaPart) {
-            throw new Error(`Invalid formula: ${formulaPart}`);
+        if (!formulaPart) {
+            throw new FormulaParseError("Expected a formula after the separator", "bad_token", Math.max(base - 1, 0));
+        }
+
+        const tokens: { text: string; offset: number }[] = [];
+        let position = 0;
+        pattern.lastIndex = 0;
+        for (let match = pattern.exec(formulaPart); match; match = pattern.exec(formulaPart)) {
+            if (match.index !== position) break;
+            tokens.push({ text: match[0], offset: base + match.index });
+            position += match[0].length;
+        }
+        if (position !== formulaPart.length) {
+            const rest = formulaPart.slice(position);
+            const bad = rest.match(/^[A-Za-z]+|^./)![0];
+            throw new FormulaParseError(`Unexpected "${bad}"`, "bad_token", base + position, bad.length);
         }
 
         const stack: Composition[] = [{}];
+        // Opening brackets, to report the unclosed one and catch ( ] mismatches
+        const opened: { text: string; offset: number }[] = [];
 
         for (let i = 0; i < tokens.length; i++) {
-            const t = tokens[i];
-            if (t === "(" || t === "[") {
+            const { text: t, offset } = tokens[i];
+            if (t === "-") {
+                // Dashes between groups are bond notation in condensed formulas (Boc-NH2);
+                // anywhere else (SO4-2, H2O-5) the number after it would be lost
+                const prev = tokens[i - 1]?.text;
+                const next = tokens[i + 1]?.text;
+                const joinsGroups = !!prev && !/^[-([]$/.test(prev) && !!next && !/^[\d.)\]-]/.test(next);
+                if (!joinsGroups) {
+                    throw new FormulaParseError(`Unexpected "-"; write a charge as ^2- or 2-`, "bad_token", offset);
+                }
+                continue;
+            } else if (t === "(" || t === "[") {
                 stack.push({});
+                opened.push(tokens[i]);
             } else if (t === ")" || t === "]") {
-                const top = stack.pop();
-                if (!top) throw new Error("Unbalanced parentheses/brackets");
+                const open = opened.pop();
+                if (!open) {
+                    throw new FormulaParseError(`Unmatched "${t}"`, "unbalanced_bracket", offset);
+                }
+                if (CLOSING[open.text] !== t) {
+                    throw new FormulaParseError(`"${open.text}" closed by "${t}"`, "unbalanced_bracket", offset);
+                }
+                const top = stack.pop()!;
 
-                let next = tokens[i + 1];
+                const next = tokens[i + 1]?.text;
                 let groupMult = 1;
-                if (next && /^\d+$/.test(next)) {
-                    groupMult = parseInt(next);
+                if (next && /^[\d.]+$/.test(next)) {
+                    groupMult = parseFloat(next);
                     i++;
                 }
 
@@ -56,40 +450,145 @@ export function parseFormula(formula: string): Composition {
                 for (const atom in top) {
                     current[atom] = (current[atom] || 0) + top[atom] * groupMult;
                 }
-            } else if (/^[A-Z][a-z]?$/.test(t)) {
-                if (!PTABLE[t]) {
-                    throw new Error(`Unknown element: ${t}`);
-                }
+            } else if (!/^[\d.]+$/.test(t)) {
+                // A group abbreviation expands to its own (group-free) formula
+                const unit: Composition = groups[t] ? parseNeutralFormula(groups[t], {}) : { [resolveAtom(t, offset)]: 1 };
 
-                let next = tokens[i + 1];
+                const next = tokens[i + 1]?.text;
                 let count = 1;
-                if (next && /^\d+$/.test(next)) {
-                    count = parseInt(next);
+                if (next && /^[\d.]+$/.test(next)) {
+                    count = parseFloat(next);
                     i++;
                 }
 
                 const current = stack[stack.length - 1];
-                current[t] = (current[t] || 0) + count;
+                for (const atom in unit) {
+                    current[atom] = (current[atom] || 0) + unit[atom] * count;
+                }
             }
         }
 
-        if (stack.length !== 1) {
-            throw new Error("Unbalanced parentheses/brackets");
+        if (opened.length > 0) {
+            const open = opened[opened.length - 1];
+            throw new FormulaParseError(`Unclosed "${open.text}"`, "unbalanced_bracket", open.offset);
         }
 
         for (const atom in stack[0]) {
-            totalComp[atom] = (totalComp[atom] || 0) + stack[0][atom] * multiplier;
+            const count = (totalComp[atom] || 0) + stack[0][atom] * multiplier;
+            totalComp[atom] = Math.round(count * COUNT_PRECISION) / COUNT_PRECISION;
         }
     });
 
     return totalComp;
 }
 
-export function calculateMw(composition: Composition): number {
-    return Object.entries(composition).reduce(
-        (sum, [symbol, count]) => sum + PTABLE[symbol] * count,
+/**
+ * Mass of a single atom. Labelled atoms use their exact isotope mass; with
+ * `monoisotopic` set, unlabelled atoms use their most abundant isotope.
+ */
+function atomMass(key: string, weights: AtomicWeightTable, monoisotopic = false): number {
+    const { symbol, massNumber } = parseAtomKey(key);
+    if (massNumber !== undefined) return ISOTOPE_MASSES[symbol][massNumber];
+    if (monoisotopic) {
+        const principal = PRINCIPAL_ISOTOPE[symbol];
+        if (principal) return ISOTOPE_MASSES[symbol][principal];
+    }
+    return weights.weights[symbol].value;
+}
+
+/** Integer mass number of an atom, for nominal mass. */
+function atomMassNumber(key: string): number {
+    const { symbol, massNumber } = parseAtomKey(key);
+    return massNumber ?? PRINCIPAL_ISOTOPE[symbol] ?? Math.round(PTABLE[symbol]);
+}
+
+/**
+ * Average molecular weight from the given atomic-weight table (IUPAC 2021
+ * abridged by default). Ions are corrected for the mass of the electrons
+ * they have lost or gained.
+ */
+export function calculateMw(composition: Composition, weights: AtomicWeightTable = DEFAULT_ATOMIC_WEIGHT_TABLE): number {
+    return atomEntries(composition).reduce(
+        (sum, [atom, count]) => sum + atomMass(atom, weights) * count,
         0
-    );
+    ) - (composition.charge || 0) * ELECTRON_MASS;
+}
+
+/**
+ * Standard uncertainty of the average MW from the atomic-weight
+ * uncertainties. Atoms of one element share the same weight, so their
+ * contributions add linearly; different elements add in quadrature.
+ * Isotope-labelled atoms have exact masses and contribute nothing.
+ */
+export function calculateMwUncertainty(composition: Composition, weights: AtomicWeightTable = DEFAULT_ATOMIC_WEIGHT_TABLE): number {
+    const variance = atomEntries(composition).reduce((sum, [atom, count]) => {
+        const { symbol, massNumber } = parseAtomKey(atom);
+        if (massNumber !== undefined) return sum;
+        const u = count * weights.weights[symbol].uncertainty;
+        return sum + u * u;
+    }, 0);
+    return Math.sqrt(variance);
+}
+
+/**
+ * Average MW, monoisotopic (exact) mass and nominal (integer) mass of a
+ * composition, as used for mass spectrometry.
+ */
+export function calculateMasses(composition: Composition, weights: AtomicWeightTable = DEFAULT_ATOMIC_WEIGHT_TABLE): MassSummary {
+    let monoisotopic = -(composition.charge || 0) * ELECTRON_MASS;
+    let nominal = 0;
+    for (const [atom, count] of atomEntries(composition)) {
+        monoisotopic += atomMass(atom, weights, true) * count;
+        nominal += atomMassNumber(atom) * count;
+    }
+    return {
+        average: calculateMw(composition, weights),
+        averageUncertainty: calculateMwUncertainty(composition, weights),
+        monoisotopic,
+        nominal,
+    };
+}
+
+/**
+ * Writes a composition in Hill order: C, then H, then the other elements
+ * alphabetically (strictly alphabetical when there is no carbon). Labelled
+ * atoms follow their element; a net charge is appended as ^n+/^n-.
+ */
+export function toHillFormula(composition: Composition): string {
+    const entries = atomEntries(composition).filter(([, count]) => count !== 0);
+    const hasCarbon = entries.some(([atom]) => parseAtomKey(atom).symbol === "C");
+    const rank = (symbol: string) => (!hasCarbon ? 2 : symbol === "C" ? 0 : symbol === "H" ? 1 : 2);
+
+    entries.sort(([a], [b]) => {
+        const ka = parseAtomKey(a);
+        const kb = parseAtomKey(b);
+        return rank(ka.symbol) - rank(kb.symbol)
+            || ka.symbol.localeCompare(kb.symbol)
+            || (ka.massNumber ?? 0) - (kb.massNumber ?? 0);
+    });
+
+    const body = entries.map(([atom, count]) => (count === 1 ? atom : `${atom}${count}`)).join("");
+    const charge = composition.charge || 0;
+    if (charge === 0) return body;
+    const sign = charge > 0 ? "+" : "-";
+    return Math.abs(charge) === 1 ? `${body}${sign}` : `${body}^${Math.abs(charge)}${sign}`;
+}
+
+/**
+ * Canonical (Hill) form of a formula, so that C2H5OH, CH3CH2OH and C2H6O
+ * all read C2H6O. Throws like parseFormula for malformed input.
+ */
+export function canonicalFormula(formula: string, groups: Record<string, string> = GROUP_ABBREVIATIONS): string {
+    return toHillFormula(parseFormula(formula, groups));
+}
+
+/** True when two formulas describe the same composition (and charge); false if either fails to parse. */
+export function formulasEquivalent(a: string, b: string, groups: Record<string, string> = GROUP_ABBREVIATIONS): boolean {
+    try {
+        return canonicalFormula(a, groups) === canonicalFormula(b, groups);
+    } catch {
+        return false;
+    }
 }
 
 export function formatFormula(formula: string): string {
@@ -98,50 +597,34 @@ export function formatFormula(formula: string): string {
     return formula.replace(/([A-Za-z)\]])(\d+)/g, "$1$2");
 }
 
-// Helper to trim trailing zeros after toFixed
-const trim = (val: number, precision: number) => parseFloat(val.toFixed(precision)).toString();
-
 export function getUnitLabel(unit: string): string {
     return UNIT_LABELS[unit] || unit;
 }
 
-export function formatVolume(volL: number): string {
-    if (volL < 1e-6) return trim(volL * 1e9, 1) + " nL";
-    if (volL < 1e-3) return trim(volL * 1e6, 1) + " μL";
-    if (volL < 1) return trim(volL * 1e3, 3) + " mL";
-    return trim(volL, 3) + " L";
+// Volumes and masses are shown in the largest prefix that keeps them ≥ 1.
+// `sigFigs` is the precision of the inputs they were calculated from.
+
+export function formatVolume(volL: number, sigFigs?: number, format?: NumberFormat): string {
+    if (volL < 1e-6) return formatNumber(volL * 1e9, 1, sigFigs, format) + " nL";
+    if (volL < 1e-3) return formatNumber(volL * 1e6, 1, sigFigs, format) + " μL";
+    if (volL < 1) return formatNumber(volL * 1e3, 3, sigFigs, format) + " mL";
+    return formatNumber(volL, 3, sigFigs, format) + " L";
 }
 
-export function formatMass(grams: number): string {
-    if (grams < 1e-6) return trim(grams * 1e9, 1) + " ng";
-    if (grams < 1e-3) return trim(grams * 1e6, 1) + " μg";
-    if (grams < 1) return trim(grams * 1000, 1) + " mg";
-    return trim(grams, 3) + " g";
+export function formatMass(grams: number, sigFigs?: number, format?: NumberFormat): string {
+    if (grams < 1e-6) return formatNumber(grams * 1e9, 1, sigFigs, format) + " ng";
+    if (grams < 1e-3) return formatNumber(grams * 1e6, 1, sigFigs, format) + " μg";
+    if (grams < 1) return formatNumber(grams * 1000, 1, sigFigs, format) + " mg";
+    return formatNumber(grams, 3, sigFigs, format) + " g";
 }
 
-export function formatConcentration(val: number | string, unit: string): string {
+/** A typed concentration keeps the significant figures it was typed with ("0.1000"). */
+export function formatConcentration(val: number | string, unit: string, sigFigs?: number, format?: NumberFormat): string {
     const n = typeof val === 'string' ? parseFloat(val) : val;
     if (isNaN(n)) return "-";
 
-    switch (unit) {
-        case 'M': return trim(n, 3);
-        case 'mM':
-        case 'μM':
-        case 'uM':
-        case 'mg/mL':
-        case 'dil':
-            return trim(n, 1);
-        case 'pct':
-        case 'μg/mL':
-        case 'ug/mL':
-        case 'ng/μL':
-        case 'ng/uL':
-            return trim(n, 2);
-        case 'g/L':
-            return trim(n, 3);
-        default:
-            return n.toString();
-    }
+    const def = getUnit(unit);
+    return formatNumber(n, def ? def.decimals : 3, sigFigs ?? countSigFigs(val), format);
 }
 
 
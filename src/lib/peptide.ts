@@ -0,0 +1,184 @@
+import { Composition, parseFormula, calculateMasses, toHillFormula } from "./parser";
+
+export interface PeptideOptions {
+    /** Number of disulfide bridges (cystines) formed between cysteines. */
+    disulfides?: number;
+}
+
+export interface PeptideResult {
+    sequence: string; // canonical one-letter form, e.g. "Ac-ApSCK-NH2"
+    length: number;
+    composition: Composition;
+    formula: string;
+    mw: number;
+    monoisotopicMass: number;
+    pI: number;
+    /** Molar extinction coefficient at 280 nm (M⁻¹ cm⁻¹), cystines included. */
+    extinctionCoefficient: number;
+}
+
+// Residue formulas (amino acid minus H2O)
+const RESIDUE_FORMULAS: Record<string, string> = {
+    A: "C3H5NO", R: "C6H12N4O", N: "C4H6N2O2", D: "C4H5NO3", C: "C3H5NOS",
+    E: "C5H7NO3", Q: "C5H8N2O2", G: "C2H3NO", H: "C6H7N3O", I: "C6H11NO",
+    L: "C6H11NO", K: "C6H12N2O", M: "C5H9NOS", F: "C9H9NO", P: "C5H7NO",
+    S: "C3H5NO2", T: "C4H7NO2", W: "C11H10N2O", Y: "C9H9NO2", V: "C5H9NO",
+    U: "C3H5NOSe",
+};
+
+const THREE_LETTER: Record<string, string> = {
+    Ala: "A", Arg: "R", Asn: "N", Asp: "D", Cys: "C", Glu: "E", Gln: "Q", Gly: "G",
+    His: "H", Ile: "I", Leu: "L", Lys: "K", Met: "M", Phe: "F", Pro: "P", Ser: "S",
+    Thr: "T", Trp: "W", Tyr: "Y", Val: "V", Sec: "U",
+};
+
+const PHOSPHORYLATABLE = ["S", "T", "Y"];
+
+// Modification deltas applied to the free peptide H-...-OH
+const WATER: Composition = { H: 2, O: 1 };
+const ACETYL: Composition = { C: 2, H: 2, O: 1 };
+const AMIDE: Composition = { N: 1, H: 1, O: -1 };
+const PHOSPHATE: Composition = { H: 1, P: 1, O: 3 };
+const DISULFIDE: Composition = { H: -2 };
+
+// EMBOSS pKa set; phosphate groups use the values of a phosphomonoester
+const PKA = {
+    nTerm: 8.6, cTerm: 3.6,
+    K: 10.8, R: 12.5, H: 6.5,
+    D: 3.9, E: 4.1, C: 8.5, Y: 10.1,
+    phosphate: [1.2, 6.5],
+};
+
+// Pace et al. (1995) extinction coefficients at 280 nm
+const EXTINCTION = { W: 5500, Y: 1490, cystine: 125 };
+
+interface Residue {
+    code: string;
+    phospho: boolean;
+}
+
+function addTo(total: Composition, part: Composition, times = 1) {
+    for (const atom in part) {
+        total[atom] = (total[atom] || 0) + part[atom] * times;
+        if (total[atom] === 0) delete total[atom];
+    }
+}
+
+/** Reads one- or three-letter residues; a "p" prefix marks a phosphorylated S/T/Y. */
+function parseResidues(body: string): Residue[] {
+    const threeLetter = body.includes("-") || /^(p?[A-Z][a-z]{2})+$/.test(body);
+    const tokens = threeLetter
+        ? body.split("-").filter(Boolean)
+        : (/[A-Z]/.test(body) ? body : body.toUpperCase()).match(/p?[A-Za-z]|./g) || [];
+
+    return tokens.map((token) => {
+        const phospho = /^p[A-Z]/.test(token);
+        const name = phospho ? token.slice(1) : token;
+        const code = threeLetter ? THREE_LETTER[name] : name;
+
+        if (!code || !RESIDUE_FORMULAS[code]) {
+            throw new Error(`Unknown amino acid: ${token}`);
+        }
+        if (phospho && !PHOSPHORYLATABLE.includes(code)) {
+            throw new Error(`Only Ser, Thr and Tyr can be phosphorylated (${token})`);
+        }
+        return { code, phospho };
+    });
+}
+
+/** Net charge of the peptide at a given pH (Henderson–Hasselbalch). */
+function netCharge(pH: number, residues: Residue[], freeN: boolean, freeC: boolean, disulfides: number): number {
+    const positive = (pKa: number) => 1 / (1 + Math.pow(10, pH - pKa));
+    const negative = (pKa: number) => -1 / (1 + Math.pow(10, pKa - pH));
+
+    let charge = 0;
+    if (freeN) charge += positive(PKA.nTerm);
+    if (freeC) charge += negative(PKA.cTerm);
+
+    // Cysteines in disulfides have no free thiol
+    let freeCysteines = residues.filter((r) => r.code === "C").length - disulfides * 2;
+    for (const r of residues) {
+        if (r.phospho) {
+            PKA.phosphate.forEach((pKa) => (charge += negative(pKa)));
+        } else if (r.code === "K" || r.code === "R" || r.code === "H") {
+            charge += positive(PKA[r.code]);
+        } else if (r.code === "D" || r.code === "E" || r.code === "Y") {
+            charge += negative(PKA[r.code]);
+        } else if (r.code === "C" && freeCysteines > 0) {
+            charge += negative(PKA.C);
+            freeCysteines--;
+        }
+    }
+    return charge;
+}
+
+/** Theoretical isoelectric point, found by bisection over pH 0–14. */
+function isoelectricPoint(residues: Residue[], freeN: boolean, freeC: boolean, disulfides: number): number {
+    let low = 0;
+    let high = 14;
+    while (high - low > 0.001) {
+        const mid = (low + high) / 2;
+        if (netCharge(mid, residues, freeN, freeC, disulfides) > 0) low = mid;
+        else high = mid;
+    }
+    return (low + high) / 2;
+}
+
+/**
+ * Parses a peptide or protein sequence in one-letter (ACDK, FASTA allowed)
+ * or three-letter (Ala-Cys-Asp-Lys) code. Supports an N-terminal "Ac-",
+ * a C-terminal "-NH2" and phosphorylated residues written pS/pT/pY or pSer.
+ */
+export function parsePeptide(input: string, options: PeptideOptions = {}): PeptideResult {
+    const { disulfides = 0 } = options;
+
+    // Drop FASTA headers and whitespace
+    let body = input
+        .split("\n")
+        .filter((line) => !line.trim().startsWith(">"))
+        .join("")
+        .replace(/\s/g, "");
+
+    const nTerm = body.match(/^(Ac|H)-/);
+    if (nTerm) body = body.slice(nTerm[0].length);
+    const cTerm = body.match(/-(NH2|OH)$/);
+    if (cTerm) body = body.slice(0, -cTerm[0].length);
+
+    const acetylated = nTerm?.[1] === "Ac";
+    const amidated = cTerm?.[1] === "NH2";
+
+    // Position numbers, as in pasted FASTA or GenBank text
+    body = body.replace(/\d/g, "");
+    if (!body) throw new Error("Enter a sequence, e.g. ACDEFGHIK");
+    const residues = parseResidues(body);
+
+    const cysteines = residues.filter((r) => r.code === "C").length;
+    if (!Number.isInteger(disulfides) || disulfides < 0 || disulfides * 2 > cysteines) {
+        throw new Error(`${cysteines} cysteine(s) can form at most ${Math.floor(cysteines / 2)} disulfide(s)`);
+    }
+
+    const composition: Composition = {};
+    for (const r of residues) {
+        addTo(composition, parseFormula(RESIDUE_FORMULAS[r.code], {}));
+        if (r.phospho) addTo(composition, PHOSPHATE);
+    }
+    addTo(composition, WATER);
+    if (acetylated) addTo(composition, ACETYL);
+    if (amidated) addTo(composition, AMIDE);
+    addTo(composition, DISULFIDE, disulfides);
+
+    const masses = calculateMasses(composition);
+    const count = (code: string) => residues.filter((r) => r.code === code).length;
+    const oneLetter = residues.map((r) => (r.phospho ? `p${r.code}` : r.code)).join("");
+
+    return {
+        sequence: `${acetylated ? "Ac-" : ""}${oneLetter}${amidated ? "-NH2" : ""}`,
+        length: residues.length,
+        composition,
+        formula: toHillFormula(composition),
+        mw: masses.average,
+        monoisotopicMass: masses.monoisotopic,
+        pI: isoelectricPoint(residues, !acetylated, !amidated, disulfides),
+        extinctionCoefficient: count("W") * EXTINCTION.W + count("Y") * EXTINCTION.Y + disulfides * EXTINCTION.cystine,
+    };
+}
@@ -0,0 +1,152 @@
+import { Dimension, getUnit, UNITS } from "./units";
+import { DEFAULT_LOCALE, normalizeNumber } from "./locale";
+
+// Reads lab shorthand such as "500 mL of 2 mM NaCl", "make 1 L 10X PBS" or
+// "dilute 5 M stock to 150 mM in 50 mL" into quantities, their roles and the
+// chemical, and records how each part was read.
+
+export type PhraseIntent = "dilution" | "solution" | "recipe" | "unknown";
+
+export interface PhraseQuantity {
+    value: number;
+    number: string; // as typed (decimal point normalized), keeping its significant figures
+    unit: string; // registry id, e.g. "mM"
+    text: string; // number and unit as typed
+}
+
+export interface Phrase {
+    intent: PhraseIntent;
+    chemical: string | null;
+    volume: PhraseQuantity | null; // final volume
+    mass: PhraseQuantity | null;
+    concentration: PhraseQuantity | null; // of the solution being made
+    stock: PhraseQuantity | null; // concentration of the stock being diluted
+    strength: number | null; // 10 for "10X"
+    interpretation: string[]; // one line per part, in the order read
+    ignored: string[]; // quantities that had no role
+}
+
+const CONCENTRATION: Dimension[] = ["amount_concentration", "equivalent_concentration", "mass_concentration", "mass_fraction", "volume_fraction"];
+
+// Percentages with their basis written out
+const PERCENT_UNITS: Record<string, string> = { "w/v": "pct", "w/w": "pct_ww", "v/v": "pct_vv" };
+
+// Words that frame a phrase rather than name the chemical
+const FILLER = new Set([
+    "a", "an", "the", "of", "in", "to", "into", "from", "with", "for", "at", "and",
+    "make", "prepare", "prep", "need", "want", "dilute", "dilution", "diluted",
+    "stock", "solution", "final", "volume", "total", "me", "up", "working", "i",
+]);
+
+// Conditions written after a chemical ("EDTA pH 8", "Tris pH 7.4 at 25 °C") that aren't part of its name
+const QUALIFIER_PATTERN = /\bpH\s*=?\s*\d+(?:[.,]\d+)?|-?\d+(?:[.,]\d+)?\s*°\s*[CF]\b/g;
+
+const NUMBER = String.raw`(\d+(?:[.,]\d+)*(?:[eE][+-]?\d+)?|[.,]\d+)`;
+const UNIT = String.raw`(%\s*\(?\s*[wv]\s*\/\s*[wv]\s*\)?|%|[A-Za-zμµ][A-Za-zμµ]*(?:\/[A-Za-zμµ]+)?)`;
+const QUANTITY_PATTERN = new RegExp(String.raw`(?<![\w.,])${NUMBER}\s*${UNIT}(?![\w/])`, "g");
+
+// Case-insensitive spellings for volumes and masses (ml, ul); concentrations stay case-sensitive (mM ≠ MM)
+const LOOSE_UNITS: Record<string, string> = {};
+for (const unit of UNITS) {
+    if (unit.dimension !== "volume" && unit.dimension !== "mass") continue;
+    for (const spelling of [unit.id, ...(unit.aliases || [])]) LOOSE_UNITS[spelling.toLowerCase()] = unit.id;
+}
+
+// A registry id, or "X" for a concentrate strength
+function resolveUnit(text: string): string | null {
+    const unit = text.replace(/µ/g, "μ").replace(/\s+/g, "");
+    if (unit === "X" || unit === "x") return "X";
+    const percent = unit.match(/^%\(?([wv]\/[wv])\)?$/);
+    if (percent) return PERCENT_UNITS[percent[1]] ?? null;
+    if (unit === "%") return "pct";
+    return getUnit(unit)?.id ?? LOOSE_UNITS[unit.toLowerCase()] ?? null;
+}
+
+interface Found extends PhraseQuantity {
+    dimension: Dimension | "strength";
+    start: number;
+    end: number;
+}
+
+/**
+ * Parses a phrase; anything it can't place is left out and reported in
+ * `ignored`. Numbers are read with the locale's separators ("0,5 M").
+ * Concentrations outside `concentrations` (say mg/mL for a molarity) are ignored.
+ */
+export function parseQuantityPhrase(text: string, locale: string = DEFAULT_LOCALE, concentrations: Dimension[] = CONCENTRATION): Phrase {
+    const phrase: Phrase = {
+        intent: "unknown",
+        chemical: null,
+        volume: null,
+        mass: null,
+        concentration: null,
+        stock: null,
+        strength: null,
+        interpretation: [],
+        ignored: [],
+    };
+
+    const found: Found[] = [];
+    for (const m of text.matchAll(QUANTITY_PATTERN)) {
+        const unit = resolveUnit(m[2]);
+        const number = normalizeNumber(m[1], locale);
+        if (!unit || !number) continue;
+        const value = parseFloat(number);
+        const start = m.index ?? 0;
+        const dimension = unit === "X" ? "strength" : getUnit(unit)!.dimension;
+        found.push({ value, number, unit, text: m[0].trim(), dimension, start, end: start + m[0].length });
+    }
+
+    const before = (q: Found) => text.slice(0, q.start).trim().split(/\s+/).pop()?.toLowerCase() ?? "";
+    const after = (q: Found) => text.slice(q.end).trim().split(/\s+/)[0]?.toLowerCase() ?? "";
+    const used = new Set<Found>();
+    const take = (q: Found, role: string): PhraseQuantity => {
+        used.add(q);
+        phrase.interpretation.push(`${q.text} → ${role}`);
+        return { value: q.value, number: q.number, unit: q.unit, text: q.text };
+    };
+    const ofDimension = (...dimensions: Found["dimension"][]) => found.filter((q) => dimensions.includes(q.dimension));
+
+    // Concentrations: a stock is marked ("5 M stock", "from 5 M"), else the first of two is diluted into the second
+    const given = ofDimension(...concentrations);
+    const marked = given.find((q) => after(q) === "stock" || before(q) === "from");
+    const stock = marked ?? (given.length > 1 ? given[0] : undefined);
+    if (stock) phrase.stock = take(stock, "stock concentration");
+    const target = given.find((q) => q !== stock);
+    if (target) phrase.concentration = take(target, stock ? "target concentration" : "concentration");
+
+    // Volumes: the one after "in"/"to"/"make" is the final volume; otherwise the first
+    const volumes = ofDimension("volume");
+    const finalVolume = volumes.find((q) => ["in", "to", "make", "prepare", "of"].includes(before(q))) ?? volumes[0];
+    if (finalVolume) phrase.volume = take(finalVolume, "final volume");
+
+    const [mass] = ofDimension("mass");
+    if (mass) phrase.mass = take(mass, "mass");
+
+    const [strength] = ofDimension("strength");
+    if (strength) {
+        take(strength, "strength (X)");
+        phrase.strength = strength.value;
+    }
+
+    phrase.ignored = found.filter((q) => !used.has(q)).map((q) => q.text);
+
+    // What's left, minus framing words, names the chemical
+    let rest = text;
+    for (const q of [...found].reverse()) rest = rest.slice(0, q.start) + " " + rest.slice(q.end);
+    rest = rest.replace(QUALIFIER_PATTERN, (qualifier) => {
+        phrase.interpretation.push(`${qualifier} → condition, not in the name`);
+        return " ";
+    });
+    const words = rest.split(/[\s,;]+/).filter((w) => w && !FILLER.has(w.toLowerCase()));
+    if (words.length) {
+        phrase.chemical = words.join(" ");
+        phrase.interpretation.push(`${phrase.chemical} → chemical`);
+    }
+
+    if (phrase.stock || (/\bdilut/i.test(text) && phrase.concentration)) phrase.intent = "dilution";
+    else if (phrase.strength !== null) phrase.intent = "recipe";
+    else if (phrase.concentration || phrase.mass || phrase.volume) phrase.intent = "solution";
+
+    return phrase;
+}
@@ -0,0 +1,124 @@
+import { GROUP_ABBREVIATIONS } from "./constants";
+import { AtomicWeightTable, DEFAULT_ATOMIC_WEIGHT_TABLE } from "./atomicWeights";
+import { Composition, parseFormula, calculateMw, toHillFormula } from "./parser";
+
+export interface PolymerOptions {
+    /** Degree of polymerization (repeat units per chain); may be fractional as an average. */
+    dp?: number;
+    /** Target number-average molar mass (g/mol), used when no DP is given. */
+    mn?: number;
+    /** Đ = Mw/Mn; 1 for a uniform polymer. */
+    dispersity?: number;
+}
+
+export interface PolymerResult {
+    notation: string; // as entered, e.g. "PEG-3350" or "H(OCH2CH2)nOH"
+    repeatUnit: string; // Hill formula of one repeat unit
+    endGroups: string; // Hill formula of both end groups together
+    repeatUnitMass: number;
+    dp: number;
+    mn: number;
+    mw: number;
+    dispersity: number;
+    composition: Composition; // at the average DP
+    formula: string;
+}
+
+// Common polymers, written end group + (repeat unit)n + end group
+const POLYMER_PRESETS: Record<string, string> = {
+    PEG: "H(OCH2CH2)nOH",
+    PEO: "H(OCH2CH2)nOH",
+    PPG: "H(OC3H6)nOH",
+    PVP: "H(C6H9NO)nH",
+    PAM: "H(C3H5NO)nH",
+    PVA: "H(C2H4O)nH",
+    PAA: "H(C3H4O2)nH",
+    PS: "H(C8H8)nH",
+    PMMA: "H(C5H8O2)nH",
+};
+
+// PEG-3350, PEG 8000, PVP-40k
+const PRESET_PATTERN = new RegExp(`^(${Object.keys(POLYMER_PRESETS).join("|")})(?:[\\s-]*(\\d+(?:\\.\\d+)?)\\s*([kK])?)?$`);
+// End group, (repeat unit) or [repeat unit] followed by n, end group
+const REPEAT_PATTERN = /^(.*?)[([]([^()[\]]+)[)\]]n(.*)$/;
+
+/** True for polymer notation: a preset name such as PEG-3350, or a formula with a (repeat unit)n. */
+export function looksLikePolymer(input: string): boolean {
+    const trimmed = input.trim();
+    return PRESET_PATTERN.test(trimmed) || REPEAT_PATTERN.test(trimmed);
+}
+
+/** End groups may be written with bond dashes (HO-[C2H4O]n-H); a trailing dash isn't a charge. */
+function parseEndGroup(text: string, groups: Record<string, string>): Composition {
+    const formula = text.trim().replace(/^-+|-+$/g, "");
+    return formula ? parseFormula(formula, groups) : {};
+}
+
+/**
+ * Reads polymer notation (a preset like PEG-3350, or end groups around a
+ * repeat unit, H(OCH2CH2)nOH) and works out the chain at the requested DP or
+ * Mn. Mn is the molar mass of the average chain; Mw follows from the
+ * dispersity. The composition and formula are those of the average chain.
+ */
+export function parsePolymer(
+    input: string,
+    options: PolymerOptions = {},
+    groups: Record<string, string> = GROUP_ABBREVIATIONS,
+    weights: AtomicWeightTable = DEFAULT_ATOMIC_WEIGHT_TABLE
+): PolymerResult {
+    const notation = input.trim();
+    let structure = notation;
+    let presetMn: number | undefined;
+
+    const preset = notation.match(PRESET_PATTERN);
+    if (preset) {
+        structure = POLYMER_PRESETS[preset[1]];
+        if (preset[2]) presetMn = parseFloat(preset[2]) * (preset[3] ? 1000 : 1);
+    }
+
+    const parts = structure.match(REPEAT_PATTERN);
+    if (!parts) {
+        throw new Error("Write the repeat unit in parentheses followed by n, e.g. H(OCH2CH2)nOH, or use a name like PEG-3350");
+    }
+
+    const repeat = parseFormula(parts[2], groups);
+    const ends: Composition = {};
+    for (const end of [parts[1], parts[3]]) {
+        const composition = parseEndGroup(end, groups);
+        for (const atom in composition) ends[atom] = (ends[atom] || 0) + composition[atom];
+    }
+
+    const repeatUnitMass = calculateMw(repeat, weights);
+    const endMass = calculateMw(ends, weights);
+
+    let dp = options.dp;
+    if (dp === undefined) {
+        const mn = options.mn ?? presetMn;
+        if (mn === undefined) throw new Error("Enter a degree of polymerization or a target Mn");
+        // Average DPs are kept to two decimals so the formula stays readable
+        dp = Math.round(((mn - endMass) / repeatUnitMass) * 100) / 100;
+    }
+    if (!(dp > 0)) throw new Error("The degree of polymerization must be positive (is Mn smaller than the end groups?)");
+
+    const dispersity = options.dispersity ?? 1;
+    if (!(dispersity >= 1)) throw new Error("Dispersity (Mw/Mn) can't be below 1");
+
+    const composition: Composition = { ...ends };
+    for (const atom in repeat) {
+        composition[atom] = Math.round(((composition[atom] || 0) + repeat[atom] * dp) * 1e6) / 1e6;
+    }
+
+    const mn = calculateMw(composition, weights);
+    return {
+        notation,
+        repeatUnit: toHillFormula(repeat),
+        endGroups: toHillFormula(ends),
+        repeatUnitMass,
+        dp,
+        mn,
+        mw: mn * dispersity,
+        dispersity,
+        composition,
+        formula: toHillFormula(composition),
+    };
+}
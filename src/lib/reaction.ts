@@ -0,0 +1,159 @@
+import { GROUP_ABBREVIATIONS } from "./constants";
+import { AtomicWeightTable, DEFAULT_ATOMIC_WEIGHT_TABLE } from "./atomicWeights";
+import { Composition, parseFormula, calculateMw } from "./parser";
+
+export interface ReactionSpecies {
+    formula: string; // as written, without coefficient or state symbol
+    composition: Composition;
+    side: "reactant" | "product";
+    coefficient: number;
+    mw: number;
+}
+
+export interface BalancedReaction {
+    species: ReactionSpecies[];
+    equation: string; // e.g. "4Fe + 3O2 → 2Fe2O3"
+}
+
+// Exact rationals, so elimination never loses a coefficient to rounding
+type Rational = [bigint, bigint];
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+function gcd(a: bigint, b: bigint): bigint {
+    a = a < ZERO ? -a : a;
+    b = b < ZERO ? -b : b;
+    while (b !== ZERO) [a, b] = [b, a % b];
+    return a;
+}
+
+function rational(num: bigint, den: bigint = ONE): Rational {
+    if (den < ZERO) [num, den] = [-num, -den];
+    const g = gcd(num, den) || ONE;
+    return [num / g, den / g];
+}
+
+const sub = (a: Rational, b: Rational) => rational(a[0] * b[1] - b[0] * a[1], a[1] * b[1]);
+const mul = (a: Rational, b: Rational) => rational(a[0] * b[0], a[1] * b[1]);
+const div = (a: Rational, b: Rational) => rational(a[0] * b[1], a[1] * b[0]);
+
+// Counts carry at most six decimals (see COUNT_PRECISION in the parser)
+const toRational = (count: number) => rational(BigInt(Math.round(count * 1e6)), BigInt(1e6));
+
+/** Basis of the null space of a matrix, by reduction to row echelon form. */
+function nullSpace(matrix: Rational[][], columns: number): Rational[][] {
+    const rows = matrix.map((row) => [...row]);
+    const pivots: number[] = [];
+
+    let r = 0;
+    for (let c = 0; c < columns && r < rows.length; c++) {
+        const pivot = rows.findIndex((row, i) => i >= r && row[c][0] !== ZERO);
+        if (pivot === -1) continue;
+        [rows[r], rows[pivot]] = [rows[pivot], rows[r]];
+
+        const lead = rows[r][c];
+        rows[r] = rows[r].map((x) => div(x, lead));
+        rows.forEach((row, i) => {
+            if (i === r || row[c][0] === ZERO) return;
+            const factor = row[c];
+            rows[i] = row.map((x, j) => sub(x, mul(factor, rows[r][j])));
+        });
+        pivots.push(c);
+        r++;
+    }
+
+    const basis: Rational[][] = [];
+    for (let free = 0; free < columns; free++) {
+        if (pivots.includes(free)) continue;
+        const vector: Rational[] = Array.from({ length: columns }, () => rational(ZERO));
+        vector[free] = rational(ONE);
+        pivots.forEach((c, i) => (vector[c] = rational(-rows[i][free][0], rows[i][free][1])));
+        basis.push(vector);
+    }
+    return basis;
+}
+
+/** Smallest whole-number multiple of a rational vector. */
+function toIntegers(vector: Rational[]): bigint[] {
+    const lcm = vector.reduce((acc, [, den]) => (acc * den) / gcd(acc, den), ONE);
+    const scaled = vector.map(([num, den]) => (num * lcm) / den);
+    const divisor = scaled.reduce((acc, x) => gcd(acc, x), ZERO) || ONE;
+    return scaled.map((x) => x / divisor);
+}
+
+/** Splits one side of an equation into species, keeping ion charges (H+ + e-) intact. */
+function splitSide(side: string): string[] {
+    const trimmed = side.trim();
+    const terms = /\s/.test(trimmed) ? trimmed.split(/\s+\+\s+/) : trimmed.split(/\+(?=[A-Z([])/);
+    return terms.map((t) => t.trim()).filter(Boolean);
+}
+
+/** Reads one species, dropping any coefficient and state symbol: "2H2O(l)" → H2O. */
+function parseSpecies(term: string, groups: Record<string, string>): { formula: string; composition: Composition } {
+    const formula = term
+        .replace(/\((s|l|g|aq)\)$/, "")
+        .replace(/^\d+\s*(?=[A-Z([])/, "")
+        .trim();
+    // Electrons, for half-reactions
+    if (/^e(-|⁻)?$/.test(formula)) return { formula: "e⁻", composition: { charge: -1 } };
+    return { formula, composition: parseFormula(formula, groups) };
+}
+
+/**
+ * Balances a chemical equation such as `Fe + O2 -> Fe2O3` or
+ * `MnO4- + H+ + e- = Mn2+ + H2O`. Coefficients are the smallest whole
+ * numbers that conserve every element and the net charge, so redox
+ * equations balance as long as all species are listed. Existing
+ * coefficients are ignored.
+ */
+export function balanceEquation(
+    equation: string,
+    groups: Record<string, string> = GROUP_ABBREVIATIONS,
+    weights: AtomicWeightTable = DEFAULT_ATOMIC_WEIGHT_TABLE
+): BalancedReaction {
+    const sides = equation.split(/\s*(?:<=>|<->|->|=>|⇌|→|⟶|=)\s*/);
+    if (sides.length !== 2 || !sides[0].trim() || !sides[1].trim()) {
+        throw new Error("Write the equation as reactants -> products, e.g. Fe + O2 -> Fe2O3");
+    }
+
+    const [reactants, products] = sides.map((side) => splitSide(side).map((term) => parseSpecies(term, groups)));
+    const all = [...reactants, ...products];
+
+    // One row per element (and charge), one column per species; products count negative
+    const keys = [...new Set(all.flatMap((s) => Object.keys(s.composition)))];
+    const matrix = keys.map((key) =>
+        all.map((s, i) => {
+            const count = toRational(s.composition[key] || 0);
+            return i < reactants.length ? count : rational(-count[0], count[1]);
+        })
+    );
+
+    const basis = nullSpace(matrix, all.length);
+    if (basis.length === 0) {
+        throw new Error("This equation can't be balanced. Check that every product can form from the reactants.");
+    }
+    if (basis.length > 1) {
+        throw new Error("This equation balances in more than one independent way. Split it into separate reactions.");
+    }
+
+    let coefficients = toIntegers(basis[0]);
+    if (coefficients[0] < ZERO) coefficients = coefficients.map((c) => -c);
+    if (coefficients.some((c) => c <= ZERO)) {
+        throw new Error("No balance exists with every species taking part. Check which side each species is on.");
+    }
+
+    const species: ReactionSpecies[] = all.map((s, i) => ({
+        ...s,
+        side: i < reactants.length ? "reactant" : "product",
+        coefficient: Number(coefficients[i]),
+        mw: calculateMw(s.composition, weights),
+    }));
+
+    const write = (side: ReactionSpecies["side"]) => species
+        .filter((s) => s.side === side)
+        .map((s) => `${s.coefficient === 1 ? "" : s.coefficient}${s.formula}`)
+        .join(" + ");
+
+    return { species, equation: `${write("reactant")} → ${write("product")}` };
+}
@@ -0,0 +1,109 @@
+// Synthesis reagent tables. Amounts use bench units: mmol, mg and mL.
+
+export interface Reagent {
+    id: string;
+    name: string;
+    formula?: string;
+    resolvedName?: string | null; // name whose MW is already known
+    mw: string; // g/mol
+    equivalents: string;
+    mass: string; // mg, as weighed (before purity correction)
+    volume: string; // mL
+    density: string; // g/mL, for liquids
+    purity: string; // %
+}
+
+export interface ReagentProduct {
+    name: string;
+    resolvedName?: string | null;
+    mw: string;
+    equivalents: string; // stoichiometric equivalents formed per equivalent of limiting reagent
+    isolatedMass: string; // mg, after workup
+}
+
+export interface ReagentTable {
+    id: string;
+    name: string;
+    description: string;
+    reagents: Reagent[];
+    limitingId: string | null;
+    product: ReagentProduct;
+}
+
+export interface ReagentAmounts {
+    mmol: number;
+    mass: number; // mg to weigh out
+    volume: number | null; // mL to measure, for reagents with a density
+}
+
+export interface ReagentTableResult {
+    rows: Record<string, ReagentAmounts>;
+    limitingMmol: number;
+    theoreticalYield: number | null; // mg
+    percentYield: number | null;
+}
+
+const num = (value: string) => parseFloat(value);
+const purityFraction = (reagent: Reagent) => (num(reagent.purity) > 0 ? num(reagent.purity) / 100 : 1);
+
+/**
+ * Moles of pure reagent in the weighed amount. Mass wins when both are
+ * given; a volume needs a density.
+ */
+function limitingMmol(reagent: Reagent): number | null {
+    const mw = num(reagent.mw);
+    if (!(mw > 0)) return null;
+
+    let mass = num(reagent.mass);
+    if (!(mass > 0)) {
+        const volume = num(reagent.volume);
+        const density = num(reagent.density);
+        if (!(volume > 0 && density > 0)) return null;
+        mass = volume * density * 1000;
+    }
+    return (mass * purityFraction(reagent)) / mw;
+}
+
+/**
+ * Works out every row of a reagent table from the limiting reagent: moles
+ * scale with equivalents, masses are corrected for purity, and liquids also
+ * get a volume. The product's theoretical yield follows from its
+ * equivalents; an isolated mass gives the % yield. Returns null until the
+ * limiting reagent has an MW and an amount.
+ */
+export function computeReagentTable(table: Pick<ReagentTable, "reagents" | "limitingId" | "product">): ReagentTableResult | null {
+    const limiting = table.reagents.find((r) => r.id === table.limitingId);
+    if (!limiting) return null;
+
+    const mmol = limitingMmol(limiting);
+    const limitingEq = num(limiting.equivalents) > 0 ? num(limiting.equivalents) : 1;
+    if (mmol === null) return null;
+
+    const rows: Record<string, ReagentAmounts> = {};
+    for (const reagent of table.reagents) {
+        const mw = num(reagent.mw);
+        const eq = num(reagent.equivalents);
+        if (!(mw > 0) || !(eq > 0)) continue;
+
+        const reagentMmol = (mmol * eq) / limitingEq;
+        const mass = (reagentMmol * mw) / purityFraction(reagent);
+        const density = num(reagent.density);
+        rows[reagent.id] = {
+            mmol: reagentMmol,
+            mass,
+            volume: density > 0 ? mass / density / 1000 : null,
+        };
+    }
+
+    const productMw = num(table.product.mw);
+    const productEq = num(table.product.equivalents) > 0 ? num(table.product.equivalents) : 1;
+    const theoreticalYield = productMw > 0 ? ((mmol * productEq) / limitingEq) * productMw : null;
+    const isolated = num(table.product.isolatedMass);
+
+    return {
+        rows,
+        limitingMmol: mmol,
+        theoreticalYield,
+        percentYield: theoreticalYield && isolated >= 0 ? (isolated / theoreticalYield) * 100 : null,
+    };
+}
@@ -6,6 +6,12 @@ export interface RecipeSolute {
     isStock?: boolean;
     stockConc?: string;
     stockUnit?: string;
+    liquid?: boolean; // measured by volume
+    density?: string; // g/mL, of the liquid or % w/w stock
+    assay?: string; // % w/w of the compound in the liquid
+    equivalents?: string; // eq/mol, for stocks given in N
+    formula?: string; // as looked up, for dissociation into ions
+    vantHoff?: string; // particles per formula unit, overriding the formula
 }
 
 export interface Recipe {
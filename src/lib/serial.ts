@@ -0,0 +1,108 @@
+// Serial dilutions for standard curves and MIC assays. Each tube is made from
+// the one before it, so every tube but the last is made up with extra volume
+// for the transfer it gives to the next; all tubes end at the same volume.
+
+import { DEFAULT_LOCALE, normalizeNumber } from "./locale";
+
+export type SerialMode = "factor" | "series"; // a constant fold, or a list of target concentrations
+
+export interface SerialTube {
+    conc: number; // in the start concentration's unit
+    factor: number; // fold dilution of the tube it's made from
+    transfer: number; // L taken from the previous tube (the stock for the first)
+    diluent: number; // L
+    prepared: number; // L mixed, before the next tube's transfer is taken out
+}
+
+export interface SerialPlan {
+    tubes: SerialTube[];
+    stockVolume: number; // L of stock used
+    diluentVolume: number; // L of diluent across all tubes
+}
+
+/**
+ * Reads a list of target concentrations ("100; 50; 10", or one per line)
+ * as plain number strings. Commas are left to the number ("1,000" or "0,5"),
+ * so only semicolons and new lines separate. Returns null if any entry isn't a number.
+ */
+export function parseTargetSeries(text: string, locale: string = DEFAULT_LOCALE): string[] | null {
+    const targets: string[] = [];
+    for (const entry of text.split(/[;\n]+/)) {
+        if (!entry.trim()) continue;
+        const normalized = normalizeNumber(entry, locale);
+        if (!normalized) return null;
+        targets.push(normalized);
+    }
+    return targets;
+}
+
+/** Fold dilution of each step from the start concentration down a list of targets. */
+export function seriesFactors(start: number, targets: number[]): number[] {
+    let previous = start;
+    return targets.map((target, i) => {
+        if (!(target > 0)) throw new Error(`Target ${i + 1} must be above zero`);
+        if (target >= previous) throw new Error(`Target ${i + 1} must be below ${i ? `target ${i}` : "the start concentration"}`);
+        const factor = previous / target;
+        previous = target;
+        return factor;
+    });
+}
+
+/**
+ * Plans a serial dilution from a stock: one tube per factor, each ending at
+ * `finalVolume` (L) after giving its transfer to the next. Works back from the
+ * last tube, which only needs the final volume.
+ */
+export function planSerialDilution(start: number, factors: number[], finalVolume: number): SerialPlan {
+    if (!(start > 0)) throw new Error("Start concentration must be above zero");
+    if (!(finalVolume > 0)) throw new Error("Final volume must be above zero");
+    if (factors.some((f) => !(f > 1))) throw new Error("Dilution factor must be greater than 1");
+
+    const tubes: SerialTube[] = [];
+    let nextTransfer = 0;
+    for (let i = factors.length - 1; i >= 0; i--) {
+        const prepared = finalVolume + nextTransfer;
+        const transfer = prepared / factors[i];
+        tubes[i] = { conc: 0, factor: factors[i], transfer, diluent: prepared - transfer, prepared };
+        nextTransfer = transfer;
+    }
+
+    let conc = start;
+    for (const tube of tubes) {
+        conc /= tube.factor;
+        tube.conc = conc;
+    }
+
+    return {
+        tubes,
+        stockVolume: tubes.length ? tubes[0].transfer : 0,
+        diluentVolume: tubes.reduce((sum, t) => sum + t.diluent, 0),
+    };
+}
+
+// 96-well plate: rows A–H, columns 1–12
+export const PLATE_ROWS = "ABCDEFGH";
+export const PLATE_COLUMNS = 12;
+
+export type PlateDirection = "across" | "down"; // series along a row, or down a column
+
+/**
+ * Lays replicates of a series out on a 96-well plate: the tube index in each
+ * well, row by row, or null for an empty well. "across" puts each replicate
+ * in its own row, "down" in its own column. Throws when it doesn't fit.
+ */
+export function plateLayout(points: number, replicates: number, direction: PlateDirection): (number | null)[][] {
+    const length = direction === "across" ? PLATE_COLUMNS : PLATE_ROWS.length;
+    const lanes = direction === "across" ? PLATE_ROWS.length : PLATE_COLUMNS;
+    if (points > length) throw new Error(`${points} points don't fit ${direction === "across" ? "across a row" : "down a column"} of ${length} wells`);
+    if (replicates > lanes) throw new Error(`${replicates} replicates don't fit; the plate has ${lanes} ${direction === "across" ? "rows" : "columns"}`);
+
+    const plate: (number | null)[][] = Array.from({ length: PLATE_ROWS.length }, () => Array(PLATE_COLUMNS).fill(null));
+    for (let lane = 0; lane < replicates; lane++) {
+        for (let point = 0; point < points; point++) {
+            if (direction === "across") plate[lane][point] = point;
+            else plate[point][lane] = point;
+        }
+    }
+    return plate;
+}
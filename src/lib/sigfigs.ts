@@ -0,0 +1,80 @@
+// Significant figures: counted from what the user typed, carried through
+// multiplication and division (fewest wins), and used to round results.
+
+import { DEFAULT_LOCALE, localizeNumber } from "./locale";
+
+export type Notation = "sigfigs" | "fixed" | "scientific";
+
+export interface NumberFormat {
+    notation: Notation; // sigfigs: follow the inputs; fixed/scientific: override
+    decimals: number; // after the point for fixed, in the mantissa for scientific
+    locale?: string; // BCP 47 tag for separators; en-US when unset
+}
+
+export const DEFAULT_NUMBER_FORMAT: NumberFormat = { notation: "sigfigs", decimals: 3, locale: DEFAULT_LOCALE };
+
+// Used when nothing is known about the inputs and fixed decimals would show 0
+const FALLBACK_SIG_FIGS = 3;
+
+/**
+ * Significant figures in a typed number. Leading zeros don't count; trailing
+ * zeros do, including those of whole numbers ("500" mL is taken as meant).
+ * Returns undefined for text that isn't a plain number.
+ */
+export function countSigFigs(text: string | number | null | undefined): number | undefined {
+    if (typeof text !== "string") return undefined; // computed and library values are treated as exact
+    const m = text.trim().match(/^[+-]?(\d*)(?:\.(\d*))?(?:e[+-]?\d+)?$/i);
+    if (!m || !(m[1] || m[2])) return undefined;
+
+    const whole = m[1].replace(/^0+/, "");
+    const fraction = m[2] ?? "";
+    if (whole) return whole.length + fraction.length;
+    const digits = fraction.replace(/^0+/, "");
+    return digits.length || Math.max(fraction.length, 1);
+}
+
+/** Fewest significant figures among the typed inputs of a product or quotient. */
+export function inputSigFigs(...inputs: (string | number | null | undefined)[]): number | undefined {
+    const counts = inputs.map(countSigFigs).filter((n): n is number => n !== undefined);
+    return counts.length ? Math.min(...counts) : undefined;
+}
+
+/** Rounds to significant figures, keeping trailing zeros and never switching to exponents. */
+export function toSigFigs(value: number, sigFigs: number): string {
+    if (value === 0) return (0).toFixed(Math.max(sigFigs - 1, 0));
+    const text = value.toPrecision(sigFigs);
+    if (!/e/.test(text)) return text;
+    const magnitude = Math.floor(Math.log10(Math.abs(value)));
+    return magnitude < 0
+        ? value.toFixed(Math.min(sigFigs - 1 - magnitude, 100))
+        : Number(text).toString();
+}
+
+function roundNumber(value: number, decimals: number, sigFigs: number | undefined, format: NumberFormat): string {
+    switch (format.notation) {
+        case "fixed":
+            return value.toFixed(format.decimals);
+        case "scientific":
+            return value.toExponential(sigFigs ? sigFigs - 1 : format.decimals);
+        default: {
+            if (sigFigs) return toSigFigs(value, sigFigs);
+            const rounded = parseFloat(value.toFixed(decimals));
+            return rounded === 0 && value !== 0 ? toSigFigs(value, FALLBACK_SIG_FIGS) : rounded.toString();
+        }
+    }
+}
+
+/**
+ * Formats a value for display with the separators of `format.locale`.
+ * `decimals` is the unit's default, used when the precision of the inputs is
+ * unknown; `sigFigs` comes from the inputs.
+ */
+export function formatNumber(
+    value: number,
+    decimals: number,
+    sigFigs?: number,
+    format: NumberFormat = DEFAULT_NUMBER_FORMAT
+): string {
+    if (!isFinite(value)) return "-";
+    return localizeNumber(roundNumber(value, decimals, sigFigs, format), format.locale ?? DEFAULT_LOCALE);
+}
@@ -0,0 +1,176 @@
+import { PTABLE, ISOTOPE_MASSES } from "./constants";
+import { Composition } from "./parser";
+
+interface SmilesAtom {
+    key: string; // composition key, e.g. "C" or "[13C]"
+    symbol: string;
+    aromatic: boolean;
+    bracket: boolean;
+    hydrogens: number; // explicit count for bracket atoms
+    charge: number;
+    bondOrder: number; // sum of bond orders to other heavy atoms
+}
+
+// Normal valences of the organic subset, lowest first
+const VALENCES: Record<string, number[]> = {
+    B: [3], C: [4], N: [3, 5], O: [2], P: [3, 5], S: [2, 4, 6],
+    F: [1], Cl: [1], Br: [1], I: [1],
+};
+
+const AROMATIC = ["b", "c", "n", "o", "p", "s", "se", "as"];
+const BOND_ORDERS: Record<string, number> = { "-": 1, "=": 2, "#": 3, "$": 4, ":": 1, "/": 1, "\\": 1 };
+
+const TOKEN = /\[[^\]]*\]|Cl|Br|[BCNOPSFI]|[bcnops]|\*|[-=#$:/\\]|\.|\(|\)|%\d{2}|\d/g;
+const BRACKET_ATOM = /^\[(\d+)?([A-Z][a-z]?|se|as|[bcnops])(@+(?:TH|AL|SP|TB|OH)?\d*)?(H\d*)?([+-]+\d*)?(?::\d+)?\]$/;
+
+function parseBracketAtom(token: string): SmilesAtom {
+    const match = token.match(BRACKET_ATOM);
+    if (!match) throw new Error(`Invalid SMILES atom: ${token}`);
+
+    const [, isotope, rawSymbol, , hydrogens, charge] = match;
+    const aromatic = AROMATIC.includes(rawSymbol);
+    const symbol = aromatic ? rawSymbol[0].toUpperCase() + rawSymbol.slice(1) : rawSymbol;
+    if (!PTABLE[symbol]) throw new Error(`Unknown element: ${symbol}`);
+
+    let key = symbol;
+    if (isotope) {
+        if (!ISOTOPE_MASSES[symbol]?.[parseInt(isotope)]) throw new Error(`Unknown isotope: ${isotope}${symbol}`);
+        key = `[${parseInt(isotope)}${symbol}]`;
+    }
+
+    let chargeValue = 0;
+    if (charge) {
+        const sign = charge[0] === "+" ? 1 : -1;
+        const digits = charge.match(/\d+$/);
+        chargeValue = sign * (digits ? parseInt(digits[0]) : charge.replace(/\d/g, "").length);
+    }
+
+    return {
+        key,
+        symbol,
+        aromatic,
+        bracket: true,
+        hydrogens: hydrogens ? parseInt(hydrogens.slice(1) || "1") : 0,
+        charge: chargeValue,
+        bondOrder: 0,
+    };
+}
+
+/** Implicit hydrogens of an organic-subset atom, from its lowest fitting valence. */
+function implicitHydrogens(atom: SmilesAtom, degree: number): number {
+    const valences = VALENCES[atom.symbol];
+    if (atom.aromatic) {
+        // One valence goes to the aromatic π system, except for O/S-type lone-pair donors
+        return Math.max(0, valences[0] - degree - 1);
+    }
+    const valence = valences.find((v) => v >= atom.bondOrder);
+    return valence === undefined ? 0 : valence - atom.bondOrder;
+}
+
+/**
+ * True for input that reads as SMILES rather than a molecular formula: it
+ * uses bond, ring or stereo symbols, charged bracket atoms, aromatic atoms,
+ * or repeats an organic atom (CCO, OCCO) the way a formula never would.
+ * Callers should still fall back to formula parsing when parseSmiles fails.
+ */
+export function looksLikeSmiles(input: string): boolean {
+    if (!/^[A-Za-z0-9@+\-[\]()=#$:/\\%.*]+$/.test(input)) return false;
+    if (/[=#$@/\\%]/.test(input)) return true;
+    // Bracket atoms carrying hydrogens or a charge: [NH4+], [O-], [nH]
+    if (/\[[^\]]*(H\d*|[+-]\d*)\]/.test(input)) return true;
+
+    const outside = input.replace(/\[[^\]]*\]/g, "");
+    if (/(^|[^A-Za-z])[bcnops]|[bcnops][bcnops]/.test(outside)) return true;
+
+    const atoms = outside.replace(/[\d().]/g, "").match(/Cl|Br|[BCNOPSFI]|./g) || [];
+    return atoms.length > 0
+        && atoms.every((a) => VALENCES[a])
+        && new Set(atoms).size < atoms.length;
+}
+
+/**
+ * Parses a SMILES string into its elemental composition, including implicit
+ * hydrogens. Supports aromatic atoms, branches, ring closures (including %nn),
+ * bracket atoms with isotopes, hydrogen counts and charges, and "."-separated
+ * components such as salts.
+ */
+export function parseSmiles(smiles: string): Composition {
+    const input = smiles.trim();
+    const tokens = input.match(TOKEN);
+    if (!tokens || tokens.join("") !== input) throw new Error(`Invalid SMILES: ${input}`);
+
+    const atoms: SmilesAtom[] = [];
+    const degrees: number[] = [];
+    const branches: number[] = [];
+    const rings = new Map<string, { atom: number; bond: string | null }>();
+    let previous: number | null = null;
+    let pendingBond: string | null = null;
+
+    const bond = (a: number, b: number, symbol: string | null) => {
+        const order = symbol ? BOND_ORDERS[symbol] : 1;
+        atoms[a].bondOrder += order;
+        atoms[b].bondOrder += order;
+        degrees[a]++;
+        degrees[b]++;
+    };
+
+    for (const token of tokens) {
+        if (token === "(") {
+            if (previous === null) throw new Error("Invalid SMILES: branch without an atom");
+            branches.push(previous);
+        } else if (token === ")") {
+            if (branches.length === 0) throw new Error("Invalid SMILES: unbalanced parentheses");
+            previous = branches.pop() ?? null;
+        } else if (token === ".") {
+            previous = null;
+        } else if (BOND_ORDERS[token]) {
+            pendingBond = token;
+        } else if (/^(\d|%\d{2})$/.test(token)) {
+            if (previous === null) throw new Error("Invalid SMILES: ring closure without an atom");
+            const open = rings.get(token);
+            if (open) {
+                bond(open.atom, previous, pendingBond ?? open.bond);
+                rings.delete(token);
+            } else {
+                rings.set(token, { atom: previous, bond: pendingBond });
+            }
+            pendingBond = null;
+        } else if (token === "*") {
+            throw new Error("Wildcard atoms (*) have no defined mass");
+        } else {
+            const atom: SmilesAtom = token.startsWith("[")
+                ? parseBracketAtom(token)
+                : {
+                    key: token[0].toUpperCase() + token.slice(1),
+                    symbol: token[0].toUpperCase() + token.slice(1),
+                    aromatic: AROMATIC.includes(token),
+                    bracket: false,
+                    hydrogens: 0,
+                    charge: 0,
+                    bondOrder: 0,
+                };
+            atoms.push(atom);
+            degrees.push(0);
+            const index = atoms.length - 1;
+            if (previous !== null) bond(previous, index, pendingBond);
+            previous = index;
+            pendingBond = null;
+        }
+    }
+
+    if (branches.length > 0) throw new Error("Invalid SMILES: unbalanced parentheses");
+    if (rings.size > 0) throw new Error(`Invalid SMILES: unclosed ring ${[...rings.keys()].join(", ")}`);
+    if (atoms.length === 0) throw new Error("Invalid SMILES: no atoms");
+
+    const composition: Composition = {};
+    let charge = 0;
+    atoms.forEach((atom, i) => {
+        composition[atom.key] = (composition[atom.key] || 0) + 1;
+        const hydrogens = atom.bracket ? atom.hydrogens : implicitHydrogens(atom, degrees[i]);
+        if (hydrogens > 0) composition.H = (composition.H || 0) + hydrogens;
+        charge += atom.charge;
+    });
+    if (charge !== 0) composition.charge = charge;
+
+    return composition;
+}
@@ -0,0 +1,182 @@
+// Unit registry shared by every calculator. Each unit belongs to one
+// dimension and converts to that dimension's base unit by a factor.
+
+export type Dimension =
+    | "amount_concentration" // base mol/L
+    | "equivalent_concentration" // base eq/L (normality)
+    | "mass_concentration" // base g/L
+    | "mass_fraction" // base g/g
+    | "volume_fraction" // base L/L
+    | "dilution" // base X (fold)
+    | "volume" // base L
+    | "mass"; // base g
+
+export interface UnitDef {
+    id: string; // stored in state and recipes
+    label: string; // shown next to values
+    option?: string; // longer text for <select>s, if different
+    dimension: Dimension;
+    factor: number; // value × factor = base unit
+    decimals: number; // default display precision
+    aliases?: string[]; // ASCII spellings (uM, ug/mL)
+}
+
+export const UNITS: UnitDef[] = [
+    { id: "M", label: "M", dimension: "amount_concentration", factor: 1, decimals: 3 },
+    { id: "mM", label: "mM", dimension: "amount_concentration", factor: 1e-3, decimals: 1 },
+    { id: "μM", label: "μM", dimension: "amount_concentration", factor: 1e-6, decimals: 1, aliases: ["uM"] },
+    { id: "nM", label: "nM", dimension: "amount_concentration", factor: 1e-9, decimals: 1 },
+    { id: "pM", label: "pM", dimension: "amount_concentration", factor: 1e-12, decimals: 1 },
+
+    { id: "N", label: "N", dimension: "equivalent_concentration", factor: 1, decimals: 3 },
+    { id: "mN", label: "mN", dimension: "equivalent_concentration", factor: 1e-3, decimals: 1 },
+
+    { id: "g/L", label: "g/L", dimension: "mass_concentration", factor: 1, decimals: 3 },
+    { id: "mg/mL", label: "mg/mL", dimension: "mass_concentration", factor: 1, decimals: 1 },
+    { id: "mg/L", label: "mg/L", dimension: "mass_concentration", factor: 1e-3, decimals: 2 },
+    { id: "μg/mL", label: "μg/mL", dimension: "mass_concentration", factor: 1e-3, decimals: 2, aliases: ["ug/mL"] },
+    { id: "ng/μL", label: "ng/μL", dimension: "mass_concentration", factor: 1e-3, decimals: 2, aliases: ["ng/uL"] },
+    { id: "pct", label: "%", option: "% (w/v)", dimension: "mass_concentration", factor: 10, decimals: 2 },
+
+    { id: "pct_ww", label: "% w/w", option: "% (w/w)", dimension: "mass_fraction", factor: 1e-2, decimals: 2 },
+    { id: "ppm", label: "ppm", dimension: "mass_fraction", factor: 1e-6, decimals: 2 },
+    { id: "ppb", label: "ppb", dimension: "mass_fraction", factor: 1e-9, decimals: 2 },
+
+    { id: "pct_vv", label: "% v/v", option: "% (v/v)", dimension: "volume_fraction", factor: 1e-2, decimals: 2 },
+
+    { id: "dil", label: "X", option: "Dilution (X)", dimension: "dilution", factor: 1, decimals: 1 },
+
+    { id: "L", label: "L", dimension: "volume", factor: 1, decimals: 3 },
+    { id: "mL", label: "mL", dimension: "volume", factor: 1e-3, decimals: 3 },
+    { id: "μL", label: "μL", dimension: "volume", factor: 1e-6, decimals: 1, aliases: ["uL"] },
+    { id: "nL", label: "nL", dimension: "volume", factor: 1e-9, decimals: 1 },
+
+    { id: "kg", label: "kg", dimension: "mass", factor: 1e3, decimals: 3 },
+    { id: "g", label: "g", dimension: "mass", factor: 1, decimals: 3 },
+    { id: "mg", label: "mg", dimension: "mass", factor: 1e-3, decimals: 1 },
+    { id: "μg", label: "μg", dimension: "mass", factor: 1e-6, decimals: 1, aliases: ["ug"] },
+    { id: "ng", label: "ng", dimension: "mass", factor: 1e-9, decimals: 1 },
+];
+
+const BY_ID: Record<string, UnitDef> = {};
+for (const unit of UNITS) {
+    BY_ID[unit.id] = unit;
+    for (const alias of unit.aliases || []) BY_ID[alias] = unit;
+}
+
+// Everything that can describe how much solute is in a solution
+export const CONCENTRATION_DIMENSIONS: Dimension[] = ["amount_concentration", "mass_concentration", "mass_fraction", "volume_fraction"];
+
+// Stocks and targets of dilutions can also be given in normality
+export const DILUTION_DIMENSIONS: Dimension[] = [...CONCENTRATION_DIMENSIONS, "equivalent_concentration"];
+
+export function getUnit(id: string): UnitDef | undefined {
+    return BY_ID[id];
+}
+
+/** Units of the given dimensions, in registry order. */
+export function unitsOf(...dimensions: Dimension[]): UnitDef[] {
+    return UNITS.filter((u) => dimensions.includes(u.dimension));
+}
+
+function requireUnit(id: string): UnitDef {
+    const unit = BY_ID[id];
+    if (!unit) throw new Error(`Unknown unit: ${id}`);
+    return unit;
+}
+
+export function toBase(value: number, unit: string): number {
+    return value * requireUnit(unit).factor;
+}
+
+export function fromBase(value: number, unit: string): number {
+    return value / requireUnit(unit).factor;
+}
+
+export interface ConversionContext {
+    mw?: number; // g/mol, between amount and mass concentrations
+    density?: number; // g/mL of the solution, for mass fractions
+    diluteAqueous?: boolean; // without a density, take a mass fraction's solution as water (1 g/mL)
+    soluteDensity?: number; // g/mL of the neat solute, for volume fractions
+    equivalents?: number; // eq/mol (protons, hydroxides or electrons), for normality
+}
+
+// Normality converts like molarity once divided by the equivalents per mole
+const asMolar = (dimension: Dimension): Dimension => (dimension === "equivalent_concentration" ? "amount_concentration" : dimension);
+
+/** True when converting between the two units goes through the molecular weight. */
+export function requiresMw(from: string, to: string): boolean {
+    const a = asMolar(requireUnit(from).dimension);
+    const b = asMolar(requireUnit(to).dimension);
+    return a !== b && (a === "amount_concentration" || b === "amount_concentration");
+}
+
+/** True when a % w/w value crosses into another dimension, which goes through the solution's density. */
+export function requiresDensity(from: string, to: string): boolean {
+    const a = requireUnit(from).dimension;
+    const b = requireUnit(to).dimension;
+    return a !== b && ((a === "mass_fraction" && !isTraceFraction(from)) || (b === "mass_fraction" && !isTraceFraction(to)));
+}
+
+/** ppm and ppb: trace levels in dilute aqueous solutions, where 1 g/mL is a fair density to assume. */
+export function isTraceFraction(unit: string): boolean {
+    return unit === "ppm" || unit === "ppb";
+}
+
+/** True when converting between the two units needs the equivalents per mole (N ↔ anything else). */
+export function requiresEquivalents(from: string, to: string): boolean {
+    const a = requireUnit(from).dimension;
+    const b = requireUnit(to).dimension;
+    return a !== b && (a === "equivalent_concentration" || b === "equivalent_concentration");
+}
+
+function equivalentsPerMole(context: ConversionContext): number {
+    if (!(context.equivalents && context.equivalents > 0)) throw new Error("Equivalents per mole required for normality conversion");
+    return context.equivalents;
+}
+
+/** g/L of solute per base unit of a concentration dimension. */
+function gramsPerLitre(dimension: Dimension, context: ConversionContext): number {
+    switch (dimension) {
+        case "mass_concentration":
+            return 1;
+        case "amount_concentration":
+            if (!(context.mw && context.mw > 0)) throw new Error("Molecular weight required for mass ↔ molar conversion");
+            return context.mw;
+        case "mass_fraction":
+            if (context.density && context.density > 0) return context.density * 1000;
+            if (!context.diluteAqueous) throw new Error("Density of the solution required for % w/w conversion");
+            return 1000;
+        case "volume_fraction":
+            if (!(context.soluteDensity && context.soluteDensity > 0)) throw new Error("Density of the neat solute required for % v/v conversion");
+            return context.soluteDensity * 1000;
+        default:
+            throw new Error("Not a concentration unit");
+    }
+}
+
+/**
+ * Converts a value between units. Within a dimension it's a factor; normality
+ * is molarity times the equivalents per mole; other concentration dimensions
+ * go through g/L, using the MW for molar units and densities for fractions.
+ * Throws for incompatible units or missing data.
+ */
+export function convert(value: number, from: string, to: string, context: ConversionContext = {}): number {
+    const source = requireUnit(from);
+    const target = requireUnit(to);
+    let base = value * source.factor;
+    if (source.dimension === target.dimension) return base / target.factor;
+
+    if (source.dimension === "equivalent_concentration") base /= equivalentsPerMole(context);
+    const perMole = target.dimension === "equivalent_concentration" ? equivalentsPerMole(context) : 1;
+    const sourceDimension = asMolar(source.dimension);
+    const targetDimension = asMolar(target.dimension);
+
+    if (sourceDimension !== targetDimension) {
+        if (!CONCENTRATION_DIMENSIONS.includes(sourceDimension) || !CONCENTRATION_DIMENSIONS.includes(targetDimension)) {
+            throw new Error(`Can't convert ${source.label} to ${target.label}`);
+        }
+        base = (base * gramsPerLitre(sourceDimension, context)) / gramsPerLitre(targetDimension, context);
+    }
+    return (base * perMole) / target.factor;
+}
@@ -2,12 +2,21 @@ import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { ChemicalData } from "@/lib/parser";
 import { Recipe, DEFAULT_RECIPES } from "@/lib/recipes";
+import { Reagent, ReagentProduct, ReagentTable } from "@/lib/reagents";
+import { BatchLot } from "@/lib/batch";
+import { LiquidReagent, LIQUID_REAGENTS } from "@/lib/densities";
+import { GROUP_ABBREVIATIONS } from "@/lib/constants";
+import { AtomicWeightTableId, DEFAULT_ATOMIC_WEIGHT_TABLE } from "@/lib/atomicWeights";
+import { NumberFormat, DEFAULT_NUMBER_FORMAT } from "@/lib/sigfigs";
+import { PlateDirection, SerialMode } from "@/lib/serial";
 
 interface AppState {
-    activeTab: "home" | "mw" | "dilution" | "buffer_calc" | "buffer_recipe" | "molarity";
-    setActiveTab: (tab: "home" | "mw" | "dilution" | "buffer_calc" | "buffer_recipe" | "molarity") => void;
+    activeTab: "home" | "mw" | "elemental" | "reaction" | "reagents" | "dilution" | "serial" | "buffer_calc" | "buffer_recipe" | "molarity";
+    setActiveTab: (tab: "home" | "mw" | "elemental" | "reaction" | "reagents" | "dilution" | "serial" | "buffer_calc" | "buffer_recipe" | "molarity") => void;
 
     // MW Calculator State
+    mwMode: "formula" | "peptide" | "nucleic" | "polymer";
+    setMwMode: (mode: "formula" | "peptide" | "nucleic" | "polymer") => void;
     mwInput: string;
     setMwInput: (val: string) => void;
     mwResult: ChemicalData | null;
@@ -26,6 +35,9 @@ interface AppState {
         v2: string;
         vu2: string;
         linkedSoluteId: string | null;
+        resolvedName: string | null; // name whose MW is already known, e.g. sent from the MW tab
+        density: string; // g/mL of the stock, for % w/w stocks
+        equivalents: string; // eq/mol, for normality
     };
     setDilution: (data: Partial<AppState["dilution"]>) => void;
 
@@ -52,15 +64,78 @@ interface AppState {
         volUnit: string;
         concUnit: string;
         target: "mass" | "volume" | "concentration" | "mw";
+        compound: string | null; // formula of the looked-up compound, for its lots
+        lotId: string | null;
+        equivalents: string; // eq/mol, when the concentration is in N
     };
     setMolarityState: (data: Partial<AppState["molarityState"]>) => void;
 
+    // Serial Dilution State
+    serialDilution: {
+        start: string;
+        startUnit: string;
+        mode: SerialMode;
+        factor: string; // fold per step, in "factor" mode
+        points: string;
+        targets: string; // target concentrations in the start unit, in "series" mode
+        volume: string; // final volume per tube
+        volumeUnit: string;
+        displayUnit: string; // "" shows concentrations in the start unit
+        mw: string; // g/mol, for mass ↔ molar display
+        equivalents: string; // eq/mol, for normality display
+        density: string; // g/mL, for % w/w display
+        showPlate: boolean;
+        replicates: string;
+        direction: PlateDirection;
+    };
+    setSerialDilution: (data: Partial<AppState["serialDilution"]>) => void;
+
+    // Reagent Table State
+    reagentTable: {
+        name: string | null; // name of the saved table it was loaded from
+        reagents: Reagent[];
+        limitingId: string | null;
+        product: ReagentProduct;
+    };
+    addReagent: (data?: Partial<Reagent>) => void;
+    updateReagent: (id: string, data: Partial<Reagent>) => void;
+    removeReagent: (id: string) => void;
+    setLimitingReagent: (id: string) => void;
+    setReagentProduct: (data: Partial<ReagentProduct>) => void;
+    clearReagents: () => void;
+    savedReagentTables: ReagentTable[];
+    saveReagentTable: (name: string, description: string) => void;
+    loadReagentTable: (table: ReagentTable) => void;
+    deleteReagentTable: (id: string) => void;
+
+    // Certificate-of-analysis lots, keyed by compound (see compoundKey)
+    lots: Record<string, BatchLot[]>;
+    addLot: (compound: string, data?: Partial<BatchLot>) => string;
+    updateLot: (compound: string, id: string, data: Partial<BatchLot>) => void;
+    removeLot: (compound: string, id: string) => void;
+
     // Recipe Library State
     savedRecipes: Recipe[];
     saveRecipe: (name: string, description: string) => void;
     loadRecipe: (recipe: Recipe) => void;
     deleteRecipe: (id: string) => void;
 
+    // Formula Settings
+    groupAbbreviations: Record<string, string>;
+    setGroupAbbreviation: (name: string, formula: string) => void;
+    removeGroupAbbreviation: (name: string) => void;
+    resetGroupAbbreviations: () => void;
+    atomicWeightTable: AtomicWeightTableId;
+    setAtomicWeightTable: (id: AtomicWeightTableId) => void;
+    liquids: LiquidReagent[];
+    setLiquid: (liquid: LiquidReagent) => void; // adds, or replaces the one with the same name
+    removeLiquid: (name: string) => void;
+    resetLiquids: () => void;
+
+    // Display Settings
+    numberFormat: NumberFormat;
+    setNumberFormat: (data: Partial<NumberFormat>) => void;
+
     // UI State
     isHistoryOpen: boolean;
     setIsHistoryOpen: (val: boolean) => void;
@@ -75,21 +150,55 @@ interface AppState {
     resetStore: () => void;
 }
 
+const DEFAULT_SERIAL_DILUTION: AppState["serialDilution"] = {
+    start: "",
+    startUnit: "mM",
+    mode: "factor",
+    factor: "2",
+    points: "8",
+    targets: "",
+    volume: "100",
+    volumeUnit: "μL",
+    displayUnit: "",
+    mw: "",
+    equivalents: "",
+    density: "",
+    showPlate: false,
+    replicates: "3",
+    direction: "across"
+};
+
+const EMPTY_REAGENT_TABLE: AppState["reagentTable"] = {
+    name: null,
+    reagents: [],
+    limitingId: null,
+    product: { name: "", mw: "", equivalents: "1", isolatedMass: "" }
+};
+
+// Results from before inputs were recorded fall back to their formula
+const historyKey = (data: ChemicalData) => (data.input ? `${data.input.mode}:${data.input.text}` : data.formula);
+
 export const useStore = create<AppState>()(
     persist(
         (set) => ({
             activeTab: "home",
             setActiveTab: (tab) => set({ activeTab: tab }),
 
+            mwMode: "formula",
+            setMwMode: (mode) => set({ mwMode: mode }),
             mwInput: "",
             setMwInput: (val) => set({ mwInput: val }),
             mwResult: null,
             setMwResult: (data) => set({ mwResult: data }),
             history: [],
+            // Entries are deduped on the input as typed, so GA and AG stay apart even with the same formula
             addToHistory: (data) =>
-                set((state) => ({
-                    history: [data, ...state.history.filter((h) => h.formula !== data.formula)].slice(0, 10),
-                })),
+                set((state) => {
+                    const key = historyKey(data);
+                    return {
+                        history: [data, ...state.history.filter((h) => historyKey(h) !== key)].slice(0, 10),
+                    };
+                }),
 
             dilution: {
                 name: "",
@@ -101,6 +210,9 @@ export const useStore = create<AppState>()(
                 v2: "",
                 vu2: "mL",
                 linkedSoluteId: null,
+                resolvedName: null,
+                density: "",
+                equivalents: "",
             },
             setDilution: (data) =>
                 set((state) => ({ dilution: { ...state.dilution, ...data } })),
@@ -143,11 +255,112 @@ export const useStore = create<AppState>()(
                 massUnit: "g",
                 volUnit: "L",
                 concUnit: "M",
-                target: "mass"
+                target: "mass",
+                compound: null,
+                lotId: null,
+                equivalents: ""
             },
             setMolarityState: (data) =>
                 set((state) => ({ molarityState: { ...state.molarityState, ...data } })),
 
+            serialDilution: { ...DEFAULT_SERIAL_DILUTION },
+            setSerialDilution: (data) =>
+                set((state) => ({ serialDilution: { ...state.serialDilution, ...data } })),
+
+            reagentTable: { ...EMPTY_REAGENT_TABLE },
+            addReagent: (data) =>
+                set((state) => {
+                    const reagent: Reagent = {
+                        id: Math.random().toString(36).substr(2, 9),
+                        name: "",
+                        mw: "",
+                        equivalents: "1",
+                        mass: "",
+                        volume: "",
+                        density: "",
+                        purity: "100",
+                        ...data
+                    };
+                    const table = state.reagentTable;
+                    return {
+                        reagentTable: {
+                            ...table,
+                            reagents: [...table.reagents, reagent],
+                            // The first reagent is usually the substrate
+                            limitingId: table.limitingId ?? reagent.id
+                        }
+                    };
+                }),
+            updateReagent: (id, data) =>
+                set((state) => ({
+                    reagentTable: {
+                        ...state.reagentTable,
+                        reagents: state.reagentTable.reagents.map((r) => (r.id === id ? { ...r, ...data } : r))
+                    }
+                })),
+            removeReagent: (id) =>
+                set((state) => {
+                    const reagents = state.reagentTable.reagents.filter((r) => r.id !== id);
+                    const limitingId = state.reagentTable.limitingId === id ? reagents[0]?.id ?? null : state.reagentTable.limitingId;
+                    return { reagentTable: { ...state.reagentTable, reagents, limitingId } };
+                }),
+            setLimitingReagent: (id) =>
+                set((state) => ({ reagentTable: { ...state.reagentTable, limitingId: id } })),
+            setReagentProduct: (data) =>
+                set((state) => ({
+                    reagentTable: { ...state.reagentTable, product: { ...state.reagentTable.product, ...data } }
+                })),
+            clearReagents: () => set({ reagentTable: { ...EMPTY_REAGENT_TABLE } }),
+            savedReagentTables: [],
+            saveReagentTable: (name, description) => set((state) => ({
+                savedReagentTables: [
+                    ...state.savedReagentTables,
+                    {
+                        id: Math.random().toString(36).substr(2, 9),
+                        name,
+                        description,
+                        reagents: state.reagentTable.reagents,
+                        limitingId: state.reagentTable.limitingId,
+                        product: state.reagentTable.product
+                    }
+                ],
+                reagentTable: { ...state.reagentTable, name }
+            })),
+            loadReagentTable: (table) => set({
+                reagentTable: {
+                    name: table.name,
+                    reagents: table.reagents.map((r) => ({ ...r })),
+                    limitingId: table.limitingId,
+                    product: { ...table.product }
+                }
+            }),
+            deleteReagentTable: (id) => set((state) => ({
+                savedReagentTables: state.savedReagentTables.filter((t) => t.id !== id)
+            })),
+
+            lots: {},
+            // Returns the new lot's id so it can be selected straight away
+            addLot: (compound, data) => {
+                const lot: BatchLot = {
+                    id: Math.random().toString(36).substr(2, 9),
+                    lot: "",
+                    purity: "100",
+                    water: "",
+                    solvent: "",
+                    counterIon: "",
+                    counterIonEquivalents: "",
+                    ...data
+                };
+                set((state) => ({ lots: { ...state.lots, [compound]: [...(state.lots[compound] || []), lot] } }));
+                return lot.id;
+            },
+            updateLot: (compound, id, data) => set((state) => ({
+                lots: { ...state.lots, [compound]: (state.lots[compound] || []).map((l) => (l.id === id ? { ...l, ...data } : l)) }
+            })),
+            removeLot: (compound, id) => set((state) => ({
+                lots: { ...state.lots, [compound]: (state.lots[compound] || []).filter((l) => l.id !== id) }
+            })),
+
             savedRecipes: [],
             saveRecipe: (name, description) => set((state) => ({
                 savedRecipes: [
@@ -177,6 +390,30 @@ export const useStore = create<AppState>()(
                 savedRecipes: state.savedRecipes.filter(r => r.id !== id)
             })),
 
+            groupAbbreviations: { ...GROUP_ABBREVIATIONS },
+            setGroupAbbreviation: (name, formula) => set((state) => ({
+                groupAbbreviations: { ...state.groupAbbreviations, [name]: formula }
+            })),
+            removeGroupAbbreviation: (name) => set((state) => {
+                const groupAbbreviations = { ...state.groupAbbreviations };
+                delete groupAbbreviations[name];
+                return { groupAbbreviations };
+            }),
+            resetGroupAbbreviations: () => set({ groupAbbreviations: { ...GROUP_ABBREVIATIONS } }),
+            liquids: [...LIQUID_REAGENTS],
+            setLiquid: (liquid) => set((state) => ({
+                liquids: state.liquids.some((l) => l.name === liquid.name)
+                    ? state.liquids.map((l) => (l.name === liquid.name ? liquid : l))
+                    : [...state.liquids, liquid]
+            })),
+            removeLiquid: (name) => set((state) => ({ liquids: state.liquids.filter((l) => l.name !== name) })),
+            resetLiquids: () => set({ liquids: [...LIQUID_REAGENTS] }),
+            atomicWeightTable: DEFAULT_ATOMIC_WEIGHT_TABLE.id,
+            setAtomicWeightTable: (id) => set({ atomicWeightTable: id }),
+            numberFormat: { ...DEFAULT_NUMBER_FORMAT },
+            setNumberFormat: (data) =>
+                set((state) => ({ numberFormat: { ...state.numberFormat, ...data } })),
+
             isHistoryOpen: false,
             setIsHistoryOpen: (val) => set({ isHistoryOpen: val }),
             isSettingsOpen: false,
@@ -188,6 +425,7 @@ export const useStore = create<AppState>()(
 
             resetStore: () => {
                 set({
+                    mwMode: "formula",
                     mwInput: "",
                     mwResult: null,
                     history: [],
@@ -201,6 +439,9 @@ export const useStore = create<AppState>()(
                         v2: "",
                         vu2: "mL",
                         linkedSoluteId: null,
+                        resolvedName: null,
+                        density: "",
+                        equivalents: "",
                     },
                     bufferVolume: "100",
                     bufferUnit: "mL",
@@ -215,8 +456,17 @@ export const useStore = create<AppState>()(
                         massUnit: "g",
                         volUnit: "L",
                         concUnit: "M",
-                        target: "mass"
-                    }
+                        target: "mass",
+                        compound: null,
+                        lotId: null,
+                        equivalents: ""
+                    },
+                    serialDilution: { ...DEFAULT_SERIAL_DILUTION },
+                    reagentTable: { ...EMPTY_REAGENT_TABLE },
+                    groupAbbreviations: { ...GROUP_ABBREVIATIONS },
+                    liquids: [...LIQUID_REAGENTS],
+                    atomicWeightTable: DEFAULT_ATOMIC_WEIGHT_TABLE.id,
+                    numberFormat: { ...DEFAULT_NUMBER_FORMAT }
                 });
             },
         }),